@@ -1,14 +1,50 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { generateTrendImage, enhanceImage, validateApiKey } from './services/geminiService';
-import { Style } from './types';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { createImageProvider, loadProviderSettings, saveProviderSettings } from './services/providers';
+import { addHistoryEntry, recordEnhancement } from './services/historyService';
+import { loadCustomStyles, saveCustomStyles } from './services/styleLibrary';
+import { getDefaultVariableValues, resolvePrompt } from './services/promptTemplate';
+import { BatchControl, createBatchControl, runBatch } from './services/batchRunner';
+import { isCancelledError } from './services/requestSignal';
+import { toServiceError } from './services/serviceError';
+import { CacheSettings, CachedResult, computeCacheKey, findCachedResult, loadCacheSettings, markCacheHit, saveCacheSettings, storeCachedResult } from './services/resultCache';
+import { recordCacheHit } from './services/usageService';
+import { KeyStorageState, PooledKey, cancelKeyPoolUnlock, getKeyPool, getKeyStorageState, subscribeKeyPool, touchKeyPool } from './services/keyPool';
+import { Locale, formatDate, getLocale, setLocale, t } from './services/i18n';
+import { ProgressStep, appendProgressEvent, timelinePercent } from './services/progress';
+import { runEnhancement } from './services/enhancement';
+import { GeneratedCandidate, MAX_VARIATIONS, generateVariations, loadVariationCount, saveVariationCount } from './services/variations';
+import { RefineSession, addRefineVersion, buildRefineRequest, createRefineSession, getCurrentVersion, redoRefine, selectRefineVersion, undoRefine, updateRefineVersion } from './services/refinement';
+import { exportFileName, exportImage, loadExportSettings, saveExportSettings } from './services/imageExport';
+import { NAMING_TOKENS, buildBatchZip, loadNamingPattern, saveNamingPattern } from './services/batchExport';
+import { createBatchJob, deleteBatchJob, deleteBatchJobIfFinished, findUnfinishedBatchJob, getResumableTasks, isPermanentlyFailed, updateBatchJobTask } from './services/batchJobService';
+import { collectSlotFiles, emptySlots, fitToSlots, getMissingRequiredSlots, getStyleInputs, regroupSets } from './services/styleInputs';
+import { BatchJob, BatchJobTask, BatchTaskStatus, EnhanceQuality, ExportSettings, HistoryEntry, ProviderSettings, Style, StyleInputSlot, StyleVariableValues } from './types';
 import { STYLES, AFFILIATE_LINK } from './constants';
 import ImageUploader from './components/ImageUploader';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import ApiKeyPoolPanel from './components/ApiKeyPoolPanel';
+import KeyUnlockForm from './components/KeyUnlockForm';
+import CacheSettingsPanel from './components/CacheSettingsPanel';
+import HistoryGallery from './components/HistoryGallery';
+import UsageDashboard from './components/UsageDashboard';
+import StyleGrid from './components/StyleGrid';
+import StyleManager from './components/StyleManager';
+import PromptVariablesForm from './components/PromptVariablesForm';
+import PromptPreview from './components/PromptPreview';
+import ProgressTimeline from './components/ProgressTimeline';
+import ExportDialog from './components/ExportDialog';
+import MaskEditor from './components/MaskEditor';
+import MaskControls from './components/MaskControls';
+import CompareViewer, { ComparePair } from './components/CompareViewer';
+import RefinePanel from './components/RefinePanel';
+import CandidateGrid from './components/CandidateGrid';
 import Footer from './Footer';
 import PlusIcon from './components/icons/PlusIcon';
 import MinusIcon from './components/icons/MinusIcon';
 import DownloadIcon from './components/icons/DownloadIcon';
 import ThemeSwitcher from './components/ThemeSwitcher';
+import LanguageSwitcher from './components/LanguageSwitcher';
 import XIcon from './components/icons/XIcon';
 import ArrowLeftIcon from './components/icons/ArrowLeftIcon';
 import GearIcon from './components/icons/GearIcon';
@@ -19,191 +55,160 @@ const dataUrlToFile = async (dataUrl: string, fileName: string): Promise<File> =
   return new File([blob], fileName, { type: blob.type });
 };
 
-const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
-
-const translateApiError = (error: unknown): string => {
-    // 1. Handle non-Error objects
-    if (!(error instanceof Error)) {
-        return "Đã xảy ra một lỗi không xác định. Vui lòng thử lại.";
-    }
-
-    const message = error.message;
-
-    // 2. Invalid API Key
-    if (message.includes("API key not valid") || message.includes("PERMISSION_DENIED")) {
-        return "API Key bạn cung cấp không hợp lệ hoặc đã hết hạn.\n\nCách khắc phục:\n1. Kiểm tra lại xem bạn đã sao chép đúng Key chưa.\n2. Truy cập Google AI Studio để tạo một Key mới.";
-    }
-
-    // 3. Quota exhausted
-    if (message.includes("RESOURCE_EXHAUSTED") || message.includes("429")) {
-        // The handleApiError function provides a more specific message for the site's default key.
-        // This message is for users who have provided their own key and it has run out.
-        return "API Key của bạn đã hết hạn ngạch sử dụng.\n\nCách khắc phục:\n1. Vui lòng kiểm tra hạn ngạch trên trang quản lý Key của Google AI Studio.\n2. Thử lại sau một thời gian hoặc sử dụng một Key khác.";
-    }
-
-    // 4. Safety block
-    if (message.includes("SAFETY")) {
-        return "Yêu cầu của bạn đã bị chặn vì lý do an toàn. AI sẽ từ chối các nội dung nhạy cảm hoặc không phù hợp.\n\nCách khắc phục:\n- Vui lòng sử dụng một bức ảnh khác, thân thiện hơn.\n- Nếu dùng lệnh tùy chỉnh, hãy đảm bảo nội dung tích cực.";
-    }
+// Uploads for a fresh single-mode form, sized for the default style.
+const defaultSingleImages = (first: File | null = null) => fitToSlots([first], getStyleInputs(STYLES[0]));
 
-    // 5. Model refusal / Error
-    if (message.includes("MODEL_ERROR:")) {
-        const modelResponse = message.split('MODEL_ERROR: ')[1];
-        const modelResponseLower = modelResponse.toLowerCase();
+const slotLabel = (slot: StyleInputSlot) => slot.required ? slot.label : t('upload.optionalSlot', { label: slot.label });
 
-        const refusalKeywords = [
-            "cannot fulfill", "i'm sorry", "unable to", "cannot generate", "i cannot",
-            "as an ai", "my purpose is to be", "my safety guidelines", "violates my safety policies"
-        ];
-
-        // Check if the model is explicitly refusing the request
-        if (refusalKeywords.some(keyword => modelResponseLower.includes(keyword))) {
-            return "Mô hình AI đã từ chối yêu cầu của bạn. Điều này thường xảy ra khi AI không hiểu rõ yêu cầu hoặc hình ảnh cung cấp không phù hợp.\n\nCách khắc phục:\n- Hãy thử dùng một bức ảnh rõ nét hơn.\n- Đơn giản hóa câu lệnh tùy chỉnh (nếu có).";
-        }
-        
-        // Return the specific model error if it's not a generic refusal
-        return `Lỗi từ mô hình AI: ${modelResponse}`;
-    }
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
 
-    // 6. No API Key provided (should be caught by getApiKey)
-    if (message.includes("NO_API_KEY")) {
-         return "Không tìm thấy API Key. Vui lòng nhập API Key của riêng bạn trong phần Cài đặt để tiếp tục.";
-    }
-    
-    // 7. Network error
-    if (message.includes("Failed to fetch")) {
-        return "Không thể kết nối đến máy chủ của Google. Vui lòng kiểm tra kết nối mạng của bạn và thử lại.";
-    }
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
 
-    // 8. Fallback for other generic API errors
-    // Attempt to parse JSON from the error message which is a common format for API errors.
-    try {
-        // Find the start of the JSON object
-        const jsonStart = message.indexOf('{');
-        if (jsonStart !== -1) {
-            const jsonString = message.substring(jsonStart);
-            const parsedError = JSON.parse(jsonString);
-            if(parsedError?.error?.message){
-                return `Đã có lỗi xảy ra: ${parsedError.error.message}`;
-            }
-        }
-    } catch (e) {
-        // It's not a JSON error, so we'll fall through to the default message
+const VariationCountSelect: React.FC<{ id: string; value: number; onChange: (value: number) => void }> = ({ id, value, onChange }) => (
+  <div className="flex justify-center items-center gap-2 text-sm">
+    <label htmlFor={id} className="text-dark-olive/80 dark:text-cream/80 font-semibold">{t('variations.label')}</label>
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="p-1.5 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg text-dark-olive dark:text-cream"
+    >
+      {Array.from({ length: MAX_VARIATIONS }, (_, index) => index + 1).map(count => (
+        <option key={count} value={count}>{count}</option>
+      ))}
+    </select>
+  </div>
+);
+
+// The one place service error codes become user-facing messages.
+const translateApiError = (error: unknown): string => {
+    const serviceError = toServiceError(error);
+    const { details } = serviceError;
+
+    switch (serviceError.code) {
+        case 'INVALID_KEY':
+            return t('errors.invalidKey');
+        case 'QUOTA_EXHAUSTED':
+            // handleApiError shows its own message when the site's default key runs out.
+            return t('errors.quota');
+        case 'SAFETY':
+            return t('errors.safety', { category: details.safetyCategory ? ` (${details.safetyCategory})` : '' });
+        case 'REFUSAL':
+            return t('errors.refusal') + (details.modelText ? t('errors.refusalText', { text: details.modelText }) : '');
+        case 'NO_API_KEY':
+            return t('errors.noApiKey');
+        case 'NO_PROVIDER_URL':
+            return t('errors.noProviderUrl');
+        case 'NETWORK':
+            return t('errors.network');
+        case 'TIMEOUT':
+            return t('errors.timeout');
+        case 'CANCELLED':
+            return t('errors.cancelled');
+        case 'UNKNOWN':
+        default:
+            console.error("Unhandled API Error:", details.raw ?? serviceError); // Log for debugging
+            return t('errors.unknown', { message: serviceError.message });
     }
-
-    // 9. Default catch-all for unhandled errors
-    console.error("Unhandled API Error:", message); // Log for debugging
-    return `Đã xảy ra lỗi không xác định: ${message}. Vui lòng thử lại sau.`;
 };
 
 
-type Mode = 'single' | 'batch';
+type Mode = 'single' | 'batch' | 'history' | 'usage';
 type BatchResult = { 
   taskId: number;
+  // The chosen candidate.
   imageUrl?: string;
+  candidates?: string[];
+  // Pooled key behind each candidate (or the single image), in the same order.
+  keyLabels?: (string | null)[];
+  // Served from the local result cache.
+  cached?: boolean;
   error?: string;
-  status: 'idle' | 'loading' | 'success' | 'error';
+  status: BatchTaskStatus;
+  // Retry attempt currently waiting or running, for 'retrying' status.
+  attempt?: number;
+  // Stages of the latest attempt.
+  timeline?: ProgressStep[];
+};
+type ResultCandidate = {
+  session: RefineSession;
+  starred: boolean;
+};
+type BatchTask = {
+  taskId: number;
+  images: File[];
+  roles: string[];
+  prompt: string;
+  mask?: File | null;
+};
+type BatchSet = {
+  // A file (or null) for every input slot of the batch style.
+  files: (File | null)[];
+  // Per-task prompt variables; null uses the batch-wide values.
+  variables: StyleVariableValues | null;
+  // Optional inpainting mask painted on the first photo.
+  mask: File | null;
 };
 
 // Moved the modal component outside of the App component to prevent re-renders from causing focus loss
 const ApiKeyModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
-  onSave: (apiKey: string) => Promise<void>;
-  onDelete: () => void;
-  isVerifying: boolean;
-  error: string | null;
-  initialApiKey: string;
-  hasExistingKey: boolean;
-}> = ({ isOpen, onClose, onSave, onDelete, isVerifying, error, initialApiKey, hasExistingKey }) => {
-  const [apiKeyInput, setApiKeyInput] = useState(initialApiKey);
-  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-
-  useEffect(() => {
-    if (isOpen) {
-      setApiKeyInput(initialApiKey);
-      setShowDeleteConfirm(false);
-    }
-  }, [isOpen, initialApiKey]);
-
+  keys: PooledKey[];
+  keyStorage: KeyStorageState;
+  providerSettings: ProviderSettings;
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+  cacheSettings: CacheSettings;
+  onCacheSettingsChange: (settings: CacheSettings) => void;
+}> = ({ isOpen, onClose, keys, keyStorage, providerSettings, onProviderSettingsChange, cacheSettings, onCacheSettingsChange }) => {
   if (!isOpen) return null;
 
-  const handleSaveClick = () => {
-    onSave(apiKeyInput);
-  };
-  
-  const handleDeleteConfirmed = () => {
-      onDelete();
-      onClose(); // Also close modal after deletion
-  }
-
   return (
     <div className="fixed inset-0 z-[101] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4">
-      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-md w-full relative">
-        {showDeleteConfirm ? (
-            <div className="text-center">
-                <h3 className="text-lg font-bold mb-4 text-dark-olive dark:text-cream">Xác nhận xóa Key</h3>
-                <p className="mb-6 text-dark-olive/80 dark:text-cream/80">Bạn có chắc chắn muốn xóa API Key của mình không? Hành động này sẽ xóa key khỏi trình duyệt.</p>
-                <div className="flex justify-center items-center space-x-4">
-                    <button onClick={() => setShowDeleteConfirm(false)} className="px-6 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
-                        Hủy
-                    </button>
-                    <button 
-                        onClick={handleDeleteConfirmed} 
-                        className="px-6 py-2 rounded-full bg-red-600 hover:bg-red-700 text-cream font-bold transition-colors"
-                    >
-                        Xóa Key
-                    </button>
-                </div>
-            </div>
-        ) : (
-          <>
-            <h2 className="text-xl font-bold mb-3 text-dark-olive dark:text-cream">Cài đặt API Key</h2>
-            <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors">
-                <XIcon className="w-6 h-6"/>
-            </button>
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-md w-full relative max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-3 text-dark-olive dark:text-cream">{t('settings.title')}</h2>
+        <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors">
+            <XIcon className="w-6 h-6"/>
+        </button>
+        <ProviderSettingsPanel
+            settings={providerSettings}
+            onChange={onProviderSettingsChange}
+        />
+        {providerSettings.providerId === 'gemini' && providerSettings.geminiProxyUrl.trim() && (
+          <p className="mb-5 text-sm text-dark-olive/80 dark:text-cream/80">
+            {t('apiKey.proxyActive', { url: providerSettings.geminiProxyUrl.trim() })}
+          </p>
+        )}
+        {providerSettings.providerId === 'gemini' && !providerSettings.geminiProxyUrl.trim() && (
+          <div className="mb-5">
+            <h3 className="text-md font-bold mb-2 text-dark-olive dark:text-cream">API Key</h3>
             <p className="mb-4 text-dark-olive/80 dark:text-cream/80 text-sm">
-                Nếu bạn không nhập Key nào, ứng dụng sẽ mặc định sử dụng API Key của tài khoản Google AI Studio bạn đang đăng nhập.
-                Khi cần sử dụng không giới hạn hoặc khi Key mặc định hết lượt, bạn có thể nhập Key của riêng mình.
+                {t('apiKey.intro')}
             </p>
             <a href="https://makersuite.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-sm text-olive dark:text-light-olive hover:underline font-semibold mb-1 block">
-                Bấm vào đây để nhận API Key miễn phí từ Google
+                {t('apiKey.getKey')}
             </a>
              <a href="https://makersuite.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-sm text-olive dark:text-light-olive hover:underline font-semibold mb-4 block">
-                Kiểm tra hạn ngạch và quản lý Key tại đây
+                {t('apiKey.manage')}
             </a>
-            <input
-                type="password"
-                value={apiKeyInput}
-                onChange={(e) => setApiKeyInput(e.target.value)}
-                placeholder="Dán API Key của bạn vào đây"
-                className={`w-full mt-1 p-3 bg-dark-olive/5 dark:bg-olive/20 border rounded-lg focus:ring-2 transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50 ${error ? 'border-red-500 focus:ring-red-500' : 'border-olive/30 focus:ring-olive focus:border-olive'}`}
-            />
-            {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
-            <div className="mt-5 flex justify-end items-center space-x-3">
-                {hasExistingKey && (
-                  <button 
-                      onClick={() => setShowDeleteConfirm(true)} 
-                      className="mr-auto px-5 py-2 rounded-full text-red-500 hover:bg-red-500/10 transition-colors font-semibold"
-                  >
-                      Xóa Key
-                  </button>
-                )}
-                <button onClick={onClose} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
-                    Hủy
-                </button>
-                <button 
-                    onClick={handleSaveClick} 
-                    className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors w-32 text-center"
-                    disabled={isVerifying}
-                >
-                    {isVerifying ? (
-                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-cream mx-auto"></div>
-                    ) : 'Lưu Key'}
-                </button>
-            </div>
-          </>
+            <ApiKeyPoolPanel keys={keys} storage={keyStorage} describeError={translateApiError} />
+          </div>
         )}
+        <CacheSettingsPanel settings={cacheSettings} onChange={onCacheSettingsChange} />
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors">
+              {t('common.done')}
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -211,35 +216,90 @@ const ApiKeyModal: React.FC<{
 
 
 const App: React.FC = () => {
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
   const [mode, setMode] = useState<Mode>('single');
   // Single Mode State
-  const [images, setImages] = useState<(File | null)[]>([null, null]);
+  const [images, setImages] = useState<(File | null)[]>(() => defaultSingleImages());
   const [selectedStyleId, setSelectedStyleId] = useState<string | null>(STYLES[0]?.id || null);
   const [customPrompt, setCustomPrompt] = useState('');
+  const [variableValues, setVariableValues] = useState<StyleVariableValues>(() => getDefaultVariableValues(STYLES[0]));
   const [isCustomPromptVisible, setCustomPromptVisible] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState(0);
-  const progressInterval = useRef<number | null>(null);
+  // Stages reported by the provider for the current generation and enhancement.
+  const [generationTimeline, setGenerationTimeline] = useState<ProgressStep[]>([]);
+  const progress = timelinePercent(generationTimeline);
+  // Aborts the single generation or enhancement in flight.
+  const requestAbortRef = useRef<AbortController | null>(null);
 
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [isEnhancing, setIsEnhancing] = useState(false);
-  const enhancementProgressInterval = useRef<number | null>(null);
-  const [enhancementProgress, setEnhancementProgress] = useState(0);
+  const [enhancementTimeline, setEnhancementTimeline] = useState<ProgressStep[]>([]);
+  const enhancementProgress = timelinePercent(enhancementTimeline);
+  // History entry of the result currently shown, so enhancements update it.
+  const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+  // What the current result was made from, for the comparison viewer.
+  const [generatedInput, setGeneratedInput] = useState<File | null>(null);
+  const [preEnhanceImage, setPreEnhanceImage] = useState<string | null>(null);
+  const [comparePair, setComparePair] = useState<ComparePair | null>(null);
+  const compareObjectUrlRef = useRef<string | null>(null);
+  // Parallel candidates of the last generation, each with its own refinement versions.
+  const [candidates, setCandidates] = useState<ResultCandidate[]>([]);
+  const [activeCandidate, setActiveCandidate] = useState(0);
+  const [requestedVariations, setRequestedVariations] = useState(1);
+  const [variationCount, setVariationCount] = useState<number>(loadVariationCount);
+  const refineSession = candidates[activeCandidate]?.session ?? null;
+  const servedByLabel = refineSession ? getCurrentVersion(refineSession).keyLabel : null;
+  const isCachedResult = refineSession ? getCurrentVersion(refineSession).fromCache : false;
+  const [isRefining, setIsRefining] = useState(false);
+  const [refinementTimeline, setRefinementTimeline] = useState<ProgressStep[]>([]);
+  const isResultBusy = isEnhancing || isRefining;
 
   // API Key Management
-  const [userApiKey, setUserApiKey] = useState<string | null>(null);
+  const [keyPool, setKeyPool] = useState<PooledKey[]>(getKeyPool);
+  const [keyStorage, setKeyStorage] = useState<KeyStorageState>(getKeyStorageState);
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
-  const [isVerifyingApiKey, setIsVerifyingApiKey] = useState(false);
-  const [apiKeyError, setApiKeyError] = useState<string | null>(null);
 
+  // Style library: built-in styles followed by the user's own
+  const [customStyles, setCustomStyles] = useState<Style[]>(loadCustomStyles);
+  const allStyles = useMemo(() => [...STYLES, ...customStyles], [customStyles]);
+  const customStyleIds = useMemo(() => new Set(customStyles.map(style => style.id)), [customStyles]);
+  const [isStyleManagerOpen, setIsStyleManagerOpen] = useState(false);
+  // Inpainting mask for the first single-mode photo, and which photo the editor is open for.
+  const [singleMask, setSingleMask] = useState<File | null>(null);
+  const [maskEditorTarget, setMaskEditorTarget] = useState<{ kind: 'single' } | { kind: 'batch'; setIndex: number } | null>(null);
+  const [styleManagerDraft, setStyleManagerDraft] = useState<Partial<Style> | null>(null);
+
+  // Image provider selection
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [cacheSettings, setCacheSettings] = useState<CacheSettings>(loadCacheSettings);
+  // Open while the user picks between a cached result and a fresh request.
+  const [cacheChoice, setCacheChoice] = useState<{ hits: number; total: number; createdAt: number; resolve: (useCached: boolean | null) => void } | null>(null);
+  const provider = useMemo(() => createImageProvider(providerSettings), [providerSettings]);
+
+
+  useEffect(() => subscribeKeyPool(keys => {
+    setKeyPool(keys);
+    setKeyStorage(getKeyStorageState());
+  }), []);
+
+  // Any interaction keeps decrypted keys unlocked; they lock after a quiet period.
+  const isKeyVaultOpen = keyStorage.mode === 'encrypted' && !keyStorage.locked;
+  useEffect(() => {
+    if (!isKeyVaultOpen) return;
+    window.addEventListener('pointerdown', touchKeyPool);
+    window.addEventListener('keydown', touchKeyPool);
+    return () => {
+      window.removeEventListener('pointerdown', touchKeyPool);
+      window.removeEventListener('keydown', touchKeyPool);
+    };
+  }, [isKeyVaultOpen]);
 
   useEffect(() => {
-    const savedApiKey = localStorage.getItem('userApiKey');
-    if (savedApiKey) {
-      setUserApiKey(savedApiKey);
-    }
+    findUnfinishedBatchJob()
+      .then(setResumableJob)
+      .catch(err => console.error('Failed to load saved batch job:', err));
   }, []);
 
   // Zoomable preview state
@@ -253,51 +313,107 @@ const App: React.FC = () => {
 
   // Batch Mode State
   const [batchStyleId, setBatchStyleId] = useState<string>(STYLES[0]?.id || '');
-  const [batchImages, setBatchImages] = useState<(File | null)[]>([]);
+  const [batchSets, setBatchSets] = useState<BatchSet[]>(() => [{ files: emptySlots(getStyleInputs(STYLES[0])), variables: null, mask: null }]);
+  const [batchVariableValues, setBatchVariableValues] = useState<StyleVariableValues>(() => getDefaultVariableValues(STYLES[0]));
   const [batchResults, setBatchResults] = useState<BatchResult[]>([]);
   const [isBatchLoading, setIsBatchLoading] = useState(false);
   const [batchProgress, setBatchProgress] = useState(0);
+  // Tasks of the last run, kept so queued or failed ones can be run again.
+  const [batchTasks, setBatchTasks] = useState<BatchTask[]>([]);
+  const batchControlRef = useRef<BatchControl | null>(null);
+  const [isBatchPaused, setIsBatchPaused] = useState(false);
+  // Job the current results are persisted to, and an unfinished one found on load.
+  const [batchJobId, setBatchJobId] = useState<string | null>(null);
+  const [resumableJob, setResumableJob] = useState<BatchJob | null>(null);
+  const [namingPattern, setNamingPattern] = useState<string>(loadNamingPattern);
+
+  // Export dialog: what is being downloaded and how it is converted.
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+  const [exportTarget, setExportTarget] = useState<{ kind: 'single'; imageUrl: string } | { kind: 'batch' } | null>(null);
+  const [batchConcurrency, setBatchConcurrency] = useState<number>(() => Number(localStorage.getItem('batchConcurrency')) || 2);
   
-  useEffect(() => {
-    const defaultStyle = STYLES[0]?.id || '';
-    setBatchStyleId(defaultStyle);
-    if (defaultStyle === 'polaroid') {
-      setBatchImages([null, null]);
-    } else {
-      setBatchImages([null]);
-    }
-  }, []);
+  const selectedStyle = allStyles.find(s => s.id === selectedStyleId) ?? null;
+  // Null while typing a custom prompt: the uploader then takes any number of photos.
+  const singleSlots = isCustomPromptVisible || !selectedStyle ? null : getStyleInputs(selectedStyle);
+  const singleMaskEnabled = !isCustomPromptVisible && !!selectedStyle?.maskInstruction && provider.capabilities.inpainting;
+  const batchStyle = allStyles.find(s => s.id === batchStyleId) ?? null;
+  const batchSlots = getStyleInputs(batchStyle);
+  const batchMaskEnabled = !!batchStyle?.maskInstruction && provider.capabilities.inpainting;
+  const batchVariables = batchStyle?.variables ?? [];
 
   // Common Functions
   const resetToInitialState = () => {
-    setImages([null, null]);
+    setImages(defaultSingleImages());
     setSelectedStyleId(STYLES[0]?.id || null);
+    setVariableValues(getDefaultVariableValues(STYLES[0]));
     setCustomPrompt('');
     setCustomPromptVisible(false);
     setGeneratedImage(null);
     setError(null);
     setIsLoading(false);
-    setProgress(0);
+    setGenerationTimeline([]);
     setIsPreviewOpen(false);
     setIsEnhancing(false);
-    setEnhancementProgress(0);
+    setEnhancementTimeline([]);
+    setCurrentHistoryId(null);
+    setSingleMask(null);
+    setGeneratedInput(null);
+    setPreEnhanceImage(null);
+    setCandidates([]);
+    setActiveCandidate(0);
+    setIsRefining(false);
+  };
+
+  const saveToHistory = async (imageDataUrl: string, inputs: File[], styleId: string | null, customPrompt: string | null): Promise<string | null> => {
+    try {
+      const entry = await addHistoryEntry({ imageDataUrl, inputs, styleId, customPrompt, model: provider.model });
+      return entry.id;
+    } catch (err) {
+      // A failed history save must not interrupt generation.
+      console.error('Failed to save history entry:', err);
+      return null;
+    }
   };
 
+  // Resolves true to use the cached results, false to generate fresh and null when cancelled.
+  const askCacheChoice = (hits: number, total: number, createdAt: number) => new Promise<boolean | null>(resolve => {
+    setCacheChoice({ hits, total, createdAt, resolve });
+  });
+
+  const handleCacheChoice = (useCached: boolean | null) => {
+    cacheChoice?.resolve(useCached);
+    setCacheChoice(null);
+  };
+
+  // Gemini without a personal key or proxy runs on the site's shared quota.
+  const isUsingDefaultKey = keyPool.length === 0 && !keyStorage.locked && provider.id === 'gemini' && !providerSettings.geminiProxyUrl.trim();
+
   const handleApiError = (err: unknown) => {
     const translatedError = translateApiError(err);
     
     // Check if the site's default key ran out of quota
-    const isQuotaError = (err instanceof Error && err.message.includes("RESOURCE_EXHAUSTED"));
-    if (isQuotaError && !userApiKey) {
-        setError("Rất tiếc, lượt sử dụng miễn phí của trang web đã hết. Vui lòng nhập API Key của riêng bạn trong phần cài đặt để tiếp tục.");
+    if (toServiceError(err).code === 'QUOTA_EXHAUSTED' && isUsingDefaultKey) {
+        setError(t('errors.defaultKeyQuota'));
         setIsApiKeyModalOpen(true);
     } else {
         setError(translatedError);
     }
   };
   
+  const checkProviderSupports = (imageCount: number): string | null => {
+    if (!provider.capabilities.imageToImage) {
+      return t('errors.noImageToImage', { provider: provider.name });
+    }
+    if (imageCount > 1 && !provider.capabilities.multipleInputImages) {
+      return t('errors.singleInputOnly', { provider: provider.name });
+    }
+    return null;
+  };
+
   // Single Mode Functions
   const handleImageChange = (file: File | null, index: number) => {
+    // A mask only fits the photo it was painted on.
+    if (index === 0) setSingleMask(null);
     const newImages = [...images];
     newImages[index] = file;
     setImages(newImages);
@@ -314,69 +430,126 @@ const App: React.FC = () => {
   };
 
   const removeImage = (index: number) => {
+    // Slots defined by the style stay in place, only the file is cleared.
+    if (singleSlots) {
+      handleImageChange(null, index);
+      return;
+    }
     if (images.length <= 1) {
       setImages([null]);
       return;
     }
+    if (index === 0) setSingleMask(null);
     const newImages = images.filter((_, i) => i !== index);
     setImages(newImages);
   };
 
   const handleGenerate = async () => {
-    const imagesToProcess = images.filter((img): img is File => img !== null);
+    const { images: imagesToProcess, roles: imageRoles } = singleSlots
+      ? collectSlotFiles(images, singleSlots)
+      : { images: images.filter((img): img is File => img !== null), roles: [] };
     if (imagesToProcess.length === 0) {
-      setError("Vui lòng tải lên ít nhất một ảnh.");
+      setError(t('errors.noImages'));
+      return;
+    }
+
+    const missingSlots = singleSlots ? getMissingRequiredSlots(images, singleSlots) : [];
+    if (missingSlots.length > 0) {
+      setError(t('errors.missingSlots', { slots: missingSlots.map(slot => slot.label).join(', ') }));
       return;
     }
 
     const currentPrompt = isCustomPromptVisible
       ? customPrompt
-      : STYLES.find(s => s.id === selectedStyleId)?.prompt;
+      : selectedStyle ? resolvePrompt(selectedStyle, variableValues) : undefined;
 
     if (!currentPrompt) {
-      setError("Vui lòng chọn một style hoặc nhập lệnh tùy chỉnh.");
+      setError(t('errors.noStyleOrPrompt'));
       return;
     }
 
+    const capabilityError = checkProviderSupports(imagesToProcess.length);
+    if (capabilityError) {
+      setError(capabilityError);
+      return;
+    }
+
+    const styleId = isCustomPromptVisible ? null : selectedStyleId;
+    const generateOptions = {
+      styleId,
+      imageRoles,
+      mask: singleMaskEnabled && singleMask && images[0] ? { image: singleMask, instruction: selectedStyle.maskInstruction } : undefined,
+    };
+
+    const cacheKey = cacheSettings.enabled
+      ? await computeCacheKey({ providerId: provider.id, model: provider.model, endpoint: provider.endpoint, prompt: currentPrompt, images: imagesToProcess, imageRoles, mask: generateOptions.mask, variations: variationCount })
+        .catch(err => { console.error('Failed to hash the request:', err); return null; })
+      : null;
+    const cached = cacheKey ? await findCachedResult(cacheKey).catch(() => undefined) : undefined;
+    const useCached = cached ? await askCacheChoice(1, 1, cached.createdAt) : false;
+    if (useCached === null) return;
+
     setIsLoading(true);
     setError(null);
     setGeneratedImage(null);
-    setProgress(0);
-
-    let progressValue = 0;
-    progressInterval.current = window.setInterval(() => {
-        progressValue += Math.random() * 2 + 1;
-        if (progressValue >= 95) {
-            if(progressInterval.current) clearInterval(progressInterval.current);
-            progressValue = 95;
-        }
-        setProgress(Math.round(progressValue));
-    }, 250);
+    setGenerationTimeline([]);
+    setEnhancementTimeline([]);
+    setPreEnhanceImage(null);
+
+    const controller = new AbortController();
+    requestAbortRef.current = controller;
 
     try {
-      const result = await generateTrendImage(imagesToProcess, currentPrompt, userApiKey);
-      if(progressInterval.current) clearInterval(progressInterval.current);
-      setProgress(100);
+      let results: GeneratedCandidate[];
+      if (useCached) {
+        results = cached!.candidates;
+        markCacheHit(cached!).catch(err => console.error('Failed to update result cache:', err));
+        recordCacheHit(provider.model, styleId);
+      } else {
+        results = await generateVariations(provider, variationCount, imagesToProcess, currentPrompt, {
+          ...generateOptions,
+          signal: controller.signal,
+          onProgress: event => setGenerationTimeline(prev => appendProgressEvent(prev, event)),
+        });
+        if (cacheKey) {
+          storeCachedResult(cacheKey, results, variationCount, cacheSettings).catch(err => console.error('Failed to update result cache:', err));
+        }
+      }
+      // A cached result is already in the history from when it was generated.
+      const historyIds = useCached ? results.map(() => null) : await Promise.all(results.map(result => (
+        saveToHistory(result.imageUrl, imagesToProcess, styleId, isCustomPromptVisible ? customPrompt : null)
+      )));
+      const sessionBase = { images: imagesToProcess, imageRoles, mask: generateOptions.mask, styleId };
+      const nextCandidates = results.map((result, index) => {
+        const session = createRefineSession(sessionBase, currentPrompt, result.imageUrl, useCached ? null : result.keyLabel);
+        return { session: updateRefineVersion(session, session.currentId, { historyId: historyIds[index], fromCache: useCached }), starred: false };
+      });
       setTimeout(() => {
-        setGeneratedImage(result);
+        setGeneratedImage(results[0].imageUrl);
+        setCurrentHistoryId(historyIds[0]);
+        setGeneratedInput(imagesToProcess[0]);
+        setCandidates(nextCandidates);
+        setActiveCandidate(0);
+        setRequestedVariations(variationCount);
         setIsLoading(false);
       }, 500);
     } catch (err) {
-      if(progressInterval.current) clearInterval(progressInterval.current);
-      handleApiError(err);
+      if (!isCancelledError(err)) handleApiError(err);
+      setGenerationTimeline([]);
       setIsLoading(false);
+    } finally {
+      requestAbortRef.current = null;
     }
   };
+
+  const handleCancelRequest = () => {
+    requestAbortRef.current?.abort();
+  };
   
   const handleDownload = useCallback((imageUrl?: string) => {
     const url = imageUrl || generatedImage;
     if (!url) return;
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `tao-anh-trend-${new Date().getTime()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    setExportTarget({ kind: 'single', imageUrl: url });
   }, [generatedImage]);
 
   const handleDownloadWithAffiliate = useCallback(() => {
@@ -391,75 +564,163 @@ const App: React.FC = () => {
     try {
         const imageFile = await dataUrlToFile(generatedImage, 'generated-image.png');
         resetToInitialState();
-        setImages([imageFile, null]);
+        setImages(defaultSingleImages(imageFile));
     } catch (e) {
-        setError("Không thể sử dụng ảnh này. Vui lòng thử tải về và tải lên lại.");
+        setError(t('errors.reuseImage'));
     }
   }, [generatedImage]);
 
-  const handleEnhance = async (quality: 'HD' | '2K' | '4K') => {
-    if (!generatedImage) return;
+  const handleEnhance = async (quality: EnhanceQuality) => {
+    if (!generatedImage || !provider.capabilities.upscaling) return;
 
     setIsEnhancing(true);
     setError(null);
-    setEnhancementProgress(0);
+    setEnhancementTimeline([]);
 
-    let progressValue = 0;
-    const intervalTime = quality === '4K' ? 400 : 300;
-    const progressIncrement = quality === '4K' ? 1.5 : 2;
-
-    enhancementProgressInterval.current = window.setInterval(() => {
-        progressValue += Math.random() * progressIncrement + 1;
-        if (progressValue >= 95) {
-            if(enhancementProgressInterval.current) clearInterval(enhancementProgressInterval.current);
-            progressValue = 95;
-        }
-        setEnhancementProgress(Math.round(progressValue));
-    }, intervalTime);
+    const controller = new AbortController();
+    requestAbortRef.current = controller;
 
     try {
-        let result = generatedImage;
-        if (quality === '4K') {
-            const result1 = await enhanceImage(result, '4K', userApiKey);
-            result = await enhanceImage(result1, '4K', userApiKey);
-        } else {
-            result = await enhanceImage(result, quality, userApiKey);
+        let keyLabel: string | null = null;
+        const result = await runEnhancement(provider, generatedImage, quality, {
+            signal: controller.signal,
+            onProgress: event => setEnhancementTimeline(prev => appendProgressEvent(prev, event)),
+            onKeyUsed: label => { keyLabel = label; },
+        });
+
+        if (currentHistoryId) {
+            recordEnhancement(currentHistoryId, result).catch(err => console.error('Failed to update history entry:', err));
         }
-        
-        if(enhancementProgressInterval.current) clearInterval(enhancementProgressInterval.current);
-        setEnhancementProgress(100);
         setTimeout(() => {
+            // Keep the unenhanced version even after several upgrades.
+            setPreEnhanceImage(prev => prev ?? generatedImage);
             setGeneratedImage(result);
+            setCandidates(prev => prev.map((candidate, index) => index === activeCandidate
+              ? { ...candidate, session: updateRefineVersion(candidate.session, candidate.session.currentId, { imageUrl: result, keyLabel, fromCache: false }) }
+              : candidate));
             setIsEnhancing(false);
         }, 500);
     } catch (err) {
-        if(enhancementProgressInterval.current) clearInterval(enhancementProgressInterval.current);
-        handleApiError(err);
+        if (!isCancelledError(err)) handleApiError(err);
+        setEnhancementTimeline([]);
         setIsEnhancing(false);
+    } finally {
+        requestAbortRef.current = null;
     }
   };
 
   const handleGoBackToEditing = () => {
+    requestAbortRef.current?.abort();
     setGeneratedImage(null);
+    setCurrentHistoryId(null);
     setError(null);
     setIsEnhancing(false);
-    setEnhancementProgress(0);
-    if (enhancementProgressInterval.current) {
-        clearInterval(enhancementProgressInterval.current);
+    setEnhancementTimeline([]);
+    setGeneratedInput(null);
+    setPreEnhanceImage(null);
+    setCandidates([]);
+    setActiveCandidate(0);
+    setIsRefining(false);
+  };
+
+  // Shows the current version of a candidate's refinement session as the result.
+  const showRefineSession = (session: RefineSession, candidateIndex: number = activeCandidate) => {
+    const version = getCurrentVersion(session);
+    setCandidates(prev => prev.map((candidate, index) => index === candidateIndex ? { ...candidate, session } : candidate));
+    setActiveCandidate(candidateIndex);
+    setGeneratedImage(version.imageUrl);
+    setCurrentHistoryId(version.historyId);
+    setPreEnhanceImage(null);
+    setEnhancementTimeline([]);
+  };
+
+  const handleRefine = async (instruction: string) => {
+    if (!refineSession || isResultBusy) return;
+
+    setIsRefining(true);
+    setError(null);
+    setRefinementTimeline([]);
+
+    const controller = new AbortController();
+    requestAbortRef.current = controller;
+
+    try {
+      let keyLabel: string | null = null;
+      const result = await provider.refine(buildRefineRequest(refineSession, instruction), {
+        signal: controller.signal,
+        onProgress: event => setRefinementTimeline(prev => appendProgressEvent(prev, event)),
+        onKeyUsed: label => { keyLabel = label; },
+      });
+      const historyId = await saveToHistory(result, refineSession.images, refineSession.styleId, instruction);
+      const next = addRefineVersion(refineSession, instruction, result, keyLabel);
+      showRefineSession(updateRefineVersion(next, next.currentId, { historyId }));
+    } catch (err) {
+      if (!isCancelledError(err)) handleApiError(err);
+    } finally {
+      setRefinementTimeline([]);
+      setIsRefining(false);
+      requestAbortRef.current = null;
     }
   };
 
+  const handleSelectCandidate = (index: number) => {
+    const candidate = candidates[index];
+    if (!candidate || isResultBusy) return;
+    showRefineSession(candidate.session, index);
+  };
+
+  const handleToggleCandidateStar = (index: number) => {
+    setCandidates(prev => prev.map((candidate, i) => i === index ? { ...candidate, starred: !candidate.starred } : candidate));
+  };
+
+  // Drops the candidates that were not starred, keeping the one being viewed if it is starred.
+  const handleKeepStarredCandidates = () => {
+    const kept = candidates.filter(candidate => candidate.starred);
+    if (kept.length === 0) return;
+    const active = candidates[activeCandidate];
+    const nextIndex = Math.max(0, kept.indexOf(active));
+    setCandidates(kept);
+    showRefineSession(kept[nextIndex].session, nextIndex);
+  };
+
+  const handleVariationCountChange = (value: number) => {
+    saveVariationCount(value);
+    setVariationCount(value);
+  };
+
+  const openCompare = (before: Blob | string, after: string, beforeLabel: string, afterLabel: string) => {
+    let beforeUrl = before as string;
+    if (before instanceof Blob) {
+      beforeUrl = URL.createObjectURL(before);
+      compareObjectUrlRef.current = beforeUrl;
+    }
+    setComparePair({ before: beforeUrl, after, beforeLabel, afterLabel });
+  };
+
+  const closeCompare = () => {
+    if (compareObjectUrlRef.current) {
+      URL.revokeObjectURL(compareObjectUrlRef.current);
+      compareObjectUrlRef.current = null;
+    }
+    setComparePair(null);
+  };
+
   const toggleCustomPrompt = () => {
     setCustomPromptVisible(!isCustomPromptVisible);
     if (!isCustomPromptVisible) {
       setSelectedStyleId(null);
     } else if (!selectedStyleId && STYLES.length > 0) {
       setSelectedStyleId(STYLES[0].id);
+      setVariableValues(getDefaultVariableValues(STYLES[0]));
+      setImages(prev => fitToSlots(prev, getStyleInputs(STYLES[0])));
     }
   };
 
   const handleStyleSelect = (styleId: string) => {
+    const style = allStyles.find(s => s.id === styleId);
     setSelectedStyleId(styleId);
+    setVariableValues(getDefaultVariableValues(style));
+    setImages(prev => fitToSlots(prev, getStyleInputs(style)));
     if(isCustomPromptVisible) {
       setCustomPromptVisible(false);
     }
@@ -469,158 +730,338 @@ const App: React.FC = () => {
   const handleBatchStyleChange = (styleId: string) => {
     setBatchStyleId(styleId);
     setBatchResults([]);
-  
-    setBatchImages(prev => {
-      const hasUploadedFiles = prev.some(img => img !== null);
-      if (!hasUploadedFiles) {
-        return styleId === 'polaroid' ? [null, null] : [null];
-      }
-  
-      const currentImages = [...prev];
-  
-      if (styleId === 'polaroid' && currentImages.length % 2 !== 0) {
-        currentImages.push(null);
-      }
-      
-      return currentImages;
-    });
+    const style = allStyles.find(s => s.id === styleId);
+    setBatchVariableValues(getDefaultVariableValues(style));
+    setBatchSets(prev => regroupSets(prev.map(set => set.files), getStyleInputs(style))
+      .map(files => ({ files, variables: null, mask: null })));
   };
 
-  const addBatchSlot = () => {
-    if (batchStyleId === 'polaroid') {
-        setBatchImages(prev => [...prev, null, null]);
-    } else {
-        setBatchImages(prev => [...prev, null]);
-    }
+  const addBatchSet = () => {
+    setBatchSets(prev => [...prev, { files: emptySlots(batchSlots), variables: null, mask: null }]);
   };
 
-  const removeLastBatchSlot = () => {
-    if (batchStyleId === 'polaroid') {
-        if (batchImages.length > 2) {
-            setBatchImages(prev => prev.slice(0, prev.length - 2));
-        }
-    } else {
-        if (batchImages.length > 1) {
-            setBatchImages(prev => prev.slice(0, prev.length - 1));
-        }
+  const removeLastBatchSet = () => {
+    if (batchSets.length > 1) {
+      setBatchSets(prev => prev.slice(0, prev.length - 1));
     }
   };
   
-  const handleBatchImageChange = (index: number, file: File | null) => {
-    setBatchImages(prev => prev.map((img, idx) => idx === index ? file : img));
+  const handleBatchImageChange = (setIndex: number, slotIndex: number, file: File | null) => {
+    setBatchSets(prev => prev.map((set, idx) => (
+      idx === setIndex
+        ? { ...set, files: set.files.map((img, i) => i === slotIndex ? file : img), mask: slotIndex === 0 ? null : set.mask }
+        : set
+    )));
   };
-  
-  const removeBatchImage = (index: number) => {
-    if (batchImages.length <= 1) {
-        setBatchImages([null]);
-        return;
+
+  const handleMaskSave = (mask: File | null, target = maskEditorTarget) => {
+    if (!target) return;
+    if (target.kind === 'single') {
+      setSingleMask(mask);
+    } else {
+      const { setIndex } = target;
+      setBatchSets(prev => prev.map((set, idx) => idx === setIndex ? { ...set, mask } : set));
     }
-    setBatchImages(prev => prev.filter((_, i) => i !== index));
   };
 
-  const removePolaroidPair = (pairIndex: number) => {
-      if (batchImages.length <= 2) {
-          setBatchImages([null, null]);
-          return;
-      }
-      const startIndex = pairIndex * 2;
-      setBatchImages(prev => prev.filter((_, i) => i < startIndex || i >= startIndex + 2));
-  }
+  const setBatchSetVariables = (setIndex: number, variables: StyleVariableValues | null) => {
+    setBatchSets(prev => prev.map((set, idx) => idx === setIndex ? { ...set, variables } : set));
+  };
+
+  const removeBatchSet = (setIndex: number) => {
+    if (batchSets.length <= 1) {
+      setBatchSets([{ files: emptySlots(batchSlots), variables: null, mask: null }]);
+      return;
+    }
+    setBatchSets(prev => prev.filter((_, i) => i !== setIndex));
+  };
 
   const handleBatchGenerate = async () => {
-    const currentPrompt = STYLES.find(s => s.id === batchStyleId)?.prompt;
-    if (!currentPrompt) {
-        setError("Vui lòng chọn một style hợp lệ.");
+    if (!batchStyle) {
+        setError(t('errors.invalidStyle'));
         return;
     }
 
-    const validTasksWithIds: { taskId: number, images: File[] }[] = [];
-    if (batchStyleId === 'polaroid') {
-        for (let i = 0; i < batchImages.length / 2; i++) {
-            const image1 = batchImages[i*2];
-            const image2 = batchImages[i*2 + 1];
-            if (image1 && image2) {
-                validTasksWithIds.push({ taskId: i, images: [image1, image2] });
-            }
+    // Sets that are empty or miss a required photo are skipped.
+    const validTasksWithIds: BatchTask[] = [];
+    batchSets.forEach((set, index) => {
+        const { images: setImages, roles } = collectSlotFiles(set.files, batchSlots);
+        if (setImages.length > 0 && getMissingRequiredSlots(set.files, batchSlots).length === 0) {
+            const prompt = resolvePrompt(batchStyle, { ...batchVariableValues, ...(set.variables ?? {}) });
+            const mask = batchMaskEnabled && set.files[0] ? set.mask : null;
+            validTasksWithIds.push({ taskId: index, images: setImages, roles, prompt, mask });
         }
-    } else {
-        batchImages.forEach((img, index) => {
-            if (img) {
-                validTasksWithIds.push({ taskId: index, images: [img] });
-            }
-        });
-    }
+    });
 
     if (validTasksWithIds.length === 0) {
-        setError("Vui lòng hoàn thành ít nhất một bộ ảnh để tạo.");
+        setError(t('errors.noCompleteSet'));
         return;
     }
 
+    const capabilityError = checkProviderSupports(Math.max(...validTasksWithIds.map(task => task.images.length)));
+    if (capabilityError) {
+        setError(capabilityError);
+        return;
+    }
+
+    let jobId: string | null = null;
+    try {
+      jobId = (await createBatchJob(batchStyleId, validTasksWithIds)).id;
+    } catch (err) {
+      // The batch still runs when saving fails; it just cannot be resumed after a reload.
+      console.error('Failed to save batch job:', err);
+    }
+    setResumableJob(null);
+    setBatchJobId(jobId);
+    setBatchTasks(validTasksWithIds);
+    setBatchResults(validTasksWithIds.map(task => ({ taskId: task.taskId, status: 'queued' })));
+    await runBatchTasks(validTasksWithIds, batchStyleId, jobId);
+  };
+
+  const runBatchTasks = async (tasks: BatchTask[], styleId: string, jobId: string | null) => {
+    const maskInstruction = allStyles.find(style => style.id === styleId)?.maskInstruction;
+    const maskFor = (task: BatchTask) => task.mask && maskInstruction ? { image: task.mask, instruction: maskInstruction } : undefined;
+    const count = variationCount;
+
+    // Cache key of every task, and the tasks that already have a cached result.
+    const cacheKeys = new Map<number, string>();
+    const cachedResults = new Map<number, CachedResult>();
+    if (cacheSettings.enabled) {
+      await Promise.all(tasks.map(async task => {
+        try {
+          const key = await computeCacheKey({ providerId: provider.id, model: provider.model, endpoint: provider.endpoint, prompt: task.prompt, images: task.images, imageRoles: task.roles, mask: maskFor(task), variations: count });
+          cacheKeys.set(task.taskId, key);
+          const cached = await findCachedResult(key);
+          if (cached) cachedResults.set(task.taskId, cached);
+        } catch (err) {
+          console.error('Failed to read result cache:', err);
+        }
+      }));
+    }
+    const useCached = cachedResults.size > 0
+      ? await askCacheChoice(cachedResults.size, tasks.length, Math.min(...[...cachedResults.values()].map(entry => entry.createdAt)))
+      : false;
+    if (useCached === null) return;
+
     setIsBatchLoading(true);
     setError(null);
-    setBatchResults(validTasksWithIds.map(task => ({ taskId: task.taskId, status: 'loading' })));
     setBatchProgress(0);
 
-    for (let i = 0; i < validTasksWithIds.length; i++) {
-        const task = validTasksWithIds[i];
-        try {
-            if (i > 0) await new Promise(resolve => setTimeout(resolve, 300));
+    const updateResult = (taskId: number, patch: Partial<BatchResult>) => {
+      setBatchResults(prev => prev.map(r => r.taskId === taskId ? { ...r, ...patch } : r));
+    };
+    const persistResult = (taskId: number, patch: Partial<BatchJobTask>) => {
+      if (!jobId) return;
+      updateBatchJobTask(jobId, taskId, patch).catch(err => console.error('Failed to update batch job:', err));
+    };
+    let finishedCount = 0;
+    const markFinished = () => {
+      finishedCount++;
+      setBatchProgress(Math.round((finishedCount / tasks.length) * 100));
+    };
 
-            const imageUrl = await generateTrendImage(task.images, currentPrompt, userApiKey);
+    const control = createBatchControl();
+    batchControlRef.current = control;
+    setIsBatchPaused(false);
+
+    const summary = await runBatch<GeneratedCandidate[]>(tasks.map(task => ({
+      id: task.taskId,
+      run: async signal => {
+        const cached = useCached ? cachedResults.get(task.taskId) : undefined;
+        if (cached) {
+          markCacheHit(cached).catch(err => console.error('Failed to update result cache:', err));
+          recordCacheHit(provider.model, styleId);
+          return cached.candidates;
+        }
+        const results = await generateVariations(provider, count, task.images, task.prompt, {
+          styleId,
+          imageRoles: task.roles,
+          mask: maskFor(task),
+          signal,
+          onProgress: event => setBatchResults(prev => prev.map(r => (
+            r.taskId === task.taskId ? { ...r, timeline: appendProgressEvent(r.timeline ?? [], event) } : r
+          ))),
+        });
+        const cacheKey = cacheKeys.get(task.taskId);
+        if (cacheKey) {
+          storeCachedResult(cacheKey, results, count, cacheSettings).catch(err => console.error('Failed to update result cache:', err));
+        }
+        return results;
+      },
+    })), {
+      concurrency: batchConcurrency,
+      control,
+      onTaskStart: (taskId, attempt) => updateResult(taskId, attempt > 0 ? { status: 'retrying', attempt, timeline: [] } : { status: 'loading', error: undefined, timeline: [] }),
+      onTaskRetry: (taskId, attempt) => updateResult(taskId, { status: 'retrying', attempt }),
+      onTaskSuccess: (taskId, results) => {
+        const fromCache = Boolean(useCached) && cachedResults.has(taskId);
+        const images = results.map(result => result.imageUrl);
+        const patch = { status: 'success' as const, imageUrl: images[0], candidates: images.length > 1 ? images : undefined, error: undefined };
+        updateResult(taskId, { ...patch, keyLabels: fromCache ? undefined : results.map(result => result.keyLabel), cached: fromCache });
+        persistResult(taskId, patch);
+        const task = tasks.find(t => t.taskId === taskId);
+        if (task && !fromCache) images.forEach(imageUrl => saveToHistory(imageUrl, task.images, styleId, null));
+        markFinished();
+      },
+      onTaskError: (taskId, err) => {
+        const message = translateApiError(err);
+        updateResult(taskId, { status: 'error', error: message });
+        persistResult(taskId, { status: 'error', error: message, errorCode: toServiceError(err).code });
+        markFinished();
+      },
+    });
 
-            setBatchResults(prev => prev.map(r => 
-                r.taskId === task.taskId ? { ...r, status: 'success', imageUrl } : r
-            ));
-        } catch (err) {
-            const errorMessage = translateApiError(err);
-            const isQuotaError = (err instanceof Error && err.message.includes("RESOURCE_EXHAUSTED"));
-            
-            if (isQuotaError && !userApiKey) {
-                setError("Lượt sử dụng của trang đã hết. Vui lòng nhập API Key của bạn để tiếp tục.");
-                setIsApiKeyModalOpen(true);
-                setIsBatchLoading(false);
-                setBatchResults([]); // Clear results on quota error
-                return; // Stop the whole batch process
-            }
-
-            setBatchResults(prev => prev.map(r => 
-                r.taskId === task.taskId ? { ...r, status: 'error', error: errorMessage } : r
-            ));
+    // Finished results are kept; unfinished tasks stay queued so the run can continue later.
+    summary.pending.forEach(taskId => updateResult(taskId, { status: 'queued', attempt: undefined }));
+    if (summary.quotaExhausted) {
+        if (isUsingDefaultKey) {
+            setError(t('errors.batchDefaultKeyQuota'));
+            setIsApiKeyModalOpen(true);
+        } else {
+            setError(t('errors.batchQuota', { count: summary.pending.length }));
         }
-        setBatchProgress(Math.round(((i + 1) / validTasksWithIds.length) * 100));
     }
-    
+
+    if (jobId) {
+      deleteBatchJobIfFinished(jobId).catch(err => console.error('Failed to clean up batch job:', err));
+    }
+    batchControlRef.current = null;
+    setIsBatchPaused(false);
     setIsBatchLoading(false);
   };
+
+  const handleResumeSavedJob = async () => {
+    const job = resumableJob;
+    if (!job) return;
+    setResumableJob(null);
+    setMode('batch');
+    if (allStyles.some(style => style.id === job.styleId)) {
+      handleBatchStyleChange(job.styleId);
+    }
+    const tasks = job.tasks.map(({ taskId, images, roles, prompt, mask }) => ({ taskId, images, roles, prompt, mask }));
+    setBatchJobId(job.id);
+    setBatchTasks(tasks);
+    setBatchResults(job.tasks.map(task => {
+      if (task.status === 'success') return { taskId: task.taskId, status: 'success', imageUrl: task.imageUrl, candidates: task.candidates };
+      if (isPermanentlyFailed(task)) return { taskId: task.taskId, status: 'error', error: task.error };
+      return { taskId: task.taskId, status: 'queued' };
+    }));
+    // Succeeded and permanently failed tasks are skipped; the latter stay listed under "retry failed".
+    const resumable = new Set(getResumableTasks(job).map(task => task.taskId));
+    await runBatchTasks(tasks.filter(task => resumable.has(task.taskId)), job.styleId, job.id);
+  };
+
+  const handleDiscardSavedJob = () => {
+    if (resumableJob) {
+      deleteBatchJob(resumableJob.id).catch(err => console.error('Failed to delete batch job:', err));
+    }
+    setResumableJob(null);
+  };
+
+  const discardCurrentBatchJob = () => {
+    if (batchJobId) {
+      deleteBatchJob(batchJobId).catch(err => console.error('Failed to delete batch job:', err));
+    }
+    setBatchJobId(null);
+  };
+
+  const handleToggleBatchPause = () => {
+    const control = batchControlRef.current;
+    if (!control) return;
+    if (control.isPaused()) {
+      control.resume();
+      setIsBatchPaused(false);
+    } else {
+      control.pause();
+      setIsBatchPaused(true);
+    }
+  };
+
+  const handleCancelBatch = () => {
+    batchControlRef.current?.cancel();
+  };
+
+  const handleResumeBatch = (status: 'queued' | 'error') => {
+    const ids = new Set(batchResults.filter(r => r.status === status).map(r => r.taskId));
+    const tasks = batchTasks.filter(task => ids.has(task.taskId));
+    if (tasks.length === 0) return;
+    runBatchTasks(tasks, batchStyleId, batchJobId);
+  };
+
+  const handleBatchConcurrencyChange = (value: number) => {
+    localStorage.setItem('batchConcurrency', String(value));
+    setBatchConcurrency(value);
+  };
   
   const resetBatchState = () => {
+    discardCurrentBatchJob();
     handleBatchStyleChange(batchStyleId);
   }
 
   const handleGoBackToBatchEditing = () => {
+    discardCurrentBatchJob();
     setBatchResults([]);
   };
 
+  const batchKeyLabel = (result: BatchResult): string | null => {
+    const index = result.candidates ? result.candidates.indexOf(result.imageUrl!) : 0;
+    return result.keyLabels?.[index] ?? null;
+  };
+
+  const handleChooseBatchCandidate = (taskId: number, imageUrl: string) => {
+    setBatchResults(prev => prev.map(r => r.taskId === taskId ? { ...r, imageUrl } : r));
+    if (batchJobId) {
+      updateBatchJobTask(batchJobId, taskId, { imageUrl }).catch(err => console.error('Failed to update batch job:', err));
+    }
+  };
+
   const openBatchImagePreview = (imageUrl: string) => {
     setGeneratedImage(imageUrl);
     openPreview();
   };
 
   const handleDownloadAll = () => {
-      const successfulImages = batchResults
-          .filter(r => r.status === 'success' && r.imageUrl)
-          .map(r => r.imageUrl!);
-
-      if(successfulImages.length === 0) {
-        alert("Không có ảnh nào để tải về.");
+      if (!batchResults.some(r => r.status === 'success' && r.imageUrl)) {
+        alert(t('errors.nothingToDownload'));
         return;
       }
+      setExportTarget({ kind: 'batch' });
+  };
 
-      successfulImages.forEach((url, index) => {
-          setTimeout(() => {
-              handleDownload(url);
-          }, index * 300);
-      });
+  const handleExport = async () => {
+    if (!exportTarget) return;
+    if (exportTarget.kind === 'single') {
+      const { blob, mimeType } = await exportImage(exportTarget.imageUrl, exportSettings);
+      saveBlob(blob, exportFileName(`tao-anh-trend-${new Date().getTime()}`, mimeType));
+      return;
+    }
+    const exportTasks: BatchJobTask[] = batchTasks.map(task => {
+      const result = batchResults.find(r => r.taskId === task.taskId);
+      return { ...task, status: result?.status ?? 'queued', imageUrl: result?.imageUrl, error: result?.error };
+    });
+    const zip = await buildBatchZip(exportTasks, batchStyle, namingPattern, provider.model, exportSettings);
+    saveBlob(zip, `tao-anh-trend-${new Date().getTime()}.zip`);
+  };
+
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    saveExportSettings(settings);
+  };
+
+  const handleNamingPatternChange = (pattern: string) => {
+    setNamingPattern(pattern);
+    saveNamingPattern(pattern);
+  };
+
+  const handleUseHistoryEntry = async (entry: HistoryEntry) => {
+    try {
+        const imageFile = await dataUrlToFile(entry.imageDataUrl, 'history-image.png');
+        resetToInitialState();
+        setImages(defaultSingleImages(imageFile));
+        setMode('single');
+    } catch (e) {
+        setError(t('errors.reuseImage'));
+    }
   };
 
   const handleDownloadAllWithAffiliate = () => {
@@ -751,38 +1192,47 @@ const App: React.FC = () => {
     lastPosition.current = null;
   };
   
-  const handleSaveApiKey = async (apiKeyToValidate: string) => {
-    setIsVerifyingApiKey(true);
-    setApiKeyError(null);
-    const result = await validateApiKey(apiKeyToValidate);
-
-    if (result.success) {
-      localStorage.setItem('userApiKey', apiKeyToValidate);
-      setUserApiKey(apiKeyToValidate);
-      setError(null); // Clear main application error
-      setIsApiKeyModalOpen(false);
-      setIsVerifyingApiKey(false);
-    } else {
-      setIsVerifyingApiKey(false);
-      setApiKeyError(translateApiError(new Error(result.error || 'API Key không hợp lệ.')));
+  const openStyleManager = (draft: Partial<Style> | null = null) => {
+    setStyleManagerDraft(draft);
+    setIsStyleManagerOpen(true);
+  };
+
+  const handleCustomStylesChange = (styles: Style[]) => {
+    saveCustomStyles(styles);
+    setCustomStyles(styles);
+    // Fall back to the first built-in style when the selected one was deleted.
+    const remainingIds = new Set([...STYLES, ...styles].map(style => style.id));
+    if (selectedStyleId && !remainingIds.has(selectedStyleId)) {
+      setSelectedStyleId(STYLES[0]?.id || null);
+    }
+    if (!remainingIds.has(batchStyleId)) {
+      handleBatchStyleChange(STYLES[0]?.id || '');
     }
   };
 
-  const handleDeleteApiKey = () => {
-    localStorage.removeItem('userApiKey');
-    setUserApiKey(null);
-    setApiKeyError(null);
-    setError(null); // Clear main application error as well
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+  };
+
+  const handleCacheSettingsChange = (settings: CacheSettings) => {
+    saveCacheSettings(settings);
+    setCacheSettings(settings);
+  };
+
+  // t() reads the module-level locale; the state change re-renders the tree with it.
+  const handleLocaleChange = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
   };
 
   const handleOpenApiKeyModal = () => {
-    setApiKeyError(null);
     setIsApiKeyModalOpen(true);
   }
 
   const LoadingState = () => (
     <div className="flex flex-col items-center justify-center space-y-4 w-full max-w-md">
-        <p className="text-olive dark:text-light-olive text-lg">Đang tạo ảnh, vui lòng chờ...</p>
+        <p className="text-olive dark:text-light-olive text-lg">{t('single.loading')}</p>
         <div className="w-full bg-dark-olive/10 dark:bg-cream/10 rounded-full h-4">
             <div
                 className="bg-olive h-4 rounded-full transition-all duration-300 ease-linear"
@@ -790,7 +1240,11 @@ const App: React.FC = () => {
             ></div>
         </div>
         <p className="text-2xl font-bold text-dark-olive dark:text-cream">{progress}%</p>
-        <p className="text-dark-olive/70 dark:text-cream/70 text-center text-sm mt-2">Quá trình này có thể mất một chút thời gian. Cảm ơn bạn đã kiên nhẫn!</p>
+        <ProgressTimeline timeline={generationTimeline} />
+        <p className="text-dark-olive/70 dark:text-cream/70 text-center text-sm mt-2">{t('single.loadingHint')}</p>
+        <button onClick={handleCancelRequest} className="text-sm font-semibold py-2 px-5 rounded-full border border-olive/50 text-olive hover:bg-olive hover:text-cream transition-colors">
+          {t('common.cancel')}
+        </button>
     </div>
   );
 
@@ -801,13 +1255,25 @@ const App: React.FC = () => {
           onClick={() => setMode('single')}
           className={`px-6 py-2 rounded-full transition-colors duration-300 ${mode === 'single' ? 'bg-olive text-cream shadow' : 'text-dark-olive/70 dark:text-cream/70 hover:bg-dark-olive/5 dark:hover:bg-olive/10'}`}
         >
-          Tạo ảnh đơn
+          {t('tabs.single')}
         </button>
         <button 
           onClick={() => setMode('batch')}
           className={`px-6 py-2 rounded-full transition-colors duration-300 ${mode === 'batch' ? 'bg-olive text-cream shadow' : 'text-dark-olive/70 dark:text-cream/70 hover:bg-dark-olive/5 dark:hover:bg-olive/10'}`}
         >
-          Tạo hàng loạt
+          {t('tabs.batch')}
+        </button>
+        <button 
+          onClick={() => setMode('history')}
+          className={`px-6 py-2 rounded-full transition-colors duration-300 ${mode === 'history' ? 'bg-olive text-cream shadow' : 'text-dark-olive/70 dark:text-cream/70 hover:bg-dark-olive/5 dark:hover:bg-olive/10'}`}
+        >
+          {t('tabs.history')}
+        </button>
+        <button 
+          onClick={() => setMode('usage')}
+          className={`px-6 py-2 rounded-full transition-colors duration-300 ${mode === 'usage' ? 'bg-olive text-cream shadow' : 'text-dark-olive/70 dark:text-cream/70 hover:bg-dark-olive/5 dark:hover:bg-olive/10'}`}
+        >
+          {t('tabs.usage')}
         </button>
       </div>
     </div>
@@ -818,7 +1284,11 @@ const App: React.FC = () => {
 
   const ApiKeyStatus = () => (
       <p className="text-dark-olive/60 dark:text-cream/60 mt-2 text-xs font-semibold">
-        {userApiKey ? 'Đang sử dụng Key cá nhân của bạn' : 'Đang sử dụng Key mặc định của AI Studio'}
+        {provider.id !== 'gemini'
+          ? t('status.usingProvider', { provider: provider.name })
+          : providerSettings.geminiProxyUrl.trim() ? t('status.usingProxy')
+          : keyStorage.locked ? t('status.keysLocked')
+          : keyPool.length > 0 ? t('status.usingKeyPool', { count: keyPool.length }) : t('status.usingDefaultKey')}
       </p>
   );
 
@@ -826,14 +1296,17 @@ const App: React.FC = () => {
     <div className="min-h-screen text-dark-olive dark:text-cream flex flex-col items-center p-4 sm:p-6 lg:p-8">
       <div className="fixed top-4 left-4 z-50 flex space-x-2 items-center">
         <ThemeSwitcher />
+        <LanguageSwitcher locale={locale} onChange={handleLocaleChange} />
         <button
           onClick={handleOpenApiKeyModal}
           className="relative p-2 rounded-full bg-olive/20 dark:bg-cream/20 text-dark-olive dark:text-cream hover:bg-olive/30 dark:hover:bg-cream/30 transition-colors"
-          aria-label="Cài đặt API Key"
+          aria-label={t('settings.title')}
         >
             <GearIcon className="w-6 h-6" />
-            {userApiKey && (
-              <span className="absolute top-0 right-0 block h-3 w-3 rounded-full bg-green-500 ring-2 ring-cream dark:ring-dark-olive" title="API Key cá nhân đang hoạt động"></span>
+            {keyStorage.locked ? (
+              <span className="absolute top-0 right-0 block h-3 w-3 rounded-full bg-yellow-500 ring-2 ring-cream dark:ring-dark-olive" title={t('status.keysLocked')}></span>
+            ) : keyPool.length > 0 && (
+              <span className="absolute top-0 right-0 block h-3 w-3 rounded-full bg-green-500 ring-2 ring-cream dark:ring-dark-olive" title={t('status.ownKeyActive')}></span>
             )}
         </button>
       </div>
@@ -841,88 +1314,131 @@ const App: React.FC = () => {
       <main className="w-full max-w-2xl mx-auto">
         <header className="text-center my-8">
           <h1 className="text-4xl sm:text-5xl font-extrabold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-olive to-dark-olive dark:from-light-olive dark:to-cream">
-            TẠO ẢNH TREND
+            {t('app.title')}
           </h1>
         </header>
 
         <Tabs />
 
+        {resumableJob && !isBatchLoading && (
+          <div className="mb-6 p-4 rounded-lg bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 text-center space-y-3 animate-fade-in">
+            <p className="text-sm text-dark-olive/90 dark:text-cream/90">
+              {t('resume.banner', { done: resumableJob.tasks.filter(task => task.status === 'success').length, total: resumableJob.tasks.length, date: formatDate(resumableJob.updatedAt) })}
+            </p>
+            <div className="flex justify-center gap-2">
+              <button onClick={handleResumeSavedJob} className="text-sm font-semibold py-2 px-5 rounded-full bg-olive text-cream hover:bg-dark-olive transition-colors">
+                {t('resume.continue')}
+              </button>
+              <button onClick={handleDiscardSavedJob} className="text-sm font-semibold py-2 px-5 rounded-full border border-olive/50 text-olive hover:bg-olive hover:text-cream transition-colors">
+                {t('resume.discard')}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* SINGLE MODE UI */}
         {mode === 'single' && (
           <>
             {!generatedImage && !isLoading && (
               <div className="space-y-8 animate-fade-in">
                 <div>
-                  <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3 text-center">Tải ảnh lên</h2>
+                  <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3 text-center">{t('single.uploadTitle')}</h2>
                   <div className="flex flex-wrap justify-center items-start gap-4">
                       {images.map((imageFile, index) => (
                           <ImageUploader
                               key={index}
-                              label={`Ảnh ${index + 1}`}
+                              label={singleSlots ? slotLabel(singleSlots[index]) : t('upload.imageN', { n: index + 1 })}
                               onImageChange={(file) => handleImageChange(file, index)}
                               onRemove={() => removeImage(index)}
                               initialFile={imageFile}
+                              limits={provider.inputLimits}
                           />
                       ))}
                   </div>
+                  {singleMaskEnabled && images[0] && (
+                    <div className="mt-3">
+                      <MaskControls
+                        hasMask={!!singleMask}
+                        onEdit={() => setMaskEditorTarget({ kind: 'single' })}
+                        onClear={() => setSingleMask(null)}
+                      />
+                    </div>
+                  )}
                 </div>
                 
-                <div className="flex justify-center items-center gap-4">
-                    <button
-                        onClick={removeLastSingleSlot}
-                        className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-dark-olive/10 dark:disabled:hover:bg-olive/20"
-                        aria-label="Bớt ô tải ảnh"
-                        disabled={images.length <= 1}
-                    >
-                        <MinusIcon className="w-6 h-6" />
-                    </button>
-                    <button
-                        onClick={addImageSlot}
-                        className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream"
-                        aria-label="Thêm ảnh"
-                    >
-                        <PlusIcon className="w-6 h-6" />
-                    </button>
-                </div>
-
-                <div>
-                  <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3">Chọn style</h2>
-                  <div className="grid grid-cols-2 gap-3">
-                    {STYLES.map((style: Style) => (
+                {!singleSlots && (
+                  <div className="flex justify-center items-center gap-4">
                       <button
-                        key={style.id}
-                        onClick={() => handleStyleSelect(style.id)}
-                        className={`p-4 rounded-lg text-left transition-all duration-200 ${selectedStyleId === style.id ? 'bg-olive text-cream ring-2 ring-olive/70' : 'bg-dark-olive/5 dark:bg-olive/20 hover:bg-dark-olive/10 dark:hover:bg-olive/30'}`}
+                          onClick={removeLastSingleSlot}
+                          className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-dark-olive/10 dark:disabled:hover:bg-olive/20"
+                          aria-label={t('upload.removeSlot')}
+                          disabled={images.length <= 1}
                       >
-                        <span className="font-bold">{style.name}</span>
+                          <MinusIcon className="w-6 h-6" />
+                      </button>
+                      <button
+                          onClick={addImageSlot}
+                          className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream"
+                          aria-label={t('upload.addSlot')}
+                      >
+                          <PlusIcon className="w-6 h-6" />
                       </button>
-                    ))}
                   </div>
-                </div>
+                )}
+
+                <StyleGrid
+                  title={t('single.chooseStyle')}
+                  styles={allStyles}
+                  selectedStyleId={selectedStyleId}
+                  onSelect={handleStyleSelect}
+                  customStyleIds={customStyleIds}
+                  onManage={() => openStyleManager()}
+                />
+
+                {selectedStyle && !isCustomPromptVisible && (
+                  <div className="space-y-3">
+                    <PromptVariablesForm
+                      variables={selectedStyle.variables ?? []}
+                      values={variableValues}
+                      onChange={setVariableValues}
+                    />
+                    <PromptPreview prompt={resolvePrompt(selectedStyle, variableValues)} />
+                  </div>
+                )}
 
                 <div className="w-full">
                     <button onClick={toggleCustomPrompt} className={`w-full flex justify-center items-center space-x-2 p-3 rounded-lg transition-colors duration-300 ${isCustomPromptVisible ? 'bg-olive text-cream ring-2 ring-olive/70' : 'bg-dark-olive/10 dark:bg-olive/20 hover:bg-dark-olive/20 dark:hover:bg-olive/30'}`}>
                         <PlusIcon className={`w-5 h-5 transition-transform duration-300 ${isCustomPromptVisible ? 'rotate-45' : ''}`}/>
-                        <span>Lệnh tùy chỉnh</span>
+                        <span>{t('single.customPrompt')}</span>
                     </button>
                     {isCustomPromptVisible && (
                         <textarea
                             value={customPrompt}
                             onChange={(e) => setCustomPrompt(e.target.value)}
-                            placeholder="Nhập prompt (câu lệnh) của bạn vào đây..."
+                            placeholder={t('single.customPromptPlaceholder')}
                             className="w-full mt-3 p-3 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition animate-fade-in text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50"
                             rows={4}
                         />
                     )}
+                    {isCustomPromptVisible && customPrompt.trim() !== '' && (
+                        <button
+                            onClick={() => openStyleManager({ prompt: customPrompt })}
+                            className="mt-2 text-sm font-semibold text-olive dark:text-light-olive hover:underline"
+                        >
+                            {t('single.saveAsStyle')}
+                        </button>
+                    )}
                 </div>
 
+                <VariationCountSelect id="single-variations" value={variationCount} onChange={handleVariationCountChange} />
+
                 <div className="text-center mt-8">
                   <button
                     onClick={handleGenerate}
                     disabled={isLoading}
                     className={primaryButtonClasses}
                   >
-                    Tạo Ảnh Ngay
+                    {t('single.generate')}
                   </button>
                   <ApiKeyStatus />
                 </div>
@@ -933,7 +1449,19 @@ const App: React.FC = () => {
 
             {generatedImage && !isLoading && (
               <div className="mt-8 text-center animate-fade-in">
-                <h2 className="text-2xl font-bold mb-4">Kết quả của bạn!</h2>
+                <h2 className="text-2xl font-bold mb-4">{t('result.title')}</h2>
+                {candidates.length > 1 && (
+                  <CandidateGrid
+                    images={candidates.map(candidate => getCurrentVersion(candidate.session).imageUrl)}
+                    starred={candidates.map(candidate => candidate.starred)}
+                    activeIndex={activeCandidate}
+                    requestedCount={requestedVariations}
+                    disabled={isResultBusy}
+                    onSelect={handleSelectCandidate}
+                    onToggleStar={handleToggleCandidateStar}
+                    onKeepStarred={handleKeepStarredCandidates}
+                  />
+                )}
                 <div className="relative inline-block">
                   <img
                     src={generatedImage}
@@ -964,36 +1492,85 @@ const App: React.FC = () => {
                                 {enhancementProgress}%
                             </span>
                         </div>
-                        <p className="text-cream mt-4 font-semibold">Đang nâng cấp ảnh...</p>
+                        <p className="text-cream mt-4 font-semibold">{t('result.enhancing')}</p>
+                        <div className="mt-3 w-56">
+                          <ProgressTimeline timeline={enhancementTimeline} inverted />
+                        </div>
+                        <button onClick={handleCancelRequest} className="pointer-events-auto mt-3 text-sm font-semibold py-1.5 px-4 rounded-full bg-cream/20 text-cream hover:bg-cream/30 transition-colors">
+                          {t('common.cancel')}
+                        </button>
                     </div>
                   )}
                 </div>
                 
                 <div className="mt-6 flex flex-col items-center space-y-3">
-                  {!isEnhancing && (
+                  {isCachedResult && (
+                    <span className="px-3 py-1 rounded-full bg-olive text-cream text-xs font-bold">{t('cache.fromCache')}</span>
+                  )}
+                  {servedByLabel && (
+                    <p className="text-xs text-dark-olive/60 dark:text-cream/60">{t('keys.servedBy', { label: servedByLabel })}</p>
+                  )}
+                  {!isEnhancing && generationTimeline.length > 0 && (
+                    <div className="flex justify-center gap-4 text-xs text-dark-olive/70 dark:text-cream/70">
+                      <span className="flex gap-1">{t('result.generationTimeline')} <ProgressTimeline timeline={generationTimeline} compact /></span>
+                      {enhancementTimeline.length > 0 && (
+                        <span className="flex gap-1">{t('result.enhancementTimeline')} <ProgressTimeline timeline={enhancementTimeline} compact /></span>
+                      )}
+                    </div>
+                  )}
+                  {!isEnhancing && (generatedInput || preEnhanceImage) && (
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {generatedInput && (
+                        <button onClick={() => openCompare(generatedInput, generatedImage, t('compare.original'), t('compare.result'))} className="text-xs font-semibold py-1.5 px-4 rounded-full border border-olive/50 text-olive hover:bg-olive hover:text-cream transition-colors">
+                          {t('compare.withOriginal')}
+                        </button>
+                      )}
+                      {preEnhanceImage && (
+                        <button onClick={() => openCompare(preEnhanceImage, generatedImage, t('compare.beforeEnhance'), t('compare.afterEnhance'))} className="text-xs font-semibold py-1.5 px-4 rounded-full border border-olive/50 text-olive hover:bg-olive hover:text-cream transition-colors">
+                          {t('compare.enhancement')}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {!isEnhancing && provider.capabilities.upscaling && (
                     <div className="w-full max-w-xs p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg">
-                        <h3 className="text-md font-semibold text-dark-olive/90 dark:text-cream/90 mb-3">Nâng cấp chất lượng ảnh</h3>
+                        <h3 className="text-md font-semibold text-dark-olive/90 dark:text-cream/90 mb-3">{t('result.enhanceTitle')}</h3>
                         <div className="flex justify-center gap-2">
-                            <button onClick={() => handleEnhance('HD')} className="bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={isEnhancing}>HD</button>
-                            <button onClick={() => handleEnhance('2K')} className="bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={isEnhancing}>2K</button>
-                            <button onClick={() => handleEnhance('4K')} className="bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={isEnhancing}>4K (x2)</button>
+                            <button onClick={() => handleEnhance('HD')} className="bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={isResultBusy}>HD</button>
+                            <button onClick={() => handleEnhance('2K')} className="bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={isResultBusy}>2K</button>
+                            <button onClick={() => handleEnhance('4K')} className="bg-transparent border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={isResultBusy}>4K (x2)</button>
                         </div>
                     </div>
                   )}
 
+                  {refineSession && (
+                    <RefinePanel
+                      session={refineSession}
+                      isRefining={isRefining}
+                      timeline={refinementTimeline}
+                      hasConversation={provider.capabilities.conversation}
+                      disabled={isEnhancing}
+                      onSubmit={handleRefine}
+                      onCancel={handleCancelRequest}
+                      onUndo={() => showRefineSession(undoRefine(refineSession))}
+                      onRedo={() => showRefineSession(redoRefine(refineSession))}
+                      onSelect={(versionId) => showRefineSession(selectRefineVersion(refineSession, versionId))}
+                    />
+                  )}
+
                   <div className="flex items-center space-x-2 w-full max-w-xs">
                         <button
                             onClick={handleDownloadWithAffiliate}
                             className={`flex-grow ${primaryButtonClasses}`}
-                            disabled={isEnhancing}
+                            disabled={isResultBusy}
                         >
-                            Tải Về
+                            {t('result.download')}
                         </button>
                         <button
                             onClick={() => handleDownload()}
                             className="p-3 bg-olive/80 hover:bg-olive text-cream rounded-full shadow-lg transform hover:scale-105 transition-all duration-300 disabled:opacity-50"
-                            aria-label="Tải ảnh về"
-                            disabled={isEnhancing}
+                            aria-label={t('result.downloadImage')}
+                            disabled={isResultBusy}
                         >
                             <DownloadIcon className="w-6 h-6" />
                         </button>
@@ -1001,23 +1578,23 @@ const App: React.FC = () => {
                   <button
                     onClick={handleUseThisImage}
                     className={secondaryButtonClasses}
-                    disabled={isEnhancing}
+                    disabled={isResultBusy}
                   >
-                    Dùng ảnh này tạo tiếp
+                    {t('result.useAsInput')}
                   </button>
                   <button
                     onClick={handleGoBackToEditing}
                     className={secondaryButtonClasses}
-                    disabled={isEnhancing}
+                    disabled={isResultBusy}
                   >
-                    Quay lại
+                    {t('common.back')}
                   </button>
                   <button
                     onClick={resetToInitialState}
                     className={secondaryButtonClasses}
-                    disabled={isEnhancing}
+                    disabled={isResultBusy}
                   >
-                    Tạo ảnh khác
+                    {t('result.startOver')}
                   </button>
                 </div>
               </div>
@@ -1030,58 +1607,99 @@ const App: React.FC = () => {
           <div className="w-full animate-fade-in">
             {batchResults.length === 0 && !isBatchLoading && (
               <div className="space-y-8">
-                <div>
-                  <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3">Chọn style hàng loạt</h2>
-                  <div className="grid grid-cols-2 gap-3">
-                    {STYLES.map((style) => (
-                      <button
-                        key={style.id}
-                        onClick={() => handleBatchStyleChange(style.id)}
-                        className={`p-4 rounded-lg text-left transition-all duration-200 ${batchStyleId === style.id ? 'bg-olive text-cream ring-2 ring-olive/70' : 'bg-dark-olive/5 dark:bg-olive/20 hover:bg-dark-olive/10 dark:hover:bg-olive/30'}`}
-                      >
-                        <span className="font-bold">{style.name}</span>
-                      </button>
-                    ))}
+                <StyleGrid
+                  title={t('batch.chooseStyle')}
+                  styles={allStyles}
+                  selectedStyleId={batchStyleId}
+                  onSelect={handleBatchStyleChange}
+                  customStyleIds={customStyleIds}
+                  onManage={() => openStyleManager()}
+                />
+
+                {batchStyle && (
+                  <div className="space-y-3">
+                    <PromptVariablesForm
+                      variables={batchVariables}
+                      values={batchVariableValues}
+                      onChange={setBatchVariableValues}
+                    />
+                    <PromptPreview prompt={resolvePrompt(batchStyle, batchVariableValues)} />
                   </div>
-                </div>
+                )}
 
                 <div>
-                  <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3 text-center">Tải ảnh lên theo từng bộ</h2>
-                  {batchStyleId === 'polaroid' ? (
+                  <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90 mb-3 text-center">{t('batch.uploadTitle')}</h2>
+                  {batchSlots.length > 1 || batchVariables.length > 0 ? (
                     <div className="space-y-4">
-                      {Array.from({ length: batchImages.length / 2 }).map((_, pairIndex) => (
-                        <div key={pairIndex} className="flex items-center justify-center gap-4 p-3 bg-dark-olive/5 dark:bg-olive/20 rounded-lg relative pt-8">
+                      {batchSets.map((set, setIndex) => (
+                        <div key={setIndex} className="flex flex-wrap items-center justify-center gap-4 p-3 bg-dark-olive/5 dark:bg-olive/20 rounded-lg relative pt-8">
                            <div className="absolute top-2 left-3 flex items-center">
-                            <span className="font-bold text-olive dark:text-light-olive">Bộ {pairIndex + 1}</span>
+                            <span className="font-bold text-olive dark:text-light-olive">{t('batch.setN', { n: setIndex + 1 })}</span>
                            </div>
-                           <button onClick={() => removePolaroidPair(pairIndex)} className="absolute top-1 right-1 bg-dark-olive/10 rounded-full p-1 text-dark-olive/60 hover:bg-dark-olive/20 hover:text-dark-olive dark:text-cream/60 dark:hover:text-cream dark:hover:bg-olive/30 transition-colors" aria-label={`Xóa bộ ${pairIndex + 1}`}>
+                           <button onClick={() => removeBatchSet(setIndex)} className="absolute top-1 right-1 bg-dark-olive/10 rounded-full p-1 text-dark-olive/60 hover:bg-dark-olive/20 hover:text-dark-olive dark:text-cream/60 dark:hover:text-cream dark:hover:bg-olive/30 transition-colors" aria-label={t('batch.removeSet', { n: setIndex + 1 })}>
                                 <XIcon className="w-4 h-4" />
                             </button>
-                          <ImageUploader
-                            label={`Ảnh 1`}
-                            initialFile={batchImages[pairIndex * 2]}
-                            onImageChange={(file) => handleBatchImageChange(pairIndex * 2, file)}
-                            onRemove={() => handleBatchImageChange(pairIndex * 2, null)}
-                          />
-                          <ImageUploader
-                            label={`Ảnh 2`}
-                            initialFile={batchImages[pairIndex * 2 + 1]}
-                            onImageChange={(file) => handleBatchImageChange(pairIndex * 2 + 1, file)}
-                            onRemove={() => handleBatchImageChange(pairIndex * 2 + 1, null)}
-                          />
+                          {batchSlots.map((slot, slotIndex) => (
+                            <ImageUploader
+                              key={slotIndex}
+                              label={batchSlots.length > 1 ? slotLabel(slot) : t('upload.imageN', { n: setIndex + 1 })}
+                              initialFile={set.files[slotIndex] ?? null}
+                              onImageChange={(file) => handleBatchImageChange(setIndex, slotIndex, file)}
+                              onRemove={() => handleBatchImageChange(setIndex, slotIndex, null)}
+                              limits={provider.inputLimits}
+                            />
+                          ))}
+                          {batchMaskEnabled && set.files[0] && (
+                            <div className="w-full">
+                              <MaskControls
+                                hasMask={!!set.mask}
+                                onEdit={() => setMaskEditorTarget({ kind: 'batch', setIndex })}
+                                onClear={() => handleMaskSave(null, { kind: 'batch', setIndex })}
+                              />
+                            </div>
+                          )}
+                          {batchVariables.length > 0 && (
+                            <div className="w-full">
+                              <button
+                                onClick={() => setBatchSetVariables(setIndex, set.variables ? null : { ...batchVariableValues })}
+                                className="text-xs font-semibold text-olive dark:text-light-olive hover:underline"
+                              >
+                                {set.variables ? t('batch.useSharedVariables') : t('batch.customizeVariables')}
+                              </button>
+                              {set.variables && (
+                                <div className="mt-2">
+                                  <PromptVariablesForm
+                                    variables={batchVariables}
+                                    values={set.variables}
+                                    onChange={(values) => setBatchSetVariables(setIndex, values)}
+                                    compact
+                                  />
+                                </div>
+                              )}
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
                   ) : (
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-                      {batchImages.map((imageFile, index) => (
-                        <ImageUploader
-                          key={index}
-                          label={`Ảnh ${index + 1}`}
-                          initialFile={imageFile}
-                          onImageChange={(file) => handleBatchImageChange(index, file)}
-                          onRemove={() => removeBatchImage(index)}
-                        />
+                      {batchSets.map((set, index) => (
+                        <div key={index} className="space-y-1">
+                          <ImageUploader
+                            label={t('upload.imageN', { n: index + 1 })}
+                            initialFile={set.files[0] ?? null}
+                            onImageChange={(file) => handleBatchImageChange(index, 0, file)}
+                            onRemove={() => removeBatchSet(index)}
+                            limits={provider.inputLimits}
+                          />
+                          {batchMaskEnabled && set.files[0] && (
+                            <MaskControls
+                              hasMask={!!set.mask}
+                              onEdit={() => setMaskEditorTarget({ kind: 'batch', setIndex: index })}
+                              onClear={() => handleMaskSave(null, { kind: 'batch', setIndex: index })}
+                            />
+                          )}
+                        </div>
                       ))}
                     </div>
                   )}
@@ -1089,29 +1707,45 @@ const App: React.FC = () => {
 
                 <div className="flex justify-center items-center gap-4">
                   <button
-                    onClick={removeLastBatchSlot}
+                    onClick={removeLastBatchSet}
                     className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream disabled:opacity-50 disabled:cursor-not-allowed"
-                    aria-label="Bớt ô tải ảnh"
-                    disabled={batchImages.length <= (batchStyleId === 'polaroid' ? 2 : 1)}
+                    aria-label={t('upload.removeSlot')}
+                    disabled={batchSets.length <= 1}
                   >
                     <MinusIcon className="w-6 h-6" />
                   </button>
                   <button
-                    onClick={addBatchSlot}
+                    onClick={addBatchSet}
                     className="py-2 px-6 flex justify-center items-center bg-dark-olive/10 dark:bg-olive/20 rounded-full cursor-pointer hover:bg-dark-olive/20 dark:hover:bg-olive/30 transition-colors duration-300 text-dark-olive dark:text-cream"
-                    aria-label="Thêm ô tải ảnh"
+                    aria-label={t('upload.addSlot')}
                   >
                     <PlusIcon className="w-6 h-6" />
                   </button>
                 </div>
 
+                <VariationCountSelect id="batch-variations" value={variationCount} onChange={handleVariationCountChange} />
+
+                <div className="flex justify-center items-center gap-2 text-sm">
+                  <label htmlFor="batch-concurrency" className="text-dark-olive/80 dark:text-cream/80 font-semibold">{t('batch.concurrency')}</label>
+                  <select
+                    id="batch-concurrency"
+                    value={batchConcurrency}
+                    onChange={(e) => handleBatchConcurrencyChange(Number(e.target.value))}
+                    className="p-1.5 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg text-dark-olive dark:text-cream"
+                  >
+                    {[1, 2, 3, 4].map(value => (
+                      <option key={value} value={value}>{value}</option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="text-center mt-8">
                   <button
                     onClick={handleBatchGenerate}
                     disabled={isBatchLoading}
                     className={primaryButtonClasses}
                   >
-                    Tạo Hàng Loạt
+                    {t('batch.generate')}
                   </button>
                   <ApiKeyStatus />
                 </div>
@@ -1119,8 +1753,14 @@ const App: React.FC = () => {
             )}
             
             {isBatchLoading && (
-              <div className="flex flex-col items-center justify-center space-y-4 w-full max-w-md">
-                <p className="text-olive dark:text-light-olive text-lg">Đang xử lý hàng loạt...</p>
+              <div className="flex flex-col items-center justify-center space-y-4 w-full max-w-md mx-auto mb-6">
+                <p className="text-olive dark:text-light-olive text-lg">
+                  {!isBatchPaused
+                    ? t('batch.running')
+                    : batchResults.some(r => r.status === 'loading' || r.status === 'retrying')
+                      ? t('batch.pausing')
+                      : t('batch.paused')}
+                </p>
                 <div className="w-full bg-dark-olive/10 dark:bg-cream/10 rounded-full h-4">
                   <div
                     className="bg-olive h-4 rounded-full transition-all duration-300 ease-linear"
@@ -1128,13 +1768,21 @@ const App: React.FC = () => {
                   ></div>
                 </div>
                 <p className="text-2xl font-bold text-dark-olive dark:text-cream">{batchProgress}%</p>
-                <p className="text-dark-olive/70 dark:text-cream/70 text-center text-sm mt-2">Quá trình này có thể mất nhiều thời gian hơn tùy thuộc vào số lượng ảnh.</p>
+                <p className="text-dark-olive/70 dark:text-cream/70 text-center text-sm mt-2">{t('batch.loadingHint')}</p>
+                <div className="flex gap-2">
+                  <button onClick={handleToggleBatchPause} className="text-sm font-semibold py-2 px-5 rounded-full bg-olive text-cream hover:bg-dark-olive transition-colors">
+                    {isBatchPaused ? t('batch.resume') : t('batch.pause')}
+                  </button>
+                  <button onClick={handleCancelBatch} className="text-sm font-semibold py-2 px-5 rounded-full border border-olive/50 text-olive hover:bg-olive hover:text-cream transition-colors">
+                    {t('common.cancel')}
+                  </button>
+                </div>
               </div>
             )}
             
-            {batchResults.length > 0 && !isBatchLoading && (
+            {batchResults.length > 0 && (
               <div className="space-y-6 animate-fade-in">
-                <h2 className="text-2xl font-bold text-center">Kết quả hàng loạt</h2>
+                <h2 className="text-2xl font-bold text-center">{t('batch.resultsTitle')}</h2>
                 <div className="grid grid-cols-2 gap-4">
                   {batchResults.map((result) => (
                     <div key={result.taskId} className="relative rounded-lg overflow-hidden shadow-lg aspect-square">
@@ -1142,61 +1790,142 @@ const App: React.FC = () => {
                         <>
                           <img 
                             src={result.imageUrl} 
-                            alt={`Kết quả ${result.taskId + 1}`} 
+                            alt={t('batch.resultN', { n: result.taskId + 1 })} 
                             className="w-full h-full object-cover cursor-pointer"
                             onClick={() => openBatchImagePreview(result.imageUrl!)}
                           />
+                          {result.cached ? (
+                            <span className="absolute top-1 left-1 px-2 py-0.5 rounded-full bg-olive text-cream text-[10px] font-bold">{t('cache.badge')}</span>
+                          ) : batchKeyLabel(result) && (
+                            <span className="absolute top-1 left-1 max-w-[50%] truncate px-2 py-0.5 rounded-full bg-dark-olive/60 text-cream text-[10px]" title={t('keys.servedBy', { label: batchKeyLabel(result)! })}>
+                              {batchKeyLabel(result)}
+                            </span>
+                          )}
                           <div className="absolute top-1 right-1 flex items-center gap-1">
+                              {batchTasks.find(task => task.taskId === result.taskId)?.images[0] && (
+                                <button
+                                  onClick={() => openCompare(batchTasks.find(task => task.taskId === result.taskId)!.images[0], result.imageUrl!, t('compare.original'), t('compare.result'))}
+                                  className="px-2 py-1 bg-dark-olive/60 hover:bg-dark-olive/80 text-cream text-xs font-semibold rounded-full transition-colors"
+                                  aria-label={t('compare.withOriginal')}
+                                >
+                                  {t('compare.short')}
+                                </button>
+                              )}
                               <button
                                 onClick={() => handleDownload(result.imageUrl)}
                                 className="p-1.5 bg-dark-olive/60 hover:bg-dark-olive/80 text-cream rounded-full transition-colors"
-                                aria-label="Tải ảnh"
+                                aria-label={t('batch.downloadImage')}
                               >
                                 <DownloadIcon className="w-4 h-4" />
                               </button>
                           </div>
+                          {result.candidates && result.candidates.length > 1 ? (
+                            <div className="absolute bottom-1 inset-x-1 flex gap-1">
+                              {result.candidates.map((candidate, index) => (
+                                <button
+                                  key={index}
+                                  onClick={() => handleChooseBatchCandidate(result.taskId, candidate)}
+                                  className={`w-8 h-8 rounded overflow-hidden border-2 ${candidate === result.imageUrl ? 'border-olive' : 'border-cream/60 opacity-70 hover:opacity-100'}`}
+                                  aria-label={t('variations.choose', { n: index + 1 })}
+                                >
+                                  <img src={candidate} alt={t('variations.option', { n: index + 1 })} className="w-full h-full object-cover" />
+                                </button>
+                              ))}
+                            </div>
+                          ) : result.timeline && result.timeline.length > 0 && (
+                            <div className="absolute bottom-1 left-1 px-2 py-0.5 rounded-full bg-dark-olive/60">
+                              <ProgressTimeline timeline={result.timeline} compact inverted />
+                            </div>
+                          )}
                         </>
                       ) : result.status === 'error' ? (
                         <div className="w-full h-full bg-red-900/20 flex flex-col items-center justify-center p-2 text-center">
-                          <p className="text-red-400 font-bold text-sm">Lỗi</p>
+                          <p className="text-red-400 font-bold text-sm">{t('batch.error')}</p>
                           <p className="text-red-400/80 text-xs mt-1">{result.error}</p>
                         </div>
-                      ) : ( 
+                      ) : result.status === 'queued' ? (
                         <div className="w-full h-full bg-dark-olive/10 dark:bg-olive/20 flex items-center justify-center">
+                          <p className="text-dark-olive/60 dark:text-cream/60 text-sm font-semibold">{t('batch.queued')}</p>
+                        </div>
+                      ) : ( 
+                        <div className="w-full h-full bg-dark-olive/10 dark:bg-olive/20 flex flex-col items-center justify-center">
                           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-olive dark:border-light-olive"></div>
+                          {result.status === 'retrying' && (
+                            <p className="text-dark-olive/60 dark:text-cream/60 text-xs mt-2">{t('batch.retrying', { attempt: result.attempt })}</p>
+                          )}
+                          {result.timeline && result.timeline.length > 0 && (
+                            <div className="mt-2">
+                              <ProgressTimeline timeline={result.timeline} compact />
+                            </div>
+                          )}
                         </div>
                       )}
                     </div>
                   ))}
                 </div>
+                {!isBatchLoading && (
                 <div className="flex flex-col items-center space-y-3">
+                  {batchResults.some(r => r.status === 'queued') && (
+                    <button onClick={() => handleResumeBatch('queued')} className={primaryButtonClasses}>
+                      {t('batch.resumeRemaining', { count: batchResults.filter(r => r.status === 'queued').length })}
+                    </button>
+                  )}
+                  {batchResults.some(r => r.status === 'error') && (
+                    <button onClick={() => handleResumeBatch('error')} className={secondaryButtonClasses}>
+                      {t('batch.retryFailed', { count: batchResults.filter(r => r.status === 'error').length })}
+                    </button>
+                  )}
+                  <div className="w-full max-w-xs space-y-1">
+                    <label htmlFor="naming-pattern" className="block text-xs font-semibold text-dark-olive/80 dark:text-cream/80">{t('batch.namingPattern')}</label>
+                    <input
+                      id="naming-pattern"
+                      type="text"
+                      value={namingPattern}
+                      onChange={(e) => handleNamingPatternChange(e.target.value)}
+                      className="w-full p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg text-sm text-dark-olive dark:text-cream"
+                    />
+                    <p className="text-xs text-dark-olive/60 dark:text-cream/60">{t('batch.namingTokens', { tokens: NAMING_TOKENS.join(' ') })}</p>
+                  </div>
                   <div className="flex items-center space-x-2 w-full max-w-xs">
                       <button onClick={handleDownloadAllWithAffiliate} className={`flex-grow ${primaryButtonClasses}`}>
-                        Tải Tất Cả
+                        {t('batch.downloadAll')}
                       </button>
                        <button
                             onClick={() => handleDownloadAll()}
                             className="p-3 bg-olive/80 hover:bg-olive text-cream rounded-full shadow-lg transform hover:scale-105 transition-all duration-300"
-                            aria-label="Tải tất cả ảnh về"
+                            aria-label={t('batch.downloadAllImages')}
                         >
                             <DownloadIcon className="w-6 h-6" />
                         </button>
                   </div>
                   <button onClick={handleGoBackToBatchEditing} className={secondaryButtonClasses}>
-                    Quay lại
+                    {t('common.back')}
                   </button>
                    <button onClick={resetBatchState} className={secondaryButtonClasses}>
-                    Tạo lô khác
+                    {t('batch.startOver')}
                   </button>
                 </div>
+                )}
               </div>
             )}
           </div>
         )}
 
+        {/* HISTORY UI */}
+        {mode === 'history' && (
+          <HistoryGallery
+            styles={allStyles}
+            onDownload={(imageUrl) => handleDownload(imageUrl)}
+            onUseImage={handleUseHistoryEntry}
+          />
+        )}
+
+        {/* USAGE UI */}
+        {mode === 'usage' && <UsageDashboard styles={allStyles} />}
+
         {error && !isLoading && !isBatchLoading && (
             <div className="mt-8 text-center p-4 bg-red-900/20 rounded-lg animate-fade-in">
-                <p className="text-red-400 font-semibold mb-2">Đã xảy ra lỗi</p>
+                <p className="text-red-400 font-semibold mb-2">{t('errors.title')}</p>
                 <p className="text-red-400/80 whitespace-pre-line">{error}</p>
                 <button
                     onClick={() => setError(null)}
@@ -1213,13 +1942,74 @@ const App: React.FC = () => {
       <ApiKeyModal
         isOpen={isApiKeyModalOpen}
         onClose={() => setIsApiKeyModalOpen(false)}
-        onSave={handleSaveApiKey}
-        onDelete={handleDeleteApiKey}
-        isVerifying={isVerifyingApiKey}
-        error={apiKeyError}
-        initialApiKey={userApiKey || ''}
-        hasExistingKey={!!userApiKey}
+        keys={keyPool}
+        keyStorage={keyStorage}
+        providerSettings={providerSettings}
+        onProviderSettingsChange={handleProviderSettingsChange}
+        cacheSettings={cacheSettings}
+        onCacheSettingsChange={handleCacheSettingsChange}
+      />
+
+      {cacheChoice && (
+        <div className="fixed inset-0 z-[101] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4">
+          <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-md w-full">
+            <h2 className="text-xl font-bold mb-3 text-dark-olive dark:text-cream">{t('cache.choiceTitle')}</h2>
+            <p className="mb-5 text-sm text-dark-olive/80 dark:text-cream/80">
+              {cacheChoice.total > 1
+                ? t('cache.choiceBatch', { count: cacheChoice.hits, total: cacheChoice.total, date: formatDate(cacheChoice.createdAt) })
+                : t('cache.choiceSingle', { date: formatDate(cacheChoice.createdAt) })}
+            </p>
+            <div className="flex flex-wrap justify-end gap-2">
+              <button onClick={() => handleCacheChoice(null)} className="px-4 py-2 rounded-full bg-dark-olive/10 dark:bg-cream/10 hover:bg-dark-olive/20 dark:hover:bg-cream/20 font-semibold transition-colors text-sm">
+                {t('common.cancel')}
+              </button>
+              <button onClick={() => handleCacheChoice(false)} className="px-4 py-2 rounded-full border border-olive/50 text-olive hover:bg-olive hover:text-cream font-semibold transition-colors text-sm">
+                {t('cache.generateFresh')}
+              </button>
+              <button onClick={() => handleCacheChoice(true)} className="px-4 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors text-sm">
+                {t('cache.useCached')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {keyStorage.unlockRequested && !isApiKeyModalOpen && (
+        <div className="fixed inset-0 z-[101] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4">
+          <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-md w-full">
+            <KeyUnlockForm hint={t('vault.unlockForRequest')} onCancel={cancelKeyPoolUnlock} />
+          </div>
+        </div>
+      )}
+
+      <MaskEditor
+        isOpen={maskEditorTarget !== null}
+        onClose={() => setMaskEditorTarget(null)}
+        image={maskEditorTarget?.kind === 'batch' ? batchSets[maskEditorTarget.setIndex]?.files[0] ?? null : images[0] ?? null}
+        initialMask={maskEditorTarget?.kind === 'batch' ? batchSets[maskEditorTarget.setIndex]?.mask ?? null : singleMask}
+        onSave={(mask) => handleMaskSave(mask)}
+      />
+      <ExportDialog
+        isOpen={exportTarget !== null}
+        onClose={() => setExportTarget(null)}
+        settings={exportSettings}
+        onSettingsChange={handleExportSettingsChange}
+        onExport={handleExport}
+        sampleImageUrl={exportTarget?.kind === 'single'
+          ? exportTarget.imageUrl
+          : batchResults.find(r => r.status === 'success' && r.imageUrl)?.imageUrl ?? null}
+        imageCount={exportTarget?.kind === 'batch' ? batchResults.filter(r => r.status === 'success').length : 1}
       />
+      <StyleManager
+        isOpen={isStyleManagerOpen}
+        onClose={() => setIsStyleManagerOpen(false)}
+        builtInStyles={STYLES}
+        customStyles={customStyles}
+        onChange={handleCustomStylesChange}
+        initialDraft={styleManagerDraft}
+      />
+
+      <CompareViewer pair={comparePair} onClose={closeCompare} />
 
       {isPreviewOpen && (
         <div className="fixed inset-0 z-[100] bg-black bg-opacity-90 flex flex-col items-center justify-center animate-fade-in" onClick={closePreview}>
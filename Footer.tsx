@@ -2,6 +2,7 @@ import React from 'react';
 import { ZALO_LINK } from './constants';
 import PhoneIcon from './components/icons/PhoneIcon';
 import SmileyIcon from './components/icons/SmileyIcon';
+import { t } from './services/i18n';
 
 const Footer: React.FC = () => {
   return (
@@ -12,10 +13,10 @@ const Footer: React.FC = () => {
           target="_blank"
           rel="noopener noreferrer"
           className="flex items-center space-x-2 text-lg text-dark-olive/80 dark:text-cream/80 hover:text-olive dark:hover:text-light-olive transition-colors duration-300 font-semibold"
-          aria-label="Liên hệ ngay để được hướng dẫn"
+          aria-label={t('footer.contactLabel')}
         >
           <PhoneIcon className="w-6 h-6" />
-          <span>LIÊN HỆ NGAY để hướng dẫn</span>
+          <span>{t('footer.contact')}</span>
           <SmileyIcon className="w-6 h-6 text-olive dark:text-light-olive" fill="currentColor" />
         </a>
       </div>
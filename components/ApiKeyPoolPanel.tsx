@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { validateApiKey } from '../services/geminiService';
+import { KeyStorageState, PooledKey, PooledKeyState, addPooledKey, getPooledKeyState, removePooledKey, resetPooledKey, setPrimaryKey } from '../services/keyPool';
+import { MessageKey, formatDate, t } from '../services/i18n';
+import KeyUnlockForm from './KeyUnlockForm';
+import KeyStorageSettings from './KeyStorageSettings';
+
+interface ApiKeyPoolPanelProps {
+  keys: PooledKey[];
+  storage: KeyStorageState;
+  // Turns a validation failure into the message shown under the form.
+  describeError: (error: unknown) => string;
+}
+
+const STATE_LABELS: Record<PooledKeyState, MessageKey> = {
+  ready: 'keys.stateReady',
+  cooldown: 'keys.stateCooldown',
+  invalid: 'keys.stateInvalid',
+};
+
+const STATE_CLASSES: Record<PooledKeyState, string> = {
+  ready: 'text-green-600 dark:text-green-400',
+  cooldown: 'text-yellow-600 dark:text-yellow-400',
+  invalid: 'text-red-500',
+};
+
+const inputClasses = "w-full p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50 text-sm";
+const smallButtonClasses = "text-xs font-semibold text-olive dark:text-light-olive hover:underline disabled:opacity-50";
+
+const maskKey = (key: string) => key.length > 8 ? `••••${key.slice(-4)}` : '••••';
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 120 ? `${seconds}s` : `${Math.ceil(seconds / 60)}m`;
+};
+
+const ApiKeyPoolPanel: React.FC<ApiKeyPoolPanelProps> = ({ keys, storage, describeError }) => {
+  const [labelInput, setLabelInput] = useState('');
+  const [keyInput, setKeyInput] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const isCoolingDown = keys.some(entry => getPooledKeyState(entry, now) !== 'ready');
+
+  // Tick while a cooldown is running so the remaining time stays current.
+  useEffect(() => {
+    if (!isCoolingDown) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isCoolingDown]);
+
+  const handleAdd = async () => {
+    const key = keyInput.trim();
+    if (!key) return;
+    if (keys.some(entry => entry.key === key)) {
+      setError(t('keys.duplicate'));
+      return;
+    }
+    setIsAdding(true);
+    setError(null);
+    const result = await validateApiKey(key);
+    setIsAdding(false);
+    if (!result.success) {
+      setError(describeError(new Error(result.error || t('apiKey.invalid'))));
+      return;
+    }
+    addPooledKey(labelInput, key);
+    setLabelInput('');
+    setKeyInput('');
+  };
+
+  const handleCheck = async (entry: PooledKey) => {
+    setCheckingId(entry.id);
+    setError(null);
+    const result = await validateApiKey(entry.key);
+    setCheckingId(null);
+    if (result.success) {
+      resetPooledKey(entry.id);
+    } else {
+      setError(`${entry.label}: ${describeError(new Error(result.error || t('apiKey.invalid')))}`);
+    }
+  };
+
+  if (storage.locked) {
+    return <KeyUnlockForm hint={t('vault.lockedHint')} />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {keys.length > 0 && (
+        <ul className="space-y-2">
+          {keys.map(entry => {
+            const state = getPooledKeyState(entry, now);
+            return (
+              <li key={entry.id} className="p-3 rounded-lg bg-dark-olive/5 dark:bg-olive/20 text-sm">
+                {pendingDeleteId === entry.id ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <span>{t('keys.deleteConfirm', { label: entry.label })}</span>
+                    <div className="flex gap-3">
+                      <button onClick={() => setPendingDeleteId(null)} className={smallButtonClasses}>{t('common.cancel')}</button>
+                      <button onClick={() => { removePooledKey(entry.id); setPendingDeleteId(null); }} className="text-xs font-bold text-red-500 hover:underline">{t('common.delete')}</button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-bold truncate">
+                        {entry.label}
+                        {entry.primary && <span className="ml-2 px-2 py-0.5 rounded-full bg-olive text-cream text-[10px] align-middle">{t('keys.primary')}</span>}
+                      </span>
+                      <span className="text-xs text-dark-olive/60 dark:text-cream/60 font-mono shrink-0">{maskKey(entry.key)}</span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 mt-1">
+                      <span className={`text-xs font-semibold ${STATE_CLASSES[state]}`} title={entry.cooldownUntil ? formatDate(entry.cooldownUntil) : undefined}>
+                        {t(STATE_LABELS[state], { remaining: entry.cooldownUntil ? formatRemaining(entry.cooldownUntil - now) : '' })}
+                      </span>
+                      <div className="flex gap-3 shrink-0">
+                        {!entry.primary && (
+                          <button onClick={() => setPrimaryKey(entry.id)} className={smallButtonClasses}>{t('keys.makePrimary')}</button>
+                        )}
+                        <button onClick={() => handleCheck(entry)} disabled={checkingId !== null} className={smallButtonClasses}>
+                          {checkingId === entry.id ? t('providers.checking') : t('keys.check')}
+                        </button>
+                        <button onClick={() => setPendingDeleteId(entry.id)} className="text-xs font-semibold text-red-500 hover:underline">{t('common.delete')}</button>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {keys.length > 1 && (
+        <p className="text-xs text-dark-olive/60 dark:text-cream/60">{t('keys.rotationHint')}</p>
+      )}
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={labelInput}
+          onChange={(e) => setLabelInput(e.target.value)}
+          placeholder={t('keys.labelPlaceholder')}
+          className={inputClasses}
+        />
+        <input
+          type="password"
+          value={keyInput}
+          onChange={(e) => setKeyInput(e.target.value)}
+          placeholder={t('apiKey.placeholder')}
+          className={`${inputClasses} ${error ? 'border-red-500' : ''}`}
+        />
+        {error && <p className="text-red-500 text-sm whitespace-pre-line">{error}</p>}
+        <div className="flex justify-end">
+          <button
+            onClick={handleAdd}
+            disabled={isAdding || !keyInput.trim()}
+            className="px-5 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors text-sm w-32 text-center disabled:opacity-50"
+          >
+            {isAdding ? (
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-cream mx-auto"></div>
+            ) : t('keys.add')}
+          </button>
+        </div>
+      </div>
+
+      <KeyStorageSettings storage={storage} />
+    </div>
+  );
+};
+
+export default ApiKeyPoolPanel;
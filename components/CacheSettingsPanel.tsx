@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { CACHE_SIZE_OPTIONS, CacheSettings, clearResultCache, getCacheStats } from '../services/resultCache';
+import { formatNumber, t } from '../services/i18n';
+
+interface CacheSettingsPanelProps {
+  settings: CacheSettings;
+  onChange: (settings: CacheSettings) => void;
+}
+
+const CacheSettingsPanel: React.FC<CacheSettingsPanelProps> = ({ settings, onChange }) => {
+  const [stats, setStats] = useState<{ entries: number; sizeBytes: number } | null>(null);
+
+  const refreshStats = () => {
+    getCacheStats()
+      .then(setStats)
+      .catch(err => console.error('Failed to read cache size:', err));
+  };
+
+  useEffect(refreshStats, []);
+
+  const handleClear = async () => {
+    try {
+      await clearResultCache();
+    } catch (err) {
+      console.error('Failed to clear cache:', err);
+    }
+    refreshStats();
+  };
+
+  return (
+    <div className="mb-5 space-y-2">
+      <h3 className="text-md font-bold text-dark-olive dark:text-cream">{t('cache.title')}</h3>
+      <label className="flex items-start gap-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          className="mt-1 accent-olive"
+        />
+        <span>
+          <span className="font-semibold">{t('cache.enable')}</span>
+          <span className="block text-xs text-dark-olive/60 dark:text-cream/60">{t('cache.hint')}</span>
+        </span>
+      </label>
+      <div className="flex flex-wrap items-center justify-between gap-2 pl-6 text-xs">
+        <label className="flex items-center gap-2">
+          {t('cache.maxSize')}
+          <select
+            value={settings.maxMegabytes}
+            onChange={(e) => onChange({ ...settings, maxMegabytes: Number(e.target.value) })}
+            className="py-1 px-2 rounded-lg bg-dark-olive/5 dark:bg-olive/20 border border-olive/30"
+          >
+            {CACHE_SIZE_OPTIONS.map(size => (
+              <option key={size} value={size}>{formatNumber(size)} MB</option>
+            ))}
+          </select>
+        </label>
+        {stats && (
+          <span className="flex items-center gap-3 text-dark-olive/60 dark:text-cream/60">
+            {t('cache.stats', { count: stats.entries, size: formatNumber(stats.sizeBytes / 1024 / 1024, { maximumFractionDigits: 1 }) })}
+            <button onClick={handleClear} disabled={stats.entries === 0} className="font-semibold text-red-500 hover:underline disabled:opacity-50">
+              {t('cache.clear')}
+            </button>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CacheSettingsPanel;
@@ -0,0 +1,54 @@
+import React from 'react';
+import StarIcon from './icons/StarIcon';
+import { t } from '../services/i18n';
+
+interface CandidateGridProps {
+  images: string[];
+  starred: boolean[];
+  activeIndex: number;
+  // How many variations were asked for; more than images.length means some failed.
+  requestedCount: number;
+  disabled?: boolean;
+  onSelect: (index: number) => void;
+  onToggleStar: (index: number) => void;
+  onKeepStarred: () => void;
+}
+
+const CandidateGrid: React.FC<CandidateGridProps> = ({ images, starred, activeIndex, requestedCount, disabled = false, onSelect, onToggleStar, onKeepStarred }) => {
+  const starredCount = starred.filter(Boolean).length;
+  const failedCount = requestedCount - images.length;
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-4 space-y-2">
+      <div className="grid grid-cols-4 gap-2">
+        {images.map((imageUrl, index) => (
+          <div key={index} className={`relative aspect-square rounded-lg overflow-hidden ${index === activeIndex ? 'ring-4 ring-olive' : 'opacity-80 hover:opacity-100'}`}>
+            <button onClick={() => onSelect(index)} disabled={disabled} className="w-full h-full disabled:cursor-not-allowed" aria-label={t('variations.choose', { n: index + 1 })}>
+              <img src={imageUrl} alt={t('variations.option', { n: index + 1 })} className="w-full h-full object-cover" />
+            </button>
+            <button
+              onClick={() => onToggleStar(index)}
+              className={`absolute top-1 right-1 p-1 rounded-full bg-dark-olive/60 hover:bg-dark-olive/80 transition-colors ${starred[index] ? 'text-yellow-300' : 'text-cream'}`}
+              aria-label={starred[index] ? t('variations.unstar') : t('variations.star')}
+            >
+              <StarIcon className="w-4 h-4" fill={starred[index] ? 'currentColor' : 'none'} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-2 text-xs text-dark-olive/70 dark:text-cream/70">
+        <span>
+          {t('variations.position', { n: activeIndex + 1, total: images.length })}
+          {failedCount > 0 ? ` · ${t('variations.failed', { count: failedCount })}` : ''}
+        </span>
+        {starredCount > 0 && starredCount < images.length && (
+          <button onClick={onKeepStarred} disabled={disabled} className="font-semibold text-olive dark:text-light-olive hover:underline disabled:opacity-50">
+            {t('variations.keepStarred')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CandidateGrid;
@@ -0,0 +1,217 @@
+import React, { useState, useEffect, useRef } from 'react';
+import PlusIcon from './icons/PlusIcon';
+import XIcon from './icons/XIcon';
+import { MessageKey, t } from '../services/i18n';
+
+export type CompareMode = 'split' | 'side' | 'flip';
+
+export interface ComparePair {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+interface CompareViewerProps {
+  // Null keeps the viewer closed.
+  pair: ComparePair | null;
+  onClose: () => void;
+}
+
+const MODES: { id: CompareMode; label: MessageKey }[] = [
+  { id: 'split', label: 'compare.modeSplit' },
+  { id: 'side', label: 'compare.modeSide' },
+  { id: 'flip', label: 'compare.modeFlip' },
+];
+
+type Point = { x: number; y: number };
+
+const MAX_SCALE = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const CompareViewer: React.FC<CompareViewerProps> = ({ pair, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>(() => (localStorage.getItem('compareMode') as CompareMode) || 'split');
+  // One zoom for every pane, so both images always show the same region.
+  const [zoom, setZoom] = useState({ scale: 1, x: 0, y: 0 });
+  const [splitPercent, setSplitPercent] = useState(50);
+  const [isHolding, setIsHolding] = useState(false);
+  const pointers = useRef(new Map<number, Point>());
+  const pinchDistance = useRef<number | null>(null);
+  const isDraggingSplit = useRef(false);
+
+  useEffect(() => {
+    if (!pair) return;
+    setZoom({ scale: 1, x: 0, y: 0 });
+    setSplitPercent(50);
+    setIsHolding(false);
+  }, [pair]);
+
+  useEffect(() => {
+    localStorage.setItem('compareMode', mode);
+  }, [mode]);
+
+  if (!pair) return null;
+
+  // Keeps the zoomed image covering its pane; images fill the pane at scale 1.
+  const bound = (state: { scale: number; x: number; y: number }, pane: HTMLElement) => {
+    const scale = clamp(state.scale, 1, MAX_SCALE);
+    if (scale === 1) return { scale, x: 0, y: 0 };
+    const rect = pane.getBoundingClientRect();
+    const xBound = (rect.width * (scale - 1)) / 2;
+    const yBound = (rect.height * (scale - 1)) / 2;
+    return { scale, x: clamp(state.x, -xBound, xBound), y: clamp(state.y, -yBound, yBound) };
+  };
+
+  const updateSplit = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSplitPercent(clamp(((e.clientX - rect.left) / rect.width) * 100, 0, 100));
+  };
+
+  const pinchSpan = () => {
+    const [a, b]: Point[] = Array.from(pointers.current.values());
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2) {
+      isDraggingSplit.current = false;
+      pinchDistance.current = pinchSpan();
+      return;
+    }
+    if (mode === 'flip') setIsHolding(true);
+    // In split view a drag moves the divider when there is nothing to pan, or when it starts on the divider.
+    const rect = e.currentTarget.getBoundingClientRect();
+    const nearDivider = Math.abs(e.clientX - rect.left - (rect.width * splitPercent) / 100) < 24;
+    if (mode === 'split' && (zoom.scale === 1 || nearDivider)) {
+      isDraggingSplit.current = true;
+      updateSplit(e);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const last = pointers.current.get(e.pointerId);
+    if (!last) return;
+    const pane = e.currentTarget;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.current.size === 2 && pinchDistance.current) {
+      const distance = pinchSpan();
+      const ratio = distance / pinchDistance.current;
+      pinchDistance.current = distance;
+      setZoom(prev => bound({ ...prev, scale: prev.scale * ratio }, pane));
+    } else if (isDraggingSplit.current) {
+      updateSplit(e);
+    } else if (zoom.scale > 1) {
+      const dx = e.clientX - last.x;
+      const dy = e.clientY - last.y;
+      setZoom(prev => bound({ ...prev, x: prev.x + dx, y: prev.y + dy }, pane));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinchDistance.current = null;
+    if (pointers.current.size === 0) {
+      isDraggingSplit.current = false;
+      setIsHolding(false);
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const pane = e.currentTarget;
+    const scaleAmount = -e.deltaY * 0.005;
+    setZoom(prev => bound({ ...prev, scale: prev.scale + scaleAmount }, pane));
+  };
+
+  const paneHandlers = {
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    onWheel: handleWheel,
+  };
+
+  const transform = { transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})` };
+
+  const renderImage = (src: string, alt: string) => (
+    <img src={src} alt={alt} className="absolute inset-0 w-full h-full object-contain select-none" style={transform} draggable={false} />
+  );
+
+  const renderLabel = (text: string, side: 'left' | 'right') => (
+    <span className={`absolute top-3 ${side === 'left' ? 'left-3' : 'right-3'} px-2 py-0.5 rounded-full bg-black/60 text-cream text-xs font-semibold pointer-events-none`}>
+      {text}
+    </span>
+  );
+
+  const paneClasses = 'relative w-full h-full overflow-hidden touch-none';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black bg-opacity-90 flex flex-col animate-fade-in" onClick={onClose}>
+      <div className="flex items-center justify-between gap-2 p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex gap-2">
+          {MODES.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setMode(option.id)}
+              className={`px-3 py-1.5 rounded-full text-xs font-semibold transition-colors ${mode === option.id ? 'bg-olive text-cream' : 'bg-white/20 hover:bg-white/30 text-white'}`}
+            >
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+        <div className="flex space-x-2">
+          <button onClick={() => setZoom({ scale: 1, x: 0, y: 0 })} className="p-2 bg-white/20 hover:bg-white/30 text-white rounded-full transition-colors" aria-label="Reset zoom">
+            <PlusIcon className="w-6 h-6 rotate-45" />
+          </button>
+          <button onClick={onClose} className="p-2 bg-white/20 hover:bg-white/30 text-white rounded-full transition-colors" aria-label={t('compare.close')}>
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 px-4 pb-4" onClick={(e) => e.stopPropagation()}>
+        {mode === 'side' && (
+          <div className="grid grid-cols-2 gap-2 w-full h-full">
+            <div className={paneClasses} {...paneHandlers}>
+              {renderImage(pair.before, pair.beforeLabel)}
+              {renderLabel(pair.beforeLabel, 'left')}
+            </div>
+            <div className={paneClasses} {...paneHandlers}>
+              {renderImage(pair.after, pair.afterLabel)}
+              {renderLabel(pair.afterLabel, 'left')}
+            </div>
+          </div>
+        )}
+
+        {mode === 'split' && (
+          <div className={`${paneClasses} cursor-ew-resize`} {...paneHandlers}>
+            {renderImage(pair.before, pair.beforeLabel)}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${splitPercent}%)` }}>
+              {renderImage(pair.after, pair.afterLabel)}
+            </div>
+            <div className="absolute inset-y-0 w-0.5 bg-cream pointer-events-none" style={{ left: `${splitPercent}%` }}>
+              <span className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-cream text-dark-olive flex items-center justify-center text-xs font-bold shadow-lg">⇆</span>
+            </div>
+            {renderLabel(pair.beforeLabel, 'left')}
+            {renderLabel(pair.afterLabel, 'right')}
+          </div>
+        )}
+
+        {mode === 'flip' && (
+          <div className={`${paneClasses} cursor-pointer`} {...paneHandlers}>
+            {renderImage(isHolding ? pair.before : pair.after, isHolding ? pair.beforeLabel : pair.afterLabel)}
+            {renderLabel(isHolding ? pair.beforeLabel : pair.afterLabel, 'left')}
+            <p className="absolute bottom-3 inset-x-0 text-center text-xs text-cream/70 pointer-events-none">
+              {t('compare.holdToSee', { label: pair.beforeLabel.toLowerCase() })}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareViewer;
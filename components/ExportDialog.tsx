@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { ExportFormat, ExportSettings } from '../types';
+import { ASPECT_PRESETS, DEFAULT_EXPORT_SETTINGS, getExportSize } from '../services/imageExport';
+import { loadImageElement } from '../services/imageUtils';
+import XIcon from './icons/XIcon';
+import { MessageKey, t } from '../services/i18n';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  onExport: () => Promise<void>;
+  // Used to preview the output size; the first image for batch exports.
+  sampleImageUrl: string | null;
+  imageCount: number;
+}
+
+const FORMAT_OPTIONS: { id: ExportFormat; label: MessageKey }[] = [
+  { id: 'original', label: 'export.formatOriginal' },
+  { id: 'image/png', label: 'export.formatPng' },
+  { id: 'image/jpeg', label: 'export.formatJpeg' },
+  { id: 'image/webp', label: 'export.formatWebp' },
+];
+
+const inputClasses = "w-full mt-1 p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream text-sm";
+const optionClasses = (isActive: boolean) => `px-3 py-1.5 rounded-full text-xs font-semibold transition-colors ${isActive ? 'bg-olive text-cream' : 'bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30'}`;
+
+const parseDimension = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, settings, onSettingsChange, onExport, sampleImageUrl, imageCount }) => {
+  const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !sampleImageUrl) {
+      setSourceSize(null);
+      return;
+    }
+    setExportError(null);
+    let cancelled = false;
+    loadImageElement(sampleImageUrl)
+      .then(image => {
+        if (!cancelled) setSourceSize({ width: image.naturalWidth, height: image.naturalHeight });
+      })
+      .catch(() => {
+        if (!cancelled) setSourceSize(null);
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, sampleImageUrl]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<ExportSettings>) => onSettingsChange({ ...settings, ...patch });
+  const isLossy = settings.format === 'image/jpeg' || settings.format === 'image/webp';
+  const outputSize = sourceSize ? getExportSize(sourceSize.width, sourceSize.height, settings) : null;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      await onExport();
+      onClose();
+    } catch (err) {
+      console.error('Export failed:', err);
+      setExportError(t('export.failed'));
+    }
+    setIsExporting(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[101] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4">
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-md w-full relative max-h-[90vh] overflow-y-auto space-y-5">
+        <button onClick={onClose} className="absolute top-3 right-3 p-1 rounded-full text-dark-olive/60 dark:text-cream/60 hover:bg-dark-olive/10 dark:hover:bg-olive/30" aria-label={t('common.close')}>
+          <XIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-xl font-bold text-dark-olive dark:text-cream">
+          {imageCount > 1 ? t('export.titleMany', { count: imageCount }) : t('export.title')}
+        </h2>
+
+        <div>
+          <p className="text-sm font-semibold text-dark-olive/90 dark:text-cream/90">{t('export.format')}</p>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {FORMAT_OPTIONS.map(option => (
+              <button key={option.id} onClick={() => update({ format: option.id })} className={optionClasses(settings.format === option.id)}>
+                {t(option.label)}
+              </button>
+            ))}
+          </div>
+          {isLossy && (
+            <label className="block mt-3 text-xs text-dark-olive/80 dark:text-cream/80">
+              {t('export.quality', { percent: Math.round(settings.quality * 100) })}
+              <input
+                type="range"
+                min={0.5}
+                max={1}
+                step={0.01}
+                value={settings.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                className="w-full accent-olive"
+              />
+            </label>
+          )}
+        </div>
+
+        <div>
+          <p className="text-sm font-semibold text-dark-olive/90 dark:text-cream/90">{t('export.aspect')}</p>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {ASPECT_PRESETS.map(preset => (
+              <button key={preset.id} onClick={() => update({ aspect: preset.id })} className={optionClasses(settings.aspect === preset.id)}>
+                {t(preset.label)}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            <button onClick={() => update({ fit: 'crop' })} className={optionClasses(settings.fit === 'crop')}>{t('export.fitCrop')}</button>
+            <button onClick={() => update({ fit: 'pad' })} className={optionClasses(settings.fit === 'pad')}>{t('export.fitPad')}</button>
+            {settings.fit === 'pad' && (
+              <input
+                type="color"
+                value={settings.padColor}
+                onChange={(e) => update({ padColor: e.target.value })}
+                className="w-8 h-8 rounded cursor-pointer bg-transparent"
+                aria-label={t('export.padColor')}
+              />
+            )}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-semibold text-dark-olive/90 dark:text-cream/90">{t('export.exactSize')}</p>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-dark-olive/80 dark:text-cream/80">
+              {t('export.width')}
+              <input type="number" min={1} value={settings.width ?? ''} onChange={(e) => update({ width: parseDimension(e.target.value) })} placeholder={t('export.auto')} className={inputClasses} />
+            </label>
+            <label className="text-xs text-dark-olive/80 dark:text-cream/80">
+              {t('export.height')}
+              <input type="number" min={1} value={settings.height ?? ''} onChange={(e) => update({ height: parseDimension(e.target.value) })} placeholder={t('export.auto')} className={inputClasses} />
+            </label>
+          </div>
+          {sourceSize && outputSize && (
+            <p className="mt-2 text-xs text-dark-olive/60 dark:text-cream/60">
+              {sourceSize.width}×{sourceSize.height} → {outputSize.width}×{outputSize.height}
+              {imageCount > 1 ? ` ${t('export.firstImage')}` : ''}
+            </p>
+          )}
+        </div>
+
+        {exportError && <p className="text-red-400 text-sm">{exportError}</p>}
+
+        <div className="flex items-center justify-between gap-3">
+          <button onClick={() => onSettingsChange(DEFAULT_EXPORT_SETTINGS)} className="text-xs font-semibold text-olive dark:text-light-olive hover:underline">
+            {t('export.reset')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-olive hover:bg-dark-olive text-cream font-bold py-2 px-6 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? t('export.exporting') : t('export.download')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { HistoryEntry, Style } from '../types';
+import { listHistoryEntries, deleteHistoryEntry } from '../services/historyService';
+import DownloadIcon from './icons/DownloadIcon';
+import XIcon from './icons/XIcon';
+import { formatDate, t } from '../services/i18n';
+
+interface HistoryGalleryProps {
+  styles: Style[];
+  onDownload: (imageUrl: string) => void;
+  onUseImage: (entry: HistoryEntry) => void;
+}
+
+const ALL_STYLES = '__all__';
+const CUSTOM_PROMPT = '__custom__';
+
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({ styles, onDownload, onUseImage }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [styleFilter, setStyleFilter] = useState<string>(ALL_STYLES);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listHistoryEntries()
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch(err => {
+        console.error('Failed to load history:', err);
+        if (!cancelled) setLoadError(t('history.loadFailed'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const styleName = (entry: HistoryEntry) => {
+    if (!entry.styleId) return t('single.customPrompt');
+    return styles.find(s => s.id === entry.styleId)?.name ?? entry.styleId;
+  };
+
+  const filteredEntries = useMemo(() => {
+    if (styleFilter === ALL_STYLES) return entries;
+    if (styleFilter === CUSTOM_PROMPT) return entries.filter(entry => !entry.styleId);
+    return entries.filter(entry => entry.styleId === styleFilter);
+  }, [entries, styleFilter]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch (err) {
+      console.error('Failed to delete history entry:', err);
+      setLoadError(t('history.deleteFailed'));
+    }
+    setPendingDeleteId(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-olive dark:border-light-olive"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90">{t('history.title')}</h2>
+        <select
+          value={styleFilter}
+          onChange={(e) => setStyleFilter(e.target.value)}
+          className="p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg text-sm text-dark-olive dark:text-cream"
+          aria-label={t('history.filter')}
+        >
+          <option value={ALL_STYLES}>{t('history.allStyles')}</option>
+          {styles.map(style => (
+            <option key={style.id} value={style.id}>{style.name}</option>
+          ))}
+          <option value={CUSTOM_PROMPT}>{t('single.customPrompt')}</option>
+        </select>
+      </div>
+
+      {loadError && <p className="text-red-400 text-sm text-center">{loadError}</p>}
+
+      {filteredEntries.length === 0 ? (
+        <p className="text-center text-dark-olive/60 dark:text-cream/60 py-12">{t('history.empty')}</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          {filteredEntries.map(entry => (
+            <div key={entry.id} className="rounded-lg overflow-hidden shadow-lg bg-dark-olive/5 dark:bg-olive/20">
+              <div className="relative aspect-square">
+                <img src={entry.imageDataUrl} alt={styleName(entry)} className="w-full h-full object-cover" />
+                <div className="absolute top-1 right-1 flex items-center gap-1">
+                  <button
+                    onClick={() => onDownload(entry.imageDataUrl)}
+                    className="p-1.5 bg-dark-olive/60 hover:bg-dark-olive/80 text-cream rounded-full transition-colors"
+                    aria-label={t('batch.downloadImage')}
+                  >
+                    <DownloadIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setPendingDeleteId(entry.id)}
+                    className="p-1.5 bg-dark-olive/60 hover:bg-red-600 text-cream rounded-full transition-colors"
+                    aria-label={t('history.delete')}
+                  >
+                    <XIcon className="w-4 h-4" />
+                  </button>
+                </div>
+                {entry.enhanceCount > 0 && (
+                  <span className="absolute top-1 left-1 px-2 py-0.5 text-xs font-bold rounded-full bg-olive text-cream">
+                    {t('history.enhanced', { count: entry.enhanceCount })}
+                  </span>
+                )}
+                {pendingDeleteId === entry.id && (
+                  <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center gap-2 p-2">
+                    <p className="text-cream text-sm font-semibold text-center">{t('history.deleteConfirm')}</p>
+                    <div className="flex gap-2">
+                      <button onClick={() => setPendingDeleteId(null)} className="px-3 py-1 rounded-full text-sm bg-cream/20 text-cream hover:bg-cream/30">{t('common.cancel')}</button>
+                      <button onClick={() => handleDelete(entry.id)} className="px-3 py-1 rounded-full text-sm bg-red-600 hover:bg-red-700 text-cream font-bold">{t('common.delete')}</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div className="p-2 space-y-1">
+                <p className="font-bold text-sm truncate" title={entry.customPrompt ?? undefined}>{styleName(entry)}</p>
+                <p className="text-xs text-dark-olive/60 dark:text-cream/60">
+                  {formatDate(entry.createdAt)} · {entry.model}
+                </p>
+                {entry.inputThumbnails.length > 0 && (
+                  <div className="flex gap-1">
+                    {entry.inputThumbnails.map((thumbnail, index) => (
+                      <img key={index} src={thumbnail} alt={t('history.inputN', { n: index + 1 })} className="w-8 h-8 rounded object-cover" />
+                    ))}
+                  </div>
+                )}
+                <button
+                  onClick={() => onUseImage(entry)}
+                  className="w-full mt-1 text-xs font-semibold py-1.5 rounded-full bg-dark-olive/10 dark:bg-olive/30 hover:bg-dark-olive/20 dark:hover:bg-olive/40 transition-colors"
+                >
+                  {t('result.useAsInput')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryGallery;
@@ -1,19 +1,36 @@
 import React, { useState, useRef, useEffect } from 'react';
 import UploadIcon from './icons/UploadIcon';
 import XIcon from './icons/XIcon';
+import { InputLimits } from '../types';
+import { ImageInfo, formatFileSize, preprocessImage } from '../services/imagePreprocess';
+import { t } from '../services/i18n';
 
 interface ImageUploaderProps {
   label: string;
   onImageChange: (file: File | null) => void;
   onRemove: () => void;
   initialFile: File | null;
+  // When set, picked photos are preprocessed to fit these limits before being passed on.
+  limits?: InputLimits;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onRemove, initialFile }) => {
+const describeInfo = (info: ImageInfo) => `${info.width}×${info.height} · ${formatFileSize(info.size)}`;
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onRemove, initialFile, limits }) => {
   const [preview, setPreview] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [sizeInfo, setSizeInfo] = useState<{ original: ImageInfo; processed: ImageInfo } | null>(null);
+  const [processingError, setProcessingError] = useState(false);
+  // The file this uploader produced, so its size info survives the round trip through the parent.
+  const processedFileRef = useRef<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
+    if (initialFile !== processedFileRef.current) {
+      processedFileRef.current = null;
+      setSizeInfo(null);
+      setProcessingError(false);
+    }
     if (initialFile) {
       const reader = new FileReader();
       reader.onloadend = () => {
@@ -26,9 +43,25 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onR
   }, [initialFile]);
 
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0] || null;
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    let file = event.target.files?.[0] || null;
     if (file) {
+      if (limits) {
+        setIsProcessing(true);
+        try {
+          const result = await preprocessImage(file, limits);
+          file = result.file;
+          setSizeInfo({ original: result.original, processed: result.processed });
+          setProcessingError(false);
+        } catch (err) {
+          // Images this browser cannot decode (e.g. HEIC) are sent as they are.
+          console.warn('Failed to preprocess image, using the original file:', err);
+          setSizeInfo(null);
+          setProcessingError(true);
+        }
+        setIsProcessing(false);
+      }
+      processedFileRef.current = file;
       const reader = new FileReader();
       reader.onloadend = () => {
         setPreview(reader.result as string);
@@ -50,6 +83,9 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onR
   const handleRemove = (e: React.MouseEvent) => {
     e.stopPropagation();
     setPreview(null);
+    setSizeInfo(null);
+    setProcessingError(false);
+    processedFileRef.current = null;
     onImageChange(null);
     if (fileInputRef.current) {
         fileInputRef.current.value = "";
@@ -70,7 +106,9 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onR
           className="hidden"
           accept="image/*"
         />
-        {preview ? (
+        {isProcessing ? (
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-olive dark:border-light-olive"></div>
+        ) : preview ? (
           <>
             <img src={preview} alt="Preview" className="w-full h-full object-cover rounded-lg" />
             <button onClick={handleRemove} className="absolute top-1 right-1 bg-dark-olive bg-opacity-50 rounded-full p-1 text-cream hover:bg-opacity-75 transition-colors" aria-label="Remove image">
@@ -84,6 +122,18 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ label, onImageChange, onR
           </div>
         )}
       </div>
+      {sizeInfo && (
+        <div
+          className="mt-1 w-24 text-[10px] leading-tight text-center text-dark-olive/60 dark:text-cream/60"
+          title={t('upload.sizeInfo', { original: describeInfo(sizeInfo.original), originalType: sizeInfo.original.mimeType || t('upload.unknownType'), processed: describeInfo(sizeInfo.processed), processedType: sizeInfo.processed.mimeType })}
+        >
+          <p className="line-through">{describeInfo(sizeInfo.original)}</p>
+          <p className="font-semibold">{describeInfo(sizeInfo.processed)}</p>
+        </div>
+      )}
+      {processingError && (
+        <p className="mt-1 w-24 text-[10px] leading-tight text-center text-red-400">{t('upload.processingFailed')}</p>
+      )}
     </div>
   );
 };
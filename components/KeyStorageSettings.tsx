@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { AUTO_LOCK_OPTIONS, KeyStorageMode, KeyStorageState, lockKeyPool, setAutoLockMinutes, setKeyStorageMode } from '../services/keyPool';
+import { MessageKey, t } from '../services/i18n';
+
+interface KeyStorageSettingsProps {
+  storage: KeyStorageState;
+}
+
+const MODES: { id: KeyStorageMode; label: MessageKey; hint: MessageKey }[] = [
+  { id: 'plain', label: 'vault.modePlain', hint: 'vault.modePlainHint' },
+  { id: 'encrypted', label: 'vault.modeEncrypted', hint: 'vault.modeEncryptedHint' },
+  { id: 'memory', label: 'vault.modeMemory', hint: 'vault.modeMemoryHint' },
+];
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClasses = "w-full p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50 text-sm";
+const smallButtonClasses = "text-xs font-semibold text-olive dark:text-light-olive hover:underline";
+
+const KeyStorageSettings: React.FC<KeyStorageSettingsProps> = ({ storage }) => {
+  // Encryption needs a passphrase first, so picking it (or changing the passphrase) opens the form.
+  const [isPassphraseFormOpen, setIsPassphraseFormOpen] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const closePassphraseForm = () => {
+    setIsPassphraseFormOpen(false);
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const handleModeChange = (mode: KeyStorageMode) => {
+    if (mode === 'encrypted') {
+      setIsPassphraseFormOpen(true);
+      return;
+    }
+    closePassphraseForm();
+    setKeyStorageMode(mode).catch(e => setError(e.message));
+  };
+
+  const handleApplyPassphrase = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(t('vault.passphraseTooShort', { min: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError(t('vault.passphraseMismatch'));
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await setKeyStorageMode('encrypted', passphrase);
+      closePassphraseForm();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 pt-3 border-t border-olive/20">
+      <h4 className="text-sm font-bold">{t('vault.title')}</h4>
+      {MODES.map(mode => (
+        <label key={mode.id} className="flex items-start gap-2 text-sm cursor-pointer">
+          <input
+            type="radio"
+            name="key-storage-mode"
+            checked={isPassphraseFormOpen ? mode.id === 'encrypted' : storage.mode === mode.id}
+            onChange={() => handleModeChange(mode.id)}
+            className="mt-1 accent-olive"
+          />
+          <span>
+            <span className="font-semibold">{t(mode.label)}</span>
+            <span className="block text-xs text-dark-olive/60 dark:text-cream/60">{t(mode.hint)}</span>
+          </span>
+        </label>
+      ))}
+
+      {isPassphraseFormOpen ? (
+        <div className="space-y-2 pl-6">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={t('vault.passphrase')}
+            className={inputClasses}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder={t('vault.confirmPassphrase')}
+            className={inputClasses}
+          />
+          <div className="flex justify-end gap-3">
+            <button onClick={closePassphraseForm} className={smallButtonClasses}>{t('common.cancel')}</button>
+            <button onClick={handleApplyPassphrase} disabled={isSaving || !passphrase} className="px-4 py-1.5 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors text-xs disabled:opacity-50">
+              {t('vault.apply')}
+            </button>
+          </div>
+        </div>
+      ) : storage.mode === 'encrypted' && (
+        <div className="flex flex-wrap items-center justify-between gap-2 pl-6 text-xs">
+          <label className="flex items-center gap-2">
+            {t('vault.autoLock')}
+            <select
+              value={storage.autoLockMinutes}
+              onChange={(e) => setAutoLockMinutes(Number(e.target.value))}
+              className="py-1 px-2 rounded-lg bg-dark-olive/5 dark:bg-olive/20 border border-olive/30"
+            >
+              {AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{t('vault.minutes', { count: minutes })}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-3">
+            <button onClick={() => setIsPassphraseFormOpen(true)} className={smallButtonClasses}>{t('vault.changePassphrase')}</button>
+            <button onClick={lockKeyPool} className={smallButtonClasses}>{t('vault.lockNow')}</button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+export default KeyStorageSettings;
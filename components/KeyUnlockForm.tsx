@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { forgetEncryptedKeys, unlockKeyPool } from '../services/keyPool';
+import { t } from '../services/i18n';
+
+interface KeyUnlockFormProps {
+  hint: string;
+  // Shown as a cancel button when a request is waiting on the unlock.
+  onCancel?: () => void;
+}
+
+const inputClasses = "w-full p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50 text-sm";
+const smallButtonClasses = "text-xs font-semibold text-olive dark:text-light-olive hover:underline";
+
+const KeyUnlockForm: React.FC<KeyUnlockFormProps> = ({ hint, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isConfirmingForget, setIsConfirmingForget] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    const unlocked = await unlockKeyPool(passphrase);
+    setIsUnlocking(false);
+    if (unlocked) {
+      setPassphrase('');
+    } else {
+      setError(t('vault.wrongPassphrase'));
+    }
+  };
+
+  return (
+    <form onSubmit={handleUnlock} className="space-y-2">
+      <h4 className="text-sm font-bold">{t('vault.lockedTitle')}</h4>
+      <p className="text-xs text-dark-olive/70 dark:text-cream/70">{hint}</p>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder={t('vault.passphrase')}
+        className={`${inputClasses} ${error ? 'border-red-500' : ''}`}
+        autoFocus
+      />
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+      <div className="flex items-center justify-between gap-2">
+        {isConfirmingForget ? (
+          <span className="flex items-center gap-3 text-xs">
+            {t('vault.forgetConfirm')}
+            <button type="button" onClick={() => setIsConfirmingForget(false)} className={smallButtonClasses}>{t('common.cancel')}</button>
+            <button type="button" onClick={forgetEncryptedKeys} className="font-bold text-red-500 hover:underline shrink-0">{t('vault.forget')}</button>
+          </span>
+        ) : (
+          <button type="button" onClick={() => setIsConfirmingForget(true)} className={smallButtonClasses}>{t('vault.forgot')}</button>
+        )}
+        <div className="flex gap-2 shrink-0">
+          {onCancel && (
+            <button type="button" onClick={onCancel} className="px-4 py-2 rounded-full bg-dark-olive/10 dark:bg-cream/10 hover:bg-dark-olive/20 dark:hover:bg-cream/20 font-semibold transition-colors text-sm">
+              {t('common.cancel')}
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isUnlocking || !passphrase}
+            className="px-5 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors text-sm w-28 text-center disabled:opacity-50"
+          >
+            {isUnlocking ? (
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-cream mx-auto"></div>
+            ) : t('vault.unlock')}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default KeyUnlockForm;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { LOCALES, Locale, t } from '../services/i18n';
+
+interface LanguageSwitcherProps {
+  locale: Locale;
+  onChange: (locale: Locale) => void;
+}
+
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ locale, onChange }) => (
+  <select
+    value={locale}
+    onChange={(e) => onChange(e.target.value as Locale)}
+    className="py-2 px-3 rounded-full bg-olive/20 dark:bg-cream/20 text-dark-olive dark:text-cream hover:bg-olive/30 dark:hover:bg-cream/30 transition-colors text-sm font-semibold cursor-pointer"
+    aria-label={t('settings.language')}
+  >
+    {LOCALES.map(option => (
+      <option key={option.id} value={option.id}>{option.label}</option>
+    ))}
+  </select>
+);
+
+export default LanguageSwitcher;
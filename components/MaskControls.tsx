@@ -0,0 +1,21 @@
+import React from 'react';
+import { t } from '../services/i18n';
+
+interface MaskControlsProps {
+  hasMask: boolean;
+  onEdit: () => void;
+  onClear: () => void;
+}
+
+const MaskControls: React.FC<MaskControlsProps> = ({ hasMask, onEdit, onClear }) => (
+  <div className="flex items-center justify-center gap-2 text-xs">
+    <button onClick={onEdit} className="font-semibold text-olive dark:text-light-olive hover:underline">
+      {hasMask ? t('mask.editArea') : t('mask.paintArea')}
+    </button>
+    {hasMask && (
+      <button onClick={onClear} className="text-dark-olive/60 dark:text-cream/60 hover:underline">{t('mask.clear')}</button>
+    )}
+  </div>
+);
+
+export default MaskControls;
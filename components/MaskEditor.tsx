@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { loadImageElement } from '../services/imageUtils';
+import XIcon from './icons/XIcon';
+import { t } from '../services/i18n';
+
+interface MaskEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  image: File | null;
+  initialMask: Blob | null;
+  // Receives a black-and-white PNG the size of the image, or null when nothing is painted.
+  onSave: (mask: File | null) => void;
+}
+
+type Tool = 'brush' | 'eraser';
+
+// Painting is kept as a list of actions and replayed, so undo does not need pixel snapshots.
+type MaskAction =
+  | { type: 'stroke'; tool: Tool; size: number; points: { x: number; y: number }[] }
+  | { type: 'clear' };
+
+const STROKE_COLOR = 'rgb(239, 68, 68)';
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, image, initialMask, onSave }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const baseLayerRef = useRef<HTMLCanvasElement | null>(null);
+  const currentStrokeRef = useRef<MaskAction | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [actions, setActions] = useState<MaskAction[]>([]);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(30);
+
+  useEffect(() => {
+    if (!isOpen || !image) return;
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    setActions([]);
+    setTool('brush');
+    baseLayerRef.current = null;
+    let cancelled = false;
+
+    (async () => {
+      const element = await loadImageElement(url);
+      if (cancelled) return;
+      if (initialMask) {
+        // Turn the saved white-on-black mask back into a paintable overlay.
+        const mask = await loadImageElement(initialMask);
+        const layer = document.createElement('canvas');
+        layer.width = element.naturalWidth;
+        layer.height = element.naturalHeight;
+        const ctx = layer.getContext('2d');
+        if (ctx) {
+          ctx.drawImage(mask, 0, 0, layer.width, layer.height);
+          const pixels = ctx.getImageData(0, 0, layer.width, layer.height);
+          for (let i = 0; i < pixels.data.length; i += 4) {
+            const alpha = pixels.data[i];
+            pixels.data[i] = 239;
+            pixels.data[i + 1] = 68;
+            pixels.data[i + 2] = 68;
+            pixels.data[i + 3] = alpha;
+          }
+          ctx.putImageData(pixels, 0, 0);
+          baseLayerRef.current = layer;
+        }
+      }
+      if (!cancelled) setSize({ width: element.naturalWidth, height: element.naturalHeight });
+    })().catch(err => console.error('Failed to open mask editor:', err));
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+      setImageUrl(null);
+      setSize(null);
+    };
+  }, [isOpen, image, initialMask]);
+
+  const drawAction = (ctx: CanvasRenderingContext2D, action: MaskAction) => {
+    if (action.type === 'clear') {
+      ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      return;
+    }
+    ctx.save();
+    ctx.globalCompositeOperation = action.tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = STROKE_COLOR;
+    ctx.fillStyle = STROKE_COLOR;
+    ctx.lineWidth = action.size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    const [first, ...rest] = action.points;
+    if (rest.length === 0) {
+      ctx.beginPath();
+      ctx.arc(first.x, first.y, action.size / 2, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      ctx.beginPath();
+      ctx.moveTo(first.x, first.y);
+      rest.forEach(point => ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+
+  const redraw = useCallback((list: MaskAction[]) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    if (baseLayerRef.current) ctx.drawImage(baseLayerRef.current, 0, 0);
+    list.forEach(action => drawAction(ctx, action));
+  }, []);
+
+  useEffect(() => {
+    if (size) redraw(actions);
+  }, [size, actions, redraw]);
+
+  if (!isOpen || !image) return null;
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y, scale } = toCanvasPoint(e);
+    // The slider is in screen pixels so the brush feels the same on any image size.
+    const stroke: MaskAction = { type: 'stroke', tool, size: brushSize * scale, points: [{ x, y }] };
+    currentStrokeRef.current = stroke;
+    const ctx = e.currentTarget.getContext('2d');
+    if (ctx) drawAction(ctx, stroke);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStrokeRef.current;
+    if (!stroke || stroke.type !== 'stroke') return;
+    const { x, y } = toCanvasPoint(e);
+    stroke.points.push({ x, y });
+    const ctx = e.currentTarget.getContext('2d');
+    if (ctx) drawAction(ctx, { ...stroke, points: stroke.points.slice(-2) });
+  };
+
+  const handlePointerUp = () => {
+    const stroke = currentStrokeRef.current;
+    if (!stroke) return;
+    currentStrokeRef.current = null;
+    setActions(prev => [...prev, stroke]);
+  };
+
+  const handleSave = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    const pixels = ctx?.getImageData(0, 0, canvas.width, canvas.height);
+    if (!pixels || !pixels.data.some((value, index) => index % 4 === 3 && value > 0)) {
+      onSave(null);
+      onClose();
+      return;
+    }
+
+    const output = document.createElement('canvas');
+    output.width = canvas.width;
+    output.height = canvas.height;
+    const outputCtx = output.getContext('2d');
+    if (!outputCtx) return;
+    const maskPixels = outputCtx.createImageData(canvas.width, canvas.height);
+    for (let i = 0; i < pixels.data.length; i += 4) {
+      const value = pixels.data[i + 3] > 0 ? 255 : 0;
+      maskPixels.data[i] = value;
+      maskPixels.data[i + 1] = value;
+      maskPixels.data[i + 2] = value;
+      maskPixels.data[i + 3] = 255;
+    }
+    outputCtx.putImageData(maskPixels, 0, 0);
+    output.toBlob(blob => {
+      if (!blob) return;
+      const baseName = image.name.replace(/\.[^.]+$/, '');
+      onSave(new File([blob], `${baseName}-mask.png`, { type: 'image/png' }));
+      onClose();
+    }, 'image/png');
+  };
+
+  const toolClasses = (isActive: boolean) => `px-3 py-1.5 rounded-full text-xs font-semibold transition-colors ${isActive ? 'bg-olive text-cream' : 'bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30'}`;
+
+  return (
+    <div className="fixed inset-0 z-[101] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4">
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-2xl w-full relative max-h-[95vh] overflow-y-auto space-y-4">
+        <button onClick={onClose} className="absolute top-3 right-3 p-1 rounded-full text-dark-olive/60 dark:text-cream/60 hover:bg-dark-olive/10 dark:hover:bg-olive/30" aria-label={t('common.close')}>
+          <XIcon className="w-5 h-5" />
+        </button>
+        <div>
+          <h2 className="text-xl font-bold text-dark-olive dark:text-cream">{t('mask.paintArea')}</h2>
+          <p className="text-sm text-dark-olive/70 dark:text-cream/70">{t('mask.hint')}</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => setTool('brush')} className={toolClasses(tool === 'brush')}>{t('mask.brush')}</button>
+          <button onClick={() => setTool('eraser')} className={toolClasses(tool === 'eraser')}>{t('mask.eraser')}</button>
+          <label className="flex items-center gap-2 text-xs text-dark-olive/80 dark:text-cream/80">
+            {t('mask.brushSize')}
+            <input type="range" min={5} max={80} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="accent-olive" />
+          </label>
+          <button onClick={() => setActions(prev => prev.slice(0, -1))} disabled={actions.length === 0} className={`${toolClasses(false)} disabled:opacity-50`}>{t('common.undo')}</button>
+          <button onClick={() => setActions(prev => [...prev, { type: 'clear' }])} className={toolClasses(false)}>{t('mask.clearAll')}</button>
+        </div>
+
+        <div className="relative mx-auto w-fit">
+          {imageUrl && <img src={imageUrl} alt={t('mask.imageAlt')} className="block max-w-full max-h-[60vh] select-none" draggable={false} />}
+          {size && (
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute inset-0 w-full h-full opacity-60 cursor-crosshair touch-none"
+            />
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2 rounded-full text-sm font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors">{t('common.cancel')}</button>
+          <button onClick={handleSave} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors">{t('mask.save')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
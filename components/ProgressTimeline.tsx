@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { ProgressStep, describeStep, formatDuration, timelineDuration } from '../services/progress';
+import { t } from '../services/i18n';
+
+interface ProgressTimelineProps {
+  timeline: ProgressStep[];
+  // Only the current step and total time, for small tiles.
+  compact?: boolean;
+  // Light text for use on top of an image overlay.
+  inverted?: boolean;
+}
+
+const ProgressTimeline: React.FC<ProgressTimelineProps> = ({ timeline, compact = false, inverted = false }) => {
+  const isRunning = timeline.some(step => step.endedAt === undefined);
+  const [, setNow] = useState(Date.now());
+
+  // Re-render while a step is running so its elapsed time keeps counting.
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  if (timeline.length === 0) return null;
+
+  const textColor = inverted ? 'text-cream/80' : 'text-dark-olive/70 dark:text-cream/70';
+  const stepDuration = (step: ProgressStep) => (step.endedAt ?? Date.now()) - step.startedAt;
+
+  if (compact) {
+    const current = timeline[timeline.length - 1];
+    return (
+      <p
+        className={`text-xs ${textColor}`}
+        title={timeline.map(step => `${describeStep(step)}: ${formatDuration(stepDuration(step))}`).join('\n')}
+      >
+        {isRunning ? `${describeStep(current)} · ` : ''}{formatDuration(timelineDuration(timeline))}
+      </p>
+    );
+  }
+
+  return (
+    <ul className={`w-full text-sm space-y-1 ${textColor}`}>
+      {timeline.map((step, index) => (
+        <li key={index} className="flex items-center justify-between gap-3">
+          <span className="flex items-center gap-2">
+            <span className={`inline-block w-2 h-2 rounded-full ${step.endedAt === undefined ? 'bg-olive animate-pulse' : 'bg-olive/40'}`}></span>
+            {describeStep(step)}
+            {step.stage === 'streaming' && step.chunks ? ` (${t('progress.chunks', { count: step.chunks })})` : ''}
+          </span>
+          <span className="tabular-nums">{formatDuration(stepDuration(step))}</span>
+        </li>
+      ))}
+      {!isRunning && (
+        <li className="flex items-center justify-between gap-3 font-semibold">
+          <span>{t('progress.total')}</span>
+          <span className="tabular-nums">{formatDuration(timelineDuration(timeline))}</span>
+        </li>
+      )}
+    </ul>
+  );
+};
+
+export default ProgressTimeline;
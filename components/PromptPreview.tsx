@@ -0,0 +1,28 @@
+import React, { useState } from 'react';
+import { t } from '../services/i18n';
+
+interface PromptPreviewProps {
+  prompt: string;
+}
+
+const PromptPreview: React.FC<PromptPreviewProps> = ({ prompt }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm font-semibold text-olive dark:text-light-olive hover:underline"
+      >
+        {isOpen ? t('prompt.hideFinal') : t('prompt.showFinal')}
+      </button>
+      {isOpen && (
+        <p className="mt-2 p-3 text-xs whitespace-pre-line bg-dark-olive/5 dark:bg-olive/20 rounded-lg text-dark-olive/80 dark:text-cream/80 animate-fade-in">
+          {prompt}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PromptPreview;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { StyleVariable, StyleVariableValues } from '../types';
+
+interface PromptVariablesFormProps {
+  variables: StyleVariable[];
+  values: StyleVariableValues;
+  onChange: (values: StyleVariableValues) => void;
+  compact?: boolean;
+}
+
+const PromptVariablesForm: React.FC<PromptVariablesFormProps> = ({ variables, values, onChange, compact = false }) => {
+  if (variables.length === 0) return null;
+
+  const fieldClasses = `w-full mt-1 ${compact ? 'p-1.5 text-xs' : 'p-2 text-sm'} bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream`;
+
+  return (
+    <div className={`grid ${compact ? 'grid-cols-1 gap-2' : 'grid-cols-1 sm:grid-cols-2 gap-3'}`}>
+      {variables.map(variable => (
+        <label key={variable.name} className={`block ${compact ? 'text-xs' : 'text-sm'} font-semibold text-dark-olive/90 dark:text-cream/90`}>
+          {variable.label}
+          {variable.type === 'choice' ? (
+            <select
+              value={values[variable.name] ?? variable.default}
+              onChange={(e) => onChange({ ...values, [variable.name]: e.target.value })}
+              className={fieldClasses}
+            >
+              {variable.options?.map(option => (
+                <option key={option.value} value={option.value}>{option.label ?? option.value}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              value={values[variable.name] ?? variable.default}
+              onChange={(e) => onChange({ ...values, [variable.name]: e.target.value })}
+              className={fieldClasses}
+            />
+          )}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default PromptVariablesForm;
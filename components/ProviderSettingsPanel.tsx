@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { DemoFailure, ProviderSettings } from '../types';
+import { PROVIDER_OPTIONS, createImageProvider } from '../services/providers';
+import { MessageKey, t } from '../services/i18n';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const DEMO_FAILURE_OPTIONS: { id: DemoFailure; label: MessageKey }[] = [
+  { id: 'none', label: 'providers.failureNone' },
+  { id: 'SAFETY', label: 'providers.failureSafety' },
+  { id: 'RESOURCE_EXHAUSTED', label: 'providers.failureQuota' },
+  { id: 'MODEL_ERROR', label: 'providers.failureRefusal' },
+];
+
+const inputClasses = "w-full mt-1 p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50 text-sm";
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isChecking, setIsChecking] = useState(false);
+  const [checkResult, setCheckResult] = useState<{ success: boolean; error?: string } | null>(null);
+
+  const update = (patch: Partial<ProviderSettings>) => {
+    setCheckResult(null);
+    onChange({ ...settings, ...patch });
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setCheckResult(null);
+    const result = await createImageProvider(settings).validate();
+    setCheckResult(result);
+    setIsChecking(false);
+  };
+
+  const { capabilities } = createImageProvider(settings);
+
+  return (
+    <div className="mb-5 pb-5 border-b border-olive/20">
+      <label className="block text-sm font-semibold text-dark-olive/90 dark:text-cream/90">{t('providers.label')}</label>
+      <select
+        value={settings.providerId}
+        onChange={(e) => update({ providerId: e.target.value as ProviderSettings['providerId'] })}
+        className={inputClasses}
+      >
+        {PROVIDER_OPTIONS.map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+      </select>
+
+      {settings.providerId === 'gemini' && (
+        <>
+          <label className="block text-sm font-semibold text-dark-olive/90 dark:text-cream/90 mt-3">Model</label>
+          <input
+            type="text"
+            value={settings.geminiModel}
+            onChange={(e) => update({ geminiModel: e.target.value })}
+            className={inputClasses}
+          />
+          <label className="block text-sm font-semibold text-dark-olive/90 dark:text-cream/90 mt-3">{t('providers.proxyUrl')}</label>
+          <input
+            type="url"
+            value={settings.geminiProxyUrl}
+            onChange={(e) => update({ geminiProxyUrl: e.target.value })}
+            placeholder="http://localhost:8787"
+            className={inputClasses}
+          />
+          <p className="mt-1 text-xs text-dark-olive/70 dark:text-cream/70">{t('providers.proxyHint')}</p>
+        </>
+      )}
+
+      {settings.providerId === 'http' && (
+        <>
+          <label className="block text-sm font-semibold text-dark-olive/90 dark:text-cream/90 mt-3">{t('providers.serverUrl')}</label>
+          <input
+            type="url"
+            value={settings.httpBaseUrl}
+            onChange={(e) => update({ httpBaseUrl: e.target.value })}
+            placeholder="http://localhost:7860"
+            className={inputClasses}
+          />
+        </>
+      )}
+
+      {settings.providerId === 'demo' && (
+        <>
+          <p className="mt-2 text-xs text-dark-olive/70 dark:text-cream/70">
+            {t('providers.demoHint')}
+          </p>
+          <label className="block text-sm font-semibold text-dark-olive/90 dark:text-cream/90 mt-3">{t('providers.simulateFailure')}</label>
+          <select
+            value={settings.demoFailure}
+            onChange={(e) => update({ demoFailure: e.target.value as DemoFailure })}
+            className={inputClasses}
+          >
+            {DEMO_FAILURE_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{t(option.label)}</option>
+            ))}
+          </select>
+        </>
+      )}
+
+      <ul className="mt-3 text-xs text-dark-olive/70 dark:text-cream/70 space-y-0.5">
+        <li>{capabilities.imageToImage ? '✓' : '✗'} {t('providers.capImageToImage')}</li>
+        <li>{capabilities.multipleInputImages ? '✓' : '✗'} {t('providers.capMultipleInputs')}</li>
+        <li>{capabilities.upscaling ? '✓' : '✗'} {t('providers.capUpscaling')}</li>
+        <li>{capabilities.inpainting ? '✓' : '✗'} {t('providers.capInpainting')}</li>
+        <li>{capabilities.conversation ? '✓' : '✗'} {t('providers.capConversation')}</li>
+      </ul>
+
+      <div className="mt-3 flex items-center gap-3">
+        <button
+          onClick={handleCheck}
+          disabled={isChecking}
+          className="px-4 py-1.5 rounded-full text-sm text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold disabled:opacity-50"
+        >
+          {isChecking ? t('providers.checking') : t('providers.check')}
+        </button>
+        {checkResult && (
+          <span className={`text-xs ${checkResult.success ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>
+            {checkResult.success ? t('providers.checkOk') : checkResult.error}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,117 @@
+import React, { useState, useRef } from 'react';
+import { ProgressStep } from '../services/progress';
+import { RefineSession, canRedoRefine, canUndoRefine, getCurrentVersion, getVersionDepth, listVersionsInTreeOrder } from '../services/refinement';
+import ProgressTimeline from './ProgressTimeline';
+import { t } from '../services/i18n';
+
+interface RefinePanelProps {
+  session: RefineSession;
+  isRefining: boolean;
+  timeline: ProgressStep[];
+  // False when the provider only sees the latest image, not the earlier turns.
+  hasConversation: boolean;
+  disabled?: boolean;
+  onSubmit: (instruction: string) => void;
+  onCancel: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (versionId: string) => void;
+}
+
+const smallButtonClasses = "text-xs font-semibold py-1.5 px-3 rounded-full border border-olive/50 text-olive hover:bg-olive hover:text-cream transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const RefinePanel: React.FC<RefinePanelProps> = ({ session, isRefining, timeline, hasConversation, disabled = false, onSubmit, onCancel, onUndo, onRedo, onSelect }) => {
+  const [instruction, setInstruction] = useState('');
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const current = getCurrentVersion(session);
+  const versions = listVersionsInTreeOrder(session);
+  const versionNumber = (id: string) => session.versions.findIndex(version => version.id === id);
+  const hasChildren = session.versions.some(version => version.parentId === current.id);
+  const isBusy = isRefining || disabled;
+
+  const handleSubmit = () => {
+    const text = instruction.trim();
+    if (!text || isBusy) return;
+    onSubmit(text);
+    setInstruction('');
+  };
+
+  const handleBranch = (versionId: string) => {
+    onSelect(versionId);
+    inputRef.current?.focus();
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-dark-olive/5 dark:bg-olive/20 rounded-lg text-left space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-md font-semibold text-dark-olive/90 dark:text-cream/90">{t('refine.title')}</h3>
+        <div className="flex gap-2">
+          <button onClick={onUndo} disabled={isBusy || !canUndoRefine(session)} className={smallButtonClasses}>{t('common.undo')}</button>
+          <button onClick={onRedo} disabled={isBusy || !canRedoRefine(session)} className={smallButtonClasses}>{t('common.redo')}</button>
+        </div>
+      </div>
+
+      {versions.length > 1 && (
+        <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+          {versions.map(version => {
+            const number = versionNumber(version.id);
+            const isCurrent = version.id === current.id;
+            return (
+              <li
+                key={version.id}
+                className={`flex items-center gap-2 rounded-md px-2 py-1 ${isCurrent ? 'bg-olive/20 font-semibold' : ''}`}
+                style={{ marginLeft: getVersionDepth(session, version.id) * 12 }}
+              >
+                <button onClick={() => onSelect(version.id)} disabled={isBusy} className="flex-1 min-w-0 text-left truncate hover:underline disabled:no-underline" title={version.prompt}>
+                  {number === 0 ? t('refine.original') : t('refine.version', { n: number, prompt: version.prompt })}
+                </button>
+                <button onClick={() => handleBranch(version.id)} disabled={isBusy} className="shrink-0 text-xs text-olive dark:text-light-olive hover:underline disabled:opacity-50">
+                  {t('refine.branch')}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <textarea
+        ref={inputRef}
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        rows={2}
+        placeholder={t('refine.placeholder')}
+        className="w-full p-2 bg-cream dark:bg-dark-olive border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream text-sm"
+        disabled={isBusy}
+      />
+      {hasChildren && !isRefining && (
+        <p className="text-xs text-dark-olive/60 dark:text-cream/60">{t('refine.branchHint')}</p>
+      )}
+      {!hasConversation && (
+        <p className="text-xs text-dark-olive/60 dark:text-cream/60">{t('refine.noConversation')}</p>
+      )}
+
+      {isRefining ? (
+        <div className="space-y-2">
+          <ProgressTimeline timeline={timeline} />
+          <button onClick={onCancel} className={smallButtonClasses}>{t('common.cancel')}</button>
+        </div>
+      ) : (
+        <button
+          onClick={handleSubmit}
+          disabled={isBusy || !instruction.trim()}
+          className="w-full bg-olive hover:bg-dark-olive text-cream font-bold py-2 px-4 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('refine.submit')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RefinePanel;
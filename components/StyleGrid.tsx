@@ -0,0 +1,42 @@
+import React from 'react';
+import { Style } from '../types';
+import { t } from '../services/i18n';
+
+interface StyleGridProps {
+  title: string;
+  styles: Style[];
+  selectedStyleId: string | null;
+  onSelect: (styleId: string) => void;
+  customStyleIds: Set<string>;
+  onManage: () => void;
+}
+
+const StyleGrid: React.FC<StyleGridProps> = ({ title, styles, selectedStyleId, onSelect, customStyleIds, onManage }) => (
+  <div>
+    <div className="flex items-center justify-between mb-3">
+      <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90">{title}</h2>
+      <button
+        onClick={onManage}
+        className="text-sm font-semibold text-olive dark:text-light-olive hover:underline"
+      >
+        {t('styles.manage')}
+      </button>
+    </div>
+    <div className="grid grid-cols-2 gap-3">
+      {styles.map((style) => (
+        <button
+          key={style.id}
+          onClick={() => onSelect(style.id)}
+          className={`p-4 rounded-lg text-left transition-all duration-200 ${selectedStyleId === style.id ? 'bg-olive text-cream ring-2 ring-olive/70' : 'bg-dark-olive/5 dark:bg-olive/20 hover:bg-dark-olive/10 dark:hover:bg-olive/30'}`}
+        >
+          <span className="font-bold">{style.name}</span>
+          {customStyleIds.has(style.id) && (
+            <span className="block text-xs opacity-70 mt-0.5">{t('styles.yours')}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default StyleGrid;
@@ -0,0 +1,378 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Style, StyleInputSlot, StyleVariable } from '../types';
+import { DEFAULT_INPUT_SLOT, getStyleInputs } from '../services/styleInputs';
+import { createStyleId, exportStylePack, mergeImportedStyles, parseStyle, parseStylePack, StylePackError } from '../services/styleLibrary';
+import XIcon from './icons/XIcon';
+import { t } from '../services/i18n';
+
+interface StyleManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  builtInStyles: Style[];
+  customStyles: Style[];
+  onChange: (styles: Style[]) => void;
+  // Prefills the editor, e.g. when saving a custom prompt as a new style.
+  initialDraft?: Partial<Style> | null;
+}
+
+const inputClasses = "w-full mt-1 p-2 bg-dark-olive/5 dark:bg-olive/20 border border-olive/30 rounded-lg focus:ring-2 focus:ring-olive focus:border-olive transition text-dark-olive dark:text-cream placeholder:text-dark-olive/50 dark:placeholder:text-cream/50 text-sm";
+const smallButtonClasses = "px-3 py-1 rounded-full text-xs font-semibold bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors";
+
+const StyleManager: React.FC<StyleManagerProps> = ({ isOpen, onClose, builtInStyles, customStyles, onChange, initialDraft }) => {
+  const [draft, setDraft] = useState<Style | null>(null);
+  const [isNewDraft, setIsNewDraft] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMessage(null);
+      setPendingDeleteId(null);
+      if (initialDraft) {
+        setDraft({ id: createStyleId(), name: initialDraft.name ?? '', prompt: initialDraft.prompt ?? '', inputs: [DEFAULT_INPUT_SLOT] });
+        setIsNewDraft(true);
+      } else {
+        setDraft(null);
+      }
+    }
+  }, [isOpen, initialDraft]);
+
+  if (!isOpen) return null;
+
+  const startNew = () => {
+    setMessage(null);
+    setDraft({ id: createStyleId(), name: '', prompt: '', inputs: [DEFAULT_INPUT_SLOT] });
+    setIsNewDraft(true);
+  };
+
+  const startEdit = (style: Style) => {
+    setMessage(null);
+    setDraft({ ...style, inputs: getStyleInputs(style) });
+    setIsNewDraft(false);
+  };
+
+  const updateSlot = (index: number, patch: Partial<StyleInputSlot>) => {
+    if (!draft) return;
+    setDraft({ ...draft, inputs: getStyleInputs(draft).map((slot, i) => i === index ? { ...slot, ...patch } : slot) });
+  };
+
+  const addSlot = () => {
+    if (!draft) return;
+    setDraft({ ...draft, inputs: [...getStyleInputs(draft), { role: '', label: '', required: true }] });
+  };
+
+  const removeSlot = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, inputs: getStyleInputs(draft).filter((_, i) => i !== index) });
+  };
+
+  const draftVariables = draft?.variables ?? [];
+
+  const updateVariable = (index: number, patch: Partial<StyleVariable>) => {
+    if (!draft) return;
+    setDraft({ ...draft, variables: draftVariables.map((variable, i) => i === index ? { ...variable, ...patch } : variable) });
+  };
+
+  // Options are edited one value per line; labels of values that are kept survive the edit.
+  const updateVariableOptions = (index: number, text: string) => {
+    const existing = draftVariables[index]?.options ?? [];
+    const options = text.split('\n').map(value => existing.find(option => option.value === value) ?? { value });
+    updateVariable(index, { options });
+  };
+
+  const addVariable = () => {
+    if (!draft) return;
+    setDraft({ ...draft, variables: [...draftVariables, { name: '', label: '', type: 'text', default: '' }] });
+  };
+
+  const removeVariable = (index: number) => {
+    if (!draft) return;
+    const variables = draftVariables.filter((_, i) => i !== index);
+    setDraft({ ...draft, variables: variables.length > 0 ? variables : undefined });
+  };
+
+  const duplicate = (style: Style) => {
+    const copy = { ...style, id: createStyleId(), name: t('styles.copyName', { name: style.name }) };
+    onChange([...customStyles, copy]);
+    setMessage({ type: 'success', text: t('styles.duplicated', { name: style.name }) });
+  };
+
+  const remove = (id: string) => {
+    onChange(customStyles.filter(style => style.id !== id));
+    setPendingDeleteId(null);
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    try {
+      // Blank option lines are only an editing artifact.
+      const variables = draft.variables?.map(variable => variable.type === 'choice'
+        ? { ...variable, options: variable.options?.map(option => ({ ...option, value: option.value.trim() })).filter(option => option.value !== '') }
+        : { name: variable.name, label: variable.label, type: variable.type, default: variable.default });
+      const style = parseStyle({ ...draft, variables });
+      if (isNewDraft) {
+        onChange([...customStyles, style]);
+      } else {
+        onChange(customStyles.map(s => s.id === style.id ? style : s));
+      }
+      setDraft(null);
+      setMessage({ type: 'success', text: t('styles.saved', { name: style.name }) });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof StylePackError ? err.message : t('styles.saveFailed') });
+    }
+  };
+
+  const handleExport = () => {
+    if (customStyles.length === 0) return;
+    const blob = new Blob([exportStylePack(customStyles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tao-anh-trend-styles-${new Date().getTime()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseStylePack(await file.text());
+      onChange(mergeImportedStyles(customStyles, imported, builtInStyles.map(s => s.id)));
+      setMessage({ type: 'success', text: t('styles.imported', { count: imported.length }) });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof StylePackError ? err.message : t('styles.readFailed') });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[101] bg-black bg-opacity-70 flex items-center justify-center animate-fade-in p-4">
+      <div className="bg-cream dark:bg-dark-olive p-6 rounded-lg shadow-2xl max-w-lg w-full relative max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-4 text-dark-olive dark:text-cream">{t('styles.manage')}</h2>
+        <button onClick={onClose} className="absolute top-3 right-3 text-dark-olive/50 hover:text-dark-olive dark:text-cream/50 dark:hover:text-cream transition-colors">
+          <XIcon className="w-6 h-6"/>
+        </button>
+
+        {message && (
+          <p className={`mb-3 text-sm ${message.type === 'error' ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>
+        )}
+
+        {draft ? (
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-semibold text-dark-olive/90 dark:text-cream/90">{t('styles.name')}</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder={t('styles.namePlaceholder')}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-dark-olive/90 dark:text-cream/90">{t('styles.prompt')}</label>
+              <textarea
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                placeholder={t('styles.promptPlaceholder')}
+                rows={8}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-dark-olive/90 dark:text-cream/90">{t('styles.maskInstruction')}</label>
+              <p className="text-xs text-dark-olive/60 dark:text-cream/60">
+                {t('styles.maskInstructionHint')}
+              </p>
+              <textarea
+                value={draft.maskInstruction ?? ''}
+                onChange={(e) => setDraft({ ...draft, maskInstruction: e.target.value })}
+                placeholder={t('styles.maskInstructionPlaceholder')}
+                rows={3}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-dark-olive/90 dark:text-cream/90">{t('styles.inputs')}</label>
+              <p className="text-xs text-dark-olive/60 dark:text-cream/60 mb-2">
+                {t('styles.inputsHint')}
+              </p>
+              <div className="space-y-2">
+                {getStyleInputs(draft).map((slot, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={slot.label}
+                      onChange={(e) => updateSlot(index, { label: e.target.value })}
+                      placeholder={t('styles.slotLabelPlaceholder')}
+                      className={`${inputClasses} mt-0`}
+                    />
+                    <input
+                      type="text"
+                      value={slot.role}
+                      onChange={(e) => updateSlot(index, { role: e.target.value })}
+                      placeholder={t('styles.slotRolePlaceholder')}
+                      className={`${inputClasses} mt-0`}
+                    />
+                    <label className="flex items-center gap-1 text-xs whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={slot.required}
+                        onChange={(e) => updateSlot(index, { required: e.target.checked })}
+                      />
+                      {t('styles.required')}
+                    </label>
+                    <button
+                      onClick={() => removeSlot(index)}
+                      disabled={getStyleInputs(draft).length <= 1}
+                      className="p-1 rounded-full text-dark-olive/60 hover:text-red-500 dark:text-cream/60 disabled:opacity-30"
+                      aria-label={t('styles.removeSlot', { n: index + 1 })}
+                    >
+                      <XIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button onClick={addSlot} className={`${smallButtonClasses} mt-2`}>{t('styles.addSlot')}</button>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-dark-olive/90 dark:text-cream/90">{t('styles.variables')}</label>
+              <p className="text-xs text-dark-olive/60 dark:text-cream/60 mb-2">
+                {t('styles.variablesHint')}
+              </p>
+              <div className="space-y-3">
+                {draftVariables.map((variable, index) => (
+                  <div key={index} className="p-2 rounded-lg bg-dark-olive/5 dark:bg-olive/20 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={variable.name}
+                        onChange={(e) => updateVariable(index, { name: e.target.value })}
+                        placeholder={t('styles.variableNamePlaceholder')}
+                        className={`${inputClasses} mt-0`}
+                      />
+                      <input
+                        type="text"
+                        value={variable.label}
+                        onChange={(e) => updateVariable(index, { label: e.target.value })}
+                        placeholder={t('styles.variableLabelPlaceholder')}
+                        className={`${inputClasses} mt-0`}
+                      />
+                      <button
+                        onClick={() => removeVariable(index)}
+                        className="p-1 rounded-full text-dark-olive/60 hover:text-red-500 dark:text-cream/60"
+                        aria-label={t('styles.removeVariable', { n: index + 1 })}
+                      >
+                        <XIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={variable.type}
+                        onChange={(e) => updateVariable(index, { type: e.target.value as StyleVariable['type'] })}
+                        className={`${inputClasses} mt-0 w-auto`}
+                      >
+                        <option value="text">{t('styles.typeText')}</option>
+                        <option value="choice">{t('styles.typeChoice')}</option>
+                      </select>
+                      <input
+                        type="text"
+                        value={variable.default}
+                        onChange={(e) => updateVariable(index, { default: e.target.value })}
+                        placeholder={t('styles.defaultValue')}
+                        className={`${inputClasses} mt-0`}
+                      />
+                    </div>
+                    {variable.type === 'choice' && (
+                      <textarea
+                        value={(variable.options ?? []).map(option => option.value).join('\n')}
+                        onChange={(e) => updateVariableOptions(index, e.target.value)}
+                        placeholder={t('styles.optionsPlaceholder')}
+                        rows={3}
+                        className={`${inputClasses} mt-0`}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+              <button onClick={addVariable} className={`${smallButtonClasses} mt-2`}>{t('styles.addVariable')}</button>
+            </div>
+            <div className="flex justify-end gap-3">
+              <button onClick={() => setDraft(null)} className="px-5 py-2 rounded-full text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+                {t('common.cancel')}
+              </button>
+              <button onClick={saveDraft} className="px-6 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors">
+                {t('styles.save')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div>
+              <h3 className="text-sm font-semibold text-dark-olive/90 dark:text-cream/90 mb-2">{t('styles.yourStyles')}</h3>
+              {customStyles.length === 0 ? (
+                <p className="text-sm text-dark-olive/60 dark:text-cream/60">{t('styles.empty')}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {customStyles.map(style => (
+                    <li key={style.id} className="p-3 rounded-lg bg-dark-olive/5 dark:bg-olive/20">
+                      {pendingDeleteId === style.id ? (
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm">{t('styles.deleteConfirm', { name: style.name })}</span>
+                          <div className="flex gap-2">
+                            <button onClick={() => setPendingDeleteId(null)} className={smallButtonClasses}>{t('common.cancel')}</button>
+                            <button onClick={() => remove(style.id)} className="px-3 py-1 rounded-full text-xs font-bold bg-red-600 hover:bg-red-700 text-cream transition-colors">{t('common.delete')}</button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-bold text-sm truncate">{style.name}</span>
+                          <div className="flex gap-2 shrink-0">
+                            <button onClick={() => startEdit(style)} className={smallButtonClasses}>{t('styles.edit')}</button>
+                            <button onClick={() => duplicate(style)} className={smallButtonClasses}>{t('styles.duplicate')}</button>
+                            <button onClick={() => setPendingDeleteId(style.id)} className="px-3 py-1 rounded-full text-xs font-semibold text-red-500 hover:bg-red-500/10 transition-colors">{t('common.delete')}</button>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-dark-olive/90 dark:text-cream/90 mb-2">{t('styles.builtIn')}</h3>
+              <ul className="space-y-2">
+                {builtInStyles.map(style => (
+                  <li key={style.id} className="p-3 rounded-lg bg-dark-olive/5 dark:bg-olive/20 flex items-center justify-between gap-2">
+                    <span className="font-bold text-sm truncate">{style.name}</span>
+                    <button onClick={() => duplicate(style)} className={smallButtonClasses}>{t('styles.duplicate')}</button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-3 pt-2 border-t border-olive/20">
+              <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+              <button onClick={() => importInputRef.current?.click()} className="mr-auto px-4 py-2 rounded-full text-sm text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold">
+                {t('styles.import')}
+              </button>
+              <button onClick={handleExport} disabled={customStyles.length === 0} className="px-4 py-2 rounded-full text-sm text-dark-olive/80 dark:text-cream/80 bg-dark-olive/10 hover:bg-dark-olive/20 dark:bg-olive/20 dark:hover:bg-olive/30 transition-colors font-semibold disabled:opacity-50">
+                {t('styles.export')}
+              </button>
+              <button onClick={startNew} className="px-5 py-2 rounded-full bg-olive hover:bg-olive/90 text-cream font-bold transition-colors text-sm">
+                {t('styles.new')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StyleManager;
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Style, UsageRecord } from '../types';
+import {
+  PriceTable,
+  UsageGrouping,
+  UsagePeriod,
+  clearUsageRecords,
+  estimateCost,
+  listUsageRecords,
+  loadPriceTable,
+  periodStart,
+  savePriceTable,
+  summarizeUsage,
+  usageToCsv,
+} from '../services/usageService';
+import { MessageKey, formatDate, formatNumber, t } from '../services/i18n';
+
+interface UsageDashboardProps {
+  styles: Style[];
+}
+
+const PERIODS: { id: UsagePeriod; label: MessageKey }[] = [
+  { id: 'day', label: 'usage.daily' },
+  { id: 'week', label: 'usage.weekly' },
+];
+
+const GROUPINGS: { id: UsageGrouping; label: MessageKey }[] = [
+  { id: 'style', label: 'usage.byStyle' },
+  { id: 'key', label: 'usage.byKey' },
+];
+
+const formatCost = (value: number) => formatNumber(value, { style: 'currency', currency: 'USD', maximumFractionDigits: 4 });
+
+const toggleClasses = (active: boolean) => `px-3 py-1 rounded-full text-xs font-semibold transition-colors ${active ? 'bg-olive text-cream' : 'text-dark-olive/70 dark:text-cream/70 hover:bg-dark-olive/5 dark:hover:bg-olive/10'}`;
+
+const totalsOf = (records: UsageRecord[], prices: PriceTable) => ({
+  calls: records.length,
+  failures: records.filter(record => record.outcome === 'error').length,
+  cacheHits: records.filter(record => record.outcome === 'cached').length,
+  tokens: records.reduce((sum, record) => sum + record.totalTokens, 0),
+  cost: records.reduce((sum, record) => sum + estimateCost(record, prices), 0),
+});
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ styles }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [period, setPeriod] = useState<UsagePeriod>('day');
+  const [grouping, setGrouping] = useState<UsageGrouping>('style');
+  const [prices, setPrices] = useState<PriceTable>(loadPriceTable);
+  const [isPriceTableOpen, setIsPriceTableOpen] = useState(false);
+  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listUsageRecords()
+      .then(result => {
+        if (!cancelled) setRecords(result);
+      })
+      .catch(err => {
+        console.error('Failed to load usage:', err);
+        if (!cancelled) setLoadError(t('usage.loadFailed'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const rows = useMemo(() => summarizeUsage(records, period, grouping, prices), [records, period, grouping, prices]);
+
+  const cards = useMemo(() => {
+    const now = Date.now();
+    return [
+      { label: t('usage.today'), ...totalsOf(records.filter(record => record.createdAt >= periodStart(now, 'day')), prices) },
+      { label: t('usage.thisWeek'), ...totalsOf(records.filter(record => record.createdAt >= periodStart(now, 'week')), prices) },
+    ];
+  }, [records, prices]);
+
+  // Models with a price plus any model that shows up in the records.
+  const pricedModels = useMemo(() => [...new Set([...Object.keys(prices), ...records.map(record => record.model)])].sort(), [prices, records]);
+
+  const groupLabel = (group: string | null) => {
+    if (grouping === 'key') return group ?? t('usage.defaultKey');
+    if (!group) return t('usage.noStyle');
+    return styles.find(style => style.id === group)?.name ?? group;
+  };
+
+  const periodLabel = (start: number) => period === 'day'
+    ? formatDate(start, { dateStyle: 'medium' })
+    : t('usage.weekOf', { date: formatDate(start, { dateStyle: 'medium' }) });
+
+  const handlePriceChange = (model: string, field: 'inputPerMillion' | 'outputPerMillion', value: string) => {
+    const current = prices[model] ?? { inputPerMillion: 0, outputPerMillion: 0 };
+    const next = { ...prices, [model]: { ...current, [field]: Math.max(0, Number(value) || 0) } };
+    setPrices(next);
+    savePriceTable(next);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([usageToCsv(records, prices)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tao-anh-trend-usage-${new Date().getTime()}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearUsageRecords();
+      setRecords([]);
+    } catch (err) {
+      console.error('Failed to clear usage:', err);
+      setLoadError(t('usage.clearFailed'));
+    }
+    setIsConfirmingClear(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-olive dark:border-light-olive"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-dark-olive/90 dark:text-cream/90">{t('usage.title')}</h2>
+        <div className="flex gap-3 text-sm">
+          <button onClick={handleExport} disabled={records.length === 0} className="font-semibold text-olive dark:text-light-olive hover:underline disabled:opacity-50">
+            {t('usage.exportCsv')}
+          </button>
+          {isConfirmingClear ? (
+            <span className="flex gap-2">
+              <button onClick={() => setIsConfirmingClear(false)} className="font-semibold hover:underline">{t('common.cancel')}</button>
+              <button onClick={handleClear} className="font-bold text-red-500 hover:underline">{t('usage.clearConfirm')}</button>
+            </span>
+          ) : (
+            <button onClick={() => setIsConfirmingClear(true)} disabled={records.length === 0} className="font-semibold text-red-500 hover:underline disabled:opacity-50">
+              {t('usage.clear')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loadError && <p className="text-red-400 text-sm text-center">{loadError}</p>}
+
+      <div className="grid grid-cols-2 gap-4">
+        {cards.map(card => (
+          <div key={card.label} className="p-4 rounded-lg bg-dark-olive/5 dark:bg-olive/20">
+            <p className="text-xs font-semibold text-dark-olive/60 dark:text-cream/60">{card.label}</p>
+            <p className="text-2xl font-bold">{formatCost(card.cost)}</p>
+            <p className="text-xs text-dark-olive/70 dark:text-cream/70">
+              {t('usage.calls', { count: card.calls })} · {t('usage.failures', { count: card.failures })} · {t('usage.cacheHits', { count: card.cacheHits })} · {t('usage.tokens', { count: card.tokens })}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {records.length === 0 ? (
+        <p className="text-center text-dark-olive/60 dark:text-cream/60 py-12">{t('usage.empty')}</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-wrap justify-between gap-2">
+            <div className="flex p-1 bg-dark-olive/10 dark:bg-olive/20 rounded-full">
+              {PERIODS.map(option => (
+                <button key={option.id} onClick={() => setPeriod(option.id)} className={toggleClasses(period === option.id)}>{t(option.label)}</button>
+              ))}
+            </div>
+            <div className="flex p-1 bg-dark-olive/10 dark:bg-olive/20 rounded-full">
+              {GROUPINGS.map(option => (
+                <button key={option.id} onClick={() => setGrouping(option.id)} className={toggleClasses(grouping === option.id)}>{t(option.label)}</button>
+              ))}
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-dark-olive/60 dark:text-cream/60">
+                  <th className="py-2 pr-2">{t('usage.period')}</th>
+                  <th className="py-2 pr-2">{grouping === 'style' ? t('usage.style') : t('usage.key')}</th>
+                  <th className="py-2 pr-2 text-right">{t('usage.callsHeader')}</th>
+                  <th className="py-2 pr-2 text-right">{t('usage.cacheHeader')}</th>
+                  <th className="py-2 pr-2 text-right">{t('usage.tokensHeader')}</th>
+                  <th className="py-2 pr-2 text-right">{t('usage.latencyHeader')}</th>
+                  <th className="py-2 text-right">{t('usage.costHeader')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={`${row.periodStart}:${row.group}`} className="border-t border-olive/20">
+                    <td className="py-2 pr-2 whitespace-nowrap">{periodLabel(row.periodStart)}</td>
+                    <td className="py-2 pr-2 truncate max-w-[10rem]">{groupLabel(row.group)}</td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap">
+                      {formatNumber(row.calls)}
+                      {row.failures > 0 && <span className="text-red-500"> ({formatNumber(row.failures)})</span>}
+                    </td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap">{formatNumber(row.cacheHits)}</td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap" title={t('usage.tokenSplit', { input: row.inputTokens, output: row.outputTokens })}>
+                      {formatNumber(row.inputTokens + row.outputTokens)}
+                    </td>
+                    <td className="py-2 pr-2 text-right whitespace-nowrap">{formatNumber(row.latencyMs / row.calls / 1000, { maximumFractionDigits: 1 })}s</td>
+                    <td className="py-2 text-right whitespace-nowrap">{formatCost(row.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="p-4 rounded-lg bg-dark-olive/5 dark:bg-olive/20">
+        <button onClick={() => setIsPriceTableOpen(open => !open)} className="text-sm font-semibold text-olive dark:text-light-olive hover:underline">
+          {isPriceTableOpen ? t('usage.hidePrices') : t('usage.editPrices')}
+        </button>
+        {isPriceTableOpen && (
+          <div className="mt-3 space-y-2">
+            <p className="text-xs text-dark-olive/60 dark:text-cream/60">{t('usage.pricesHint')}</p>
+            {pricedModels.map(model => (
+              <div key={model} className="grid grid-cols-[1fr_6rem_6rem] items-center gap-2 text-xs">
+                <span className="font-mono truncate" title={model}>{model}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={prices[model]?.inputPerMillion ?? 0}
+                  onChange={(e) => handlePriceChange(model, 'inputPerMillion', e.target.value)}
+                  className="p-1 bg-cream dark:bg-dark-olive border border-olive/30 rounded"
+                  aria-label={t('usage.inputPrice', { model })}
+                  title={t('usage.inputPrice', { model })}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={prices[model]?.outputPerMillion ?? 0}
+                  onChange={(e) => handlePriceChange(model, 'outputPerMillion', e.target.value)}
+                  className="p-1 bg-cream dark:bg-dark-olive border border-olive/30 rounded"
+                  aria-label={t('usage.outputPrice', { model })}
+                  title={t('usage.outputPrice', { model })}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -1,20 +1,75 @@
 import { Style } from './types';
+import { t } from './services/i18n';
+
+// Names and labels are getters so they follow the current locale, keyed by style, slot and variable id.
 
 export const STYLES: Style[] = [
   {
     id: 'polaroid',
-    name: 'Polaroid',
-    prompt: "Create a Polaroid-style photo of a couple. The photo should have a nostalgic, slightly blurred look with a direct flash effect as if taken in a dimly lit room. Do not alter their faces. The background should be a simple white curtain. The man is playfully poking the woman's cheek, and she is smiling with her eyes closed. Both are expressing genuine joy and affection."
+    get name() { return t('builtinStyles.polaroid.name'); },
+    inputs: [
+      { role: 'man', get label() { return t('builtinStyles.polaroid.man'); }, required: true },
+      { role: 'woman', get label() { return t('builtinStyles.polaroid.woman'); }, required: true },
+    ],
+    variables: [
+      {
+        name: 'background',
+        get label() { return t('builtinStyles.polaroid.background'); },
+        type: 'choice',
+        default: 'a simple white curtain',
+        options: [
+          { value: 'a simple white curtain', get label() { return t('builtinStyles.polaroid.background.whiteCurtain'); } },
+          { value: 'a warm beige curtain', get label() { return t('builtinStyles.polaroid.background.beigeCurtain'); } },
+          { value: 'a dark red velvet curtain', get label() { return t('builtinStyles.polaroid.background.redVelvet'); } },
+          { value: 'a plain light gray wall', get label() { return t('builtinStyles.polaroid.background.grayWall'); } },
+        ],
+      },
+    ],
+    prompt: "Create a Polaroid-style photo of a couple. The photo should have a nostalgic, slightly blurred look with a direct flash effect as if taken in a dimly lit room. Do not alter their faces. The background should be {{background}}. The man is playfully poking the woman's cheek, and she is smiling with her eyes closed. Both are expressing genuine joy and affection."
   },
   {
     id: '3d-hot-trend',
-    name: '3D Hot Trend',
-    prompt: "Use the nano-banana model to create a 1/7 scale commercialized figure of the character in the illustration, in a realistic style and environment. Place the figure on a computer desk, using a circular transparent acrylic base without any text. On the computer screen, display the ZBrush modeling process of the figure. Next to the computer screen, place a BANDAI-style toy packaging box printed with the original artwork."
+    get name() { return t('builtinStyles.3d-hot-trend.name'); },
+    inputs: [
+      { role: 'character illustration', get label() { return t('builtinStyles.3d-hot-trend.character'); }, required: true },
+    ],
+    variables: [
+      {
+        name: 'scale',
+        get label() { return t('builtinStyles.3d-hot-trend.scale'); },
+        type: 'choice',
+        default: '1/7',
+        options: [
+          { value: '1/4' },
+          { value: '1/6' },
+          { value: '1/7' },
+          { value: '1/12' },
+        ],
+      },
+    ],
+    prompt: "Use the nano-banana model to create a {{scale}} scale commercialized figure of the character in the illustration, in a realistic style and environment. Place the figure on a computer desk, using a circular transparent acrylic base without any text. On the computer screen, display the ZBrush modeling process of the figure. Next to the computer screen, place a BANDAI-style toy packaging box printed with the original artwork."
   },
   {
     id: 'photo-restoration',
-    name: 'Phục chế ảnh',
-    prompt: "Use the provided photo as the reference image. Restore and inpaint only the damaged/missing areas while preserving the original face, pose and expression. Remove all stains, peeling paper, scratches, cracks and dirt; reconstruct missing facial features and clothing realistically and consistently with the reference. Restore natural, realistic colorization (warm neutral skin tones, natural black/dark-brown hair) while keeping a subtle vintage film look if necessary. Preserve original lighting, shadows and grain; reconstruct fine details (eyes, eyelashes, hair strands, lips, collar seam, texture of fabric). Keep identity and proportions exactly — do NOT change age, expression, face shape or add accessories (no glasses, jewelry, modern props). Recreate a plain neutral background matching the original tone.\nFinal output: photorealistic, high-detail restoration suitable for printing. Output resolution: 3840×2160 (4K) — if that is not available, 1920×1080 (Full HD). Use the image as the primary guide and only fill masked damaged areas."
+    get name() { return t('builtinStyles.photo-restoration.name'); },
+    inputs: [
+      { role: 'damaged photo', get label() { return t('builtinStyles.photo-restoration.damaged'); }, required: true },
+    ],
+    variables: [
+      {
+        name: 'output_resolution',
+        get label() { return t('builtinStyles.photo-restoration.output_resolution'); },
+        type: 'choice',
+        default: '3840×2160 (4K) — if that is not available, 1920×1080 (Full HD)',
+        options: [
+          { value: '3840×2160 (4K) — if that is not available, 1920×1080 (Full HD)', get label() { return t('builtinStyles.photo-restoration.output_resolution.4k'); } },
+          { value: '2560×1440 (2K)', label: '2K' },
+          { value: '1920×1080 (Full HD)', label: 'Full HD' },
+        ],
+      },
+    ],
+    prompt: "Use the provided photo as the reference image. Restore and inpaint only the damaged/missing areas while preserving the original face, pose and expression. Remove all stains, peeling paper, scratches, cracks and dirt; reconstruct missing facial features and clothing realistically and consistently with the reference. Restore natural, realistic colorization (warm neutral skin tones, natural black/dark-brown hair) while keeping a subtle vintage film look if necessary. Preserve original lighting, shadows and grain; reconstruct fine details (eyes, eyelashes, hair strands, lips, collar seam, texture of fabric). Keep identity and proportions exactly — do NOT change age, expression, face shape or add accessories (no glasses, jewelry, modern props). Recreate a plain neutral background matching the original tone.\nFinal output: photorealistic, high-detail restoration suitable for printing. Output resolution: {{output_resolution}}. Use the image as the primary guide and only fill masked damaged areas.",
+    maskInstruction: "This black-and-white image is a mask for Image 1. White areas mark the damaged regions to repair and fill in; black areas must stay exactly as they are in Image 1."
   }
 ];
 
@@ -0,0 +1,422 @@
+import type { Catalog } from '../services/i18n';
+
+const en: Catalog = {
+  'upload.optionalSlot': '{label} (optional)',
+  'upload.imageN': 'Photo {n}',
+  'upload.removeSlot': 'Remove upload slot',
+  'upload.addSlot': 'Add upload slot',
+  'upload.sizeInfo': 'Original: {original} ({originalType})\nSent: {processed} ({processedType})',
+  'upload.unknownType': 'unknown',
+  'upload.processingFailed': 'Could not process; the original will be sent',
+
+  'variations.label': 'Variations per photo',
+  'variations.choose': 'Choose option {n}',
+  'variations.option': 'Option {n}',
+  'variations.unstar': 'Unstar',
+  'variations.star': 'Star',
+  'variations.position': 'Option {n}/{total}',
+  'variations.failed': { one: '{count} option failed', other: '{count} options failed' },
+  'variations.keepStarred': 'Keep starred only',
+
+  'errors.invalidKey': 'The API key you entered is invalid or has expired.\n\nHow to fix it:\n1. Check that you copied the whole key.\n2. Create a new key in Google AI Studio.',
+  'errors.quota': 'Your API key has run out of quota.\n\nHow to fix it:\n1. Check your quota on the key management page in Google AI Studio.\n2. Try again later or use a different key.',
+  'errors.safety': 'Your request was blocked for safety reasons{category}. The AI refuses sensitive or inappropriate content.\n\nHow to fix it:\n- Use a different, friendlier photo.\n- If you wrote a custom prompt, keep its content positive.',
+  'errors.refusal': 'The AI model declined your request. This usually happens when it does not understand the request or the photo is not suitable.\n\nHow to fix it:\n- Try a sharper photo.\n- Simplify your custom prompt (if any).',
+  'errors.refusalText': '\n\nThe AI replied: "{text}"',
+  'errors.noApiKey': 'No API key found. Enter your own API key in Settings to continue.',
+  'errors.noProviderUrl': 'No image server address is configured. Enter one in Settings.',
+  'errors.network': 'Could not reach the server. Check your network connection and try again.',
+  'errors.timeout': 'The server took too long to respond, so the request was cancelled. Please try again later.',
+  'errors.cancelled': 'The request was cancelled.',
+  'errors.unknown': 'An unexpected error occurred: {message}. Please try again later.',
+  'errors.defaultKeyQuota': 'Sorry, this site\'s free usage has run out. Enter your own API key in Settings to continue.',
+  'errors.noImageToImage': '{provider} does not support generating from a reference photo.',
+  'errors.singleInputOnly': '{provider} only accepts one input photo per generation.',
+  'errors.noImages': 'Please upload at least one photo.',
+  'errors.missingSlots': 'Please upload: {slots}.',
+  'errors.noStyleOrPrompt': 'Please choose a style or enter a custom prompt.',
+  'errors.reuseImage': 'This image cannot be reused. Try downloading it and uploading it again.',
+  'errors.invalidStyle': 'Please choose a valid style.',
+  'errors.noCompleteSet': 'Please complete at least one photo set to generate.',
+  'errors.batchDefaultKeyQuota': 'This site\'s usage has run out. Enter your API key, then press "Resume" to process the remaining photos.',
+  'errors.batchQuota': { one: 'Your API key is out of quota. {count} unprocessed photo was kept; you can resume later.', other: 'Your API key is out of quota. {count} unprocessed photos were kept; you can resume later.' },
+  'errors.nothingToDownload': 'There are no images to download.',
+  'errors.title': 'Something went wrong',
+
+  'apiKey.intro': 'Without a key, the app uses the API key of the Google AI Studio account you are signed in to. For unlimited use, or when the default key runs out, you can enter your own key.',
+  'apiKey.getKey': 'Click here to get a free API key from Google',
+  'apiKey.manage': 'Check your quota and manage keys here',
+  'apiKey.placeholder': 'Paste your API key here',
+  'apiKey.invalid': 'Invalid API key.',
+  'apiKey.empty': 'The API key cannot be empty.',
+  'apiKey.validateFailed': 'Unknown error while validating the key.',
+  'apiKey.proxyActive': 'Using the proxy at {url}; the key lives on the server, so none is needed here.',
+
+  'common.cancel': 'Cancel',
+  'common.done': 'Done',
+  'common.back': 'Back',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.undo': 'Undo',
+  'common.redo': 'Redo',
+
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+
+  'single.loading': 'Generating your image, please wait...',
+  'single.loadingHint': 'This may take a moment. Thanks for your patience!',
+  'single.uploadTitle': 'Upload photos',
+  'single.chooseStyle': 'Choose a style',
+  'single.customPrompt': 'Custom prompt',
+  'single.customPromptPlaceholder': 'Type your prompt here...',
+  'single.saveAsStyle': 'Save this prompt as a style',
+  'single.generate': 'Generate',
+
+  'tabs.single': 'Single image',
+  'tabs.batch': 'Batch',
+  'tabs.history': 'History',
+  'tabs.usage': 'Usage',
+
+  'status.usingProvider': 'Using {provider}',
+  'status.usingDefaultKey': 'Using the default AI Studio key',
+  'status.ownKeyActive': 'Personal API key active',
+  'status.usingKeyPool': { one: 'Using your {count} personal key', other: 'Using your {count} personal keys' },
+  'status.keysLocked': 'Your personal keys are locked',
+  'status.usingProxy': 'Using the Gemini proxy',
+
+  'app.title': 'TREND PHOTO MAKER',
+
+  'resume.banner': 'You have an unfinished batch ({done}/{total} photos done) from {date}.',
+  'resume.continue': 'Resume batch',
+  'resume.discard': 'Discard',
+
+  'result.title': 'Your result!',
+  'result.enhancing': 'Enhancing image...',
+  'result.generationTimeline': 'Generation:',
+  'result.enhancementTimeline': 'Enhancement:',
+  'result.enhanceTitle': 'Enhance image quality',
+  'result.download': 'Download',
+  'result.downloadImage': 'Download image',
+  'result.useAsInput': 'Use this image as input',
+  'result.startOver': 'Make another image',
+
+  'compare.original': 'Original',
+  'compare.result': 'Result',
+  'compare.withOriginal': 'Compare with original',
+  'compare.beforeEnhance': 'Before enhancement',
+  'compare.afterEnhance': 'After enhancement',
+  'compare.enhancement': 'Compare before/after enhancement',
+  'compare.short': 'Compare',
+  'compare.modeSplit': 'Slider',
+  'compare.modeSide': 'Side by side',
+  'compare.modeFlip': 'Press and hold',
+  'compare.close': 'Close comparison',
+  'compare.holdToSee': 'Press and hold to see the {label}',
+
+  'batch.chooseStyle': 'Choose a style for the batch',
+  'batch.uploadTitle': 'Upload photos set by set',
+  'batch.setN': 'Set {n}',
+  'batch.removeSet': 'Remove set {n}',
+  'batch.useSharedVariables': 'Use the batch variables',
+  'batch.customizeVariables': 'Customize variables for this set',
+  'batch.concurrency': 'Photos processed at once',
+  'batch.generate': 'Generate batch',
+  'batch.running': 'Processing batch...',
+  'batch.pausing': 'Waiting for in-flight photos to finish before pausing...',
+  'batch.paused': 'Paused',
+  'batch.loadingHint': 'This can take longer depending on the number of photos.',
+  'batch.resume': 'Resume',
+  'batch.pause': 'Pause',
+  'batch.resultsTitle': 'Batch results',
+  'batch.resultN': 'Result {n}',
+  'batch.downloadImage': 'Download image',
+  'batch.error': 'Error',
+  'batch.queued': 'Queued',
+  'batch.retrying': 'Retrying (attempt {attempt})',
+  'batch.resumeRemaining': { one: 'Resume ({count} photo left)', other: 'Resume ({count} photos left)' },
+  'batch.retryFailed': { one: 'Retry {count} failed photo', other: 'Retry {count} failed photos' },
+  'batch.namingPattern': 'File names in the ZIP',
+  'batch.namingTokens': 'Available: {tokens}',
+  'batch.downloadAll': 'Download all (.zip)',
+  'batch.downloadAllImages': 'Download all images',
+  'batch.startOver': 'Start another batch',
+
+  'mask.editArea': 'Edit painted area',
+  'mask.paintArea': 'Paint area to change',
+  'mask.clear': 'Remove mask',
+  'mask.hint': 'Paint the damaged spots red. The AI only changes the painted areas and keeps the rest as is.',
+  'mask.brush': 'Brush',
+  'mask.eraser': 'Eraser',
+  'mask.brushSize': 'Brush size',
+  'mask.clearAll': 'Clear all',
+  'mask.imageAlt': 'Image to paint',
+  'mask.save': 'Save mask',
+
+  'progress.chunks': { one: '{count} chunk', other: '{count} chunks' },
+  'progress.total': 'Total',
+  'progress.encoding': 'Preparing image',
+  'progress.requesting': 'Sending request',
+  'progress.streaming': 'Receiving result',
+  'progress.decoding': 'Decoding image',
+  'progress.done': 'Done',
+  'progress.pass': '{label} (pass {pass}/{total})',
+
+  'prompt.hideFinal': 'Hide final prompt',
+  'prompt.showFinal': 'Show final prompt',
+
+  'styles.manage': 'Manage styles',
+  'styles.yours': 'Your style',
+  'styles.copyName': '{name} (copy)',
+  'styles.duplicated': 'Duplicated "{name}".',
+  'styles.saved': 'Saved style "{name}".',
+  'styles.saveFailed': 'Could not save the style.',
+  'styles.imported': { one: 'Imported {count} style.', other: 'Imported {count} styles.' },
+  'styles.readFailed': 'Could not read the style file.',
+  'styles.name': 'Style name',
+  'styles.namePlaceholder': 'For example: Korean wedding photo',
+  'styles.prompt': 'Prompt',
+  'styles.promptPlaceholder': 'Describe the image you want...',
+  'styles.maskInstruction': 'Mask instruction (optional)',
+  'styles.maskInstructionHint': 'When set, users can paint the area to change on the first photo. The instruction (in English) is sent along with the mask.',
+  'styles.maskInstructionPlaceholder': 'For example: White areas mark the regions to repair; keep black areas unchanged.',
+  'styles.inputs': 'Input photos',
+  'styles.inputsHint': 'The role (in English) is sent with each photo so the AI knows who is who, for example "man", "woman".',
+  'styles.slotLabelPlaceholder': 'Label, e.g. Groom photo',
+  'styles.slotRolePlaceholder': 'Role, e.g. man',
+  'styles.required': 'Required',
+  'styles.removeSlot': 'Remove photo {n}',
+  'styles.addSlot': 'Add input photo',
+  'styles.variables': 'Prompt variables',
+  'styles.variablesHint': 'Write {{variable_name}} in the prompt, then declare the variable here so users can pick a value when generating.',
+  'styles.variableNamePlaceholder': 'Variable name, e.g. background',
+  'styles.variableLabelPlaceholder': 'Label, e.g. Background',
+  'styles.removeVariable': 'Remove variable {n}',
+  'styles.typeText': 'Text',
+  'styles.typeChoice': 'Choice',
+  'styles.defaultValue': 'Default value',
+  'styles.optionsPlaceholder': 'One allowed value per line',
+  'styles.addVariable': 'Add variable',
+  'styles.save': 'Save style',
+  'styles.yourStyles': 'Your styles',
+  'styles.empty': 'You have no styles yet. Create one or import a file.',
+  'styles.deleteConfirm': 'Delete "{name}"?',
+  'styles.edit': 'Edit',
+  'styles.duplicate': 'Duplicate',
+  'styles.builtIn': 'Built-in styles',
+  'styles.import': 'Import file',
+  'styles.export': 'Export file',
+  'styles.new': 'New style',
+  'styles.defaultSlotLabel': 'Photo',
+
+  'footer.contactLabel': 'Contact us for help',
+  'footer.contact': 'CONTACT US for help',
+
+  'export.formatOriginal': 'Original',
+  'export.formatPng': 'PNG',
+  'export.formatJpeg': 'JPEG',
+  'export.formatWebp': 'WebP',
+  'export.failed': 'Could not export the image. Try again with different settings.',
+  'export.format': 'Format',
+  'export.quality': 'Quality: {percent}%',
+  'export.aspect': 'Aspect ratio',
+  'export.fitCrop': 'Crop to fit',
+  'export.fitPad': 'Add padding',
+  'export.padColor': 'Padding color',
+  'export.exactSize': 'Exact size (px)',
+  'export.width': 'Width',
+  'export.height': 'Height',
+  'export.auto': 'Auto',
+  'export.firstImage': '(first image)',
+  'export.reset': 'Reset',
+  'export.exporting': 'Exporting...',
+  'export.download': 'Download',
+  'export.aspectOriginal': 'Keep original',
+  'export.aspectTiktok': 'TikTok 9:16',
+  'export.aspectSquare': 'Square 1:1',
+  'export.aspectInstagram': 'Instagram 4:5',
+  'export.title': 'Export image',
+  'export.titleMany': 'Export {count} images',
+
+  'history.loadFailed': 'Could not load history. Your browser may be blocking local storage.',
+  'history.deleteFailed': 'Could not delete the image from history.',
+  'history.title': 'Generation history',
+  'history.filter': 'Filter by style',
+  'history.allStyles': 'All styles',
+  'history.empty': 'No images saved yet.',
+  'history.delete': 'Delete from history',
+  'history.enhanced': 'Enhanced x{count}',
+  'history.deleteConfirm': 'Delete this image from history?',
+  'history.inputN': 'Original {n}',
+
+  'refine.title': 'Keep editing',
+  'refine.original': 'Original',
+  'refine.version': 'Version {n}: {prompt}',
+  'refine.branch': 'Branch from here',
+  'refine.placeholder': 'For example: "make the curtains beige", "remove the glasses"',
+  'refine.branchHint': 'A new request will branch from the version you are viewing.',
+  'refine.noConversation': 'This provider only edits the current image and does not remember earlier turns.',
+  'refine.submit': 'Send request',
+
+  'providers.failureNone': 'No error (always succeeds)',
+  'providers.failureSafety': 'Safety block (SAFETY)',
+  'providers.failureQuota': 'Quota exhausted (RESOURCE_EXHAUSTED)',
+  'providers.failureRefusal': 'Model refusal (MODEL_ERROR)',
+  'providers.label': 'Image provider',
+  'providers.serverUrl': 'Server address',
+  'providers.demoHint': 'Results are drawn right in the browser, with no API key or network needed.',
+  'providers.simulateFailure': 'Simulate failure',
+  'providers.capImageToImage': 'Generate from a reference photo',
+  'providers.capMultipleInputs': 'Multiple input photos',
+  'providers.capUpscaling': 'Quality enhancement',
+  'providers.capInpainting': 'Masked edits (inpainting)',
+  'providers.capConversation': 'Conversational editing',
+  'providers.checking': 'Checking...',
+  'providers.check': 'Test connection',
+  'providers.checkOk': 'Connected',
+  'providers.demo': 'Demo mode (offline)',
+  'providers.urlRequired': 'Please enter a server address.',
+  'providers.connectFailed': 'Could not connect to the server.',
+  'providers.proxyUrl': 'Gemini proxy (optional)',
+  'providers.proxyHint': 'With a proxy address, images are made through a server that holds the key, and the key list below is not used.',
+
+  'stylePack.invalidInputs': '{label}: the input photo list is invalid.',
+  'stylePack.tooManyInputs': '{label}: at most {max} input photos.',
+  'stylePack.invalidItem': '{label}: invalid.',
+  'stylePack.slotRole': '{label}: role is missing or too long.',
+  'stylePack.slotLabel': '{label}: display label is missing or too long.',
+  'stylePack.slotRequired': '{label}: "required" must be true or false.',
+  'stylePack.noOptions': '{label}: a choice variable needs at least one value.',
+  'stylePack.tooManyOptions': '{label}: at most {max} values.',
+  'stylePack.invalidOption': '{label}: a choice value is invalid.',
+  'stylePack.invalidOptionLabel': '{label}: the label of value "{value}" is invalid.',
+  'stylePack.invalidVariables': '{label}: the variable list is invalid.',
+  'stylePack.tooManyVariables': '{label}: at most {max} variables.',
+  'stylePack.variableName': '{label}: variable names may only contain letters, digits and underscores.',
+  'stylePack.variableLabel': '{label}: display label is missing.',
+  'stylePack.variableType': '{label}: variable type must be "choice" or "text".',
+  'stylePack.variableDefault': '{label}: default value is missing.',
+  'stylePack.variableDefaultChoice': '{label}: the default value must be one of the choices.',
+  'stylePack.duplicateVariable': '{label}: variable "{name}" is declared twice.',
+  'stylePack.notObject': '{label}: not a valid object.',
+  'stylePack.noName': '{label}: style name is missing.',
+  'stylePack.nameTooLong': '{label}: style name is longer than {max} characters.',
+  'stylePack.noPrompt': '{label}: prompt is missing.',
+  'stylePack.promptTooLong': '{label}: prompt is longer than {max} characters.',
+  'stylePack.invalidId': '{label}: invalid id.',
+  'stylePack.maskInstruction': '{label}: the mask instruction is invalid or longer than {max} characters.',
+  'stylePack.undeclaredVariable': '{label}: the prompt uses variable {{{name}}} without declaring it.',
+  'stylePack.invalidJson': 'The file is not valid JSON.',
+  'stylePack.invalidFormat': 'The file is not a style pack.',
+  'stylePack.unsupportedVersion': 'This style pack version is not supported. Please update the app.',
+  'stylePack.empty': 'The style pack contains no styles.',
+  'stylePack.slotN': '{label}, photo {n}',
+  'stylePack.variableN': '{label}, variable {n}',
+  'stylePack.style': 'Style',
+  'stylePack.styleN': 'Style {n}',
+
+  'keys.defaultLabel': 'Key {n}',
+  'keys.stateReady': 'Ready',
+  'keys.stateCooldown': 'Out of quota · retry in {remaining}',
+  'keys.stateInvalid': 'Invalid · retry in {remaining}',
+  'keys.duplicate': 'This key is already in the list.',
+  'keys.deleteConfirm': 'Delete "{label}"?',
+  'keys.primary': 'Primary',
+  'keys.makePrimary': 'Make primary',
+  'keys.check': 'Check',
+  'keys.rotationHint': 'The primary key is used first. When a key runs out of quota or is invalid, the app switches to the next key and rests the bad one for a while.',
+  'keys.labelPlaceholder': 'Label, e.g. Personal key',
+  'keys.add': 'Add key',
+  'keys.servedBy': 'Served by {label}',
+
+  'vault.title': 'Key storage',
+  'vault.modePlain': 'Save in this browser',
+  'vault.modePlainHint': 'Keys are kept as plain text in localStorage.',
+  'vault.modeEncrypted': 'Encrypt with a passphrase',
+  'vault.modeEncryptedHint': 'Keys are encrypted; enter the passphrase on first use in each session.',
+  'vault.modeMemory': 'Don\'t remember',
+  'vault.modeMemoryHint': 'Keys stay in memory only and are gone when the page reloads.',
+  'vault.passphrase': 'Passphrase',
+  'vault.confirmPassphrase': 'Confirm passphrase',
+  'vault.passphraseTooShort': 'The passphrase needs at least {min} characters.',
+  'vault.passphraseMismatch': 'The passphrases don\'t match.',
+  'vault.apply': 'Apply',
+  'vault.changePassphrase': 'Change passphrase',
+  'vault.autoLock': 'Auto-lock when idle for',
+  'vault.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'vault.lockNow': 'Lock now',
+  'vault.lockedTitle': 'Your keys are locked',
+  'vault.lockedHint': 'Enter the passphrase to decrypt your keys for this session.',
+  'vault.unlockForRequest': 'This request needs your API keys. Enter the passphrase to continue.',
+  'vault.unlock': 'Unlock',
+  'vault.wrongPassphrase': 'Wrong passphrase.',
+  'vault.forgot': 'Forgot the passphrase?',
+  'vault.forgetConfirm': 'Delete every encrypted key? You will have to add them again.',
+  'vault.forget': 'Delete keys',
+
+  'usage.title': 'Calls and cost',
+  'usage.loadFailed': 'Could not load usage data.',
+  'usage.clearFailed': 'Could not clear usage data.',
+  'usage.exportCsv': 'Export CSV',
+  'usage.clear': 'Clear data',
+  'usage.clearConfirm': 'Clear all',
+  'usage.today': 'Today',
+  'usage.thisWeek': 'This week',
+  'usage.calls': { one: '{count} call', other: '{count} calls' },
+  'usage.failures': { one: '{count} failed', other: '{count} failed' },
+  'usage.tokens': { one: '{count} token', other: '{count} tokens' },
+  'usage.empty': 'No calls recorded yet.',
+  'usage.daily': 'Daily',
+  'usage.weekly': 'Weekly',
+  'usage.byStyle': 'By style',
+  'usage.byKey': 'By key',
+  'usage.period': 'Period',
+  'usage.style': 'Style',
+  'usage.key': 'Key',
+  'usage.callsHeader': 'Calls (failed)',
+  'usage.tokensHeader': 'Tokens',
+  'usage.latencyHeader': 'Avg latency',
+  'usage.costHeader': 'Est. cost',
+  'usage.tokenSplit': '{input} in · {output} out',
+  'usage.weekOf': 'Week of {date}',
+  'usage.defaultKey': 'Default key',
+  'usage.noStyle': 'Custom prompt / enhancement',
+  'usage.editPrices': 'Edit price table',
+  'usage.hidePrices': 'Hide price table',
+  'usage.pricesHint': 'USD per million input and output tokens. Costs are estimates from the token counts the API reports.',
+  'usage.inputPrice': 'Input token price for {model}',
+  'usage.outputPrice': 'Output token price for {model}',
+  'usage.cacheHits': { one: '{count} cache hit', other: '{count} cache hits' },
+  'usage.cacheHeader': 'Cache hits',
+
+  'cache.title': 'Result cache',
+  'cache.enable': 'Keep results for reuse',
+  'cache.hint': 'When you generate again with the exact same photos, prompt, model and settings, you can reuse the saved result instead of paying for a new request.',
+  'cache.maxSize': 'Maximum size',
+  'cache.stats': { one: '{count} result · {size} MB', other: '{count} results · {size} MB' },
+  'cache.clear': 'Clear cache',
+  'cache.choiceTitle': 'A saved result exists',
+  'cache.choiceSingle': 'This request is identical to one made on {date}. Reuse that result or generate a new one?',
+  'cache.choiceBatch': { one: '{count} of {total} tasks has a saved result (from {date}). Reuse it or generate everything fresh?', other: '{count} of {total} tasks have saved results (oldest from {date}). Reuse them or generate everything fresh?' },
+  'cache.useCached': 'Use cached result',
+  'cache.generateFresh': 'Generate fresh',
+  'cache.fromCache': 'Result from cache',
+  'cache.badge': 'Cached',
+
+  'builtinStyles.polaroid.name': 'Polaroid',
+  'builtinStyles.polaroid.man': 'Photo of the man',
+  'builtinStyles.polaroid.woman': 'Photo of the woman',
+  'builtinStyles.polaroid.background': 'Background',
+  'builtinStyles.polaroid.background.whiteCurtain': 'White curtain',
+  'builtinStyles.polaroid.background.beigeCurtain': 'Beige curtain',
+  'builtinStyles.polaroid.background.redVelvet': 'Red velvet curtain',
+  'builtinStyles.polaroid.background.grayWall': 'Light gray wall',
+  'builtinStyles.3d-hot-trend.name': '3D Hot Trend',
+  'builtinStyles.3d-hot-trend.character': 'Character picture',
+  'builtinStyles.3d-hot-trend.scale': 'Figure scale',
+  'builtinStyles.photo-restoration.name': 'Photo restoration',
+  'builtinStyles.photo-restoration.damaged': 'Photo to restore',
+  'builtinStyles.photo-restoration.output_resolution': 'Output resolution',
+  'builtinStyles.photo-restoration.output_resolution.4k': '4K (or Full HD)',
+};
+
+export default en;
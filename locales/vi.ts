@@ -0,0 +1,423 @@
+import type { Message } from '../services/i18n';
+
+// Source catalog: its keys define MessageKey, so new messages start here.
+const vi = {
+  'upload.optionalSlot': '{label} (tùy chọn)',
+  'upload.imageN': 'Ảnh {n}',
+  'upload.removeSlot': 'Bớt ô tải ảnh',
+  'upload.addSlot': 'Thêm ô tải ảnh',
+  'upload.sizeInfo': 'Ảnh gốc: {original} ({originalType})\nẢnh gửi đi: {processed} ({processedType})',
+  'upload.unknownType': 'không rõ',
+  'upload.processingFailed': 'Không xử lý được, sẽ gửi ảnh gốc',
+
+  'variations.label': 'Số phương án mỗi ảnh',
+  'variations.choose': 'Chọn phương án {n}',
+  'variations.option': 'Phương án {n}',
+  'variations.unstar': 'Bỏ gắn sao',
+  'variations.star': 'Gắn sao',
+  'variations.position': 'Phương án {n}/{total}',
+  'variations.failed': { other: '{count} phương án bị lỗi' },
+  'variations.keepStarred': 'Chỉ giữ ảnh đã gắn sao',
+
+  'errors.invalidKey': 'API Key bạn cung cấp không hợp lệ hoặc đã hết hạn.\n\nCách khắc phục:\n1. Kiểm tra lại xem bạn đã sao chép đúng Key chưa.\n2. Truy cập Google AI Studio để tạo một Key mới.',
+  'errors.quota': 'API Key của bạn đã hết hạn ngạch sử dụng.\n\nCách khắc phục:\n1. Vui lòng kiểm tra hạn ngạch trên trang quản lý Key của Google AI Studio.\n2. Thử lại sau một thời gian hoặc sử dụng một Key khác.',
+  'errors.safety': 'Yêu cầu của bạn đã bị chặn vì lý do an toàn{category}. AI sẽ từ chối các nội dung nhạy cảm hoặc không phù hợp.\n\nCách khắc phục:\n- Vui lòng sử dụng một bức ảnh khác, thân thiện hơn.\n- Nếu dùng lệnh tùy chỉnh, hãy đảm bảo nội dung tích cực.',
+  'errors.refusal': 'Mô hình AI đã từ chối yêu cầu của bạn. Điều này thường xảy ra khi AI không hiểu rõ yêu cầu hoặc hình ảnh cung cấp không phù hợp.\n\nCách khắc phục:\n- Hãy thử dùng một bức ảnh rõ nét hơn.\n- Đơn giản hóa câu lệnh tùy chỉnh (nếu có).',
+  'errors.refusalText': '\n\nPhản hồi của AI: "{text}"',
+  'errors.noApiKey': 'Không tìm thấy API Key. Vui lòng nhập API Key của riêng bạn trong phần Cài đặt để tiếp tục.',
+  'errors.noProviderUrl': 'Chưa cấu hình địa chỉ máy chủ tạo ảnh. Vui lòng nhập địa chỉ trong phần Cài đặt.',
+  'errors.network': 'Không thể kết nối đến máy chủ. Vui lòng kiểm tra kết nối mạng của bạn và thử lại.',
+  'errors.timeout': 'Máy chủ phản hồi quá lâu nên yêu cầu đã bị hủy. Vui lòng thử lại sau.',
+  'errors.cancelled': 'Yêu cầu đã bị hủy.',
+  'errors.unknown': 'Đã xảy ra lỗi không xác định: {message}. Vui lòng thử lại sau.',
+  'errors.defaultKeyQuota': 'Rất tiếc, lượt sử dụng miễn phí của trang web đã hết. Vui lòng nhập API Key của riêng bạn trong phần cài đặt để tiếp tục.',
+  'errors.noImageToImage': '{provider} không hỗ trợ tạo ảnh từ ảnh mẫu.',
+  'errors.singleInputOnly': '{provider} chỉ hỗ trợ một ảnh đầu vào mỗi lần tạo.',
+  'errors.noImages': 'Vui lòng tải lên ít nhất một ảnh.',
+  'errors.missingSlots': 'Vui lòng tải lên: {slots}.',
+  'errors.noStyleOrPrompt': 'Vui lòng chọn một style hoặc nhập lệnh tùy chỉnh.',
+  'errors.reuseImage': 'Không thể sử dụng ảnh này. Vui lòng thử tải về và tải lên lại.',
+  'errors.invalidStyle': 'Vui lòng chọn một style hợp lệ.',
+  'errors.noCompleteSet': 'Vui lòng hoàn thành ít nhất một bộ ảnh để tạo.',
+  'errors.batchDefaultKeyQuota': 'Lượt sử dụng của trang đã hết. Vui lòng nhập API Key của bạn rồi bấm "Tiếp tục" để xử lý các ảnh còn lại.',
+  'errors.batchQuota': { other: 'API Key đã hết hạn ngạch. {count} ảnh chưa xử lý vẫn được giữ lại, bạn có thể tiếp tục sau.' },
+  'errors.nothingToDownload': 'Không có ảnh nào để tải về.',
+  'errors.title': 'Đã xảy ra lỗi',
+
+  'apiKey.intro': 'Nếu bạn không nhập Key nào, ứng dụng sẽ mặc định sử dụng API Key của tài khoản Google AI Studio bạn đang đăng nhập. Khi cần sử dụng không giới hạn hoặc khi Key mặc định hết lượt, bạn có thể nhập Key của riêng mình.',
+  'apiKey.getKey': 'Bấm vào đây để nhận API Key miễn phí từ Google',
+  'apiKey.manage': 'Kiểm tra hạn ngạch và quản lý Key tại đây',
+  'apiKey.placeholder': 'Dán API Key của bạn vào đây',
+  'apiKey.invalid': 'API Key không hợp lệ.',
+  'apiKey.empty': 'API Key không được để trống.',
+  'apiKey.validateFailed': 'Lỗi không xác định khi xác thực Key.',
+  'apiKey.proxyActive': 'Đang dùng proxy {url}; key nằm trên máy chủ nên không cần nhập key ở đây.',
+
+  'common.cancel': 'Hủy',
+  'common.done': 'Xong',
+  'common.back': 'Quay lại',
+  'common.close': 'Đóng',
+  'common.delete': 'Xóa',
+  'common.undo': 'Hoàn tác',
+  'common.redo': 'Làm lại',
+
+  'settings.title': 'Cài đặt',
+  'settings.language': 'Ngôn ngữ',
+
+  'single.loading': 'Đang tạo ảnh, vui lòng chờ...',
+  'single.loadingHint': 'Quá trình này có thể mất một chút thời gian. Cảm ơn bạn đã kiên nhẫn!',
+  'single.uploadTitle': 'Tải ảnh lên',
+  'single.chooseStyle': 'Chọn style',
+  'single.customPrompt': 'Lệnh tùy chỉnh',
+  'single.customPromptPlaceholder': 'Nhập prompt (câu lệnh) của bạn vào đây...',
+  'single.saveAsStyle': 'Lưu lệnh này thành style',
+  'single.generate': 'Tạo Ảnh Ngay',
+
+  'tabs.single': 'Tạo ảnh đơn',
+  'tabs.batch': 'Tạo hàng loạt',
+  'tabs.history': 'Lịch sử',
+  'tabs.usage': 'Chi phí',
+
+  'status.usingProvider': 'Đang sử dụng {provider}',
+  'status.usingDefaultKey': 'Đang sử dụng Key mặc định của AI Studio',
+  'status.ownKeyActive': 'API Key cá nhân đang hoạt động',
+  'status.usingKeyPool': { other: 'Đang sử dụng {count} Key cá nhân của bạn' },
+  'status.keysLocked': 'Key cá nhân đang bị khóa',
+  'status.usingProxy': 'Đang dùng proxy Gemini',
+
+  'app.title': 'TẠO ẢNH TREND',
+
+  'resume.banner': 'Bạn có một lô ảnh chưa hoàn tất ({done}/{total} ảnh đã xong) từ {date}.',
+  'resume.continue': 'Tiếp tục lô ảnh',
+  'resume.discard': 'Bỏ qua',
+
+  'result.title': 'Kết quả của bạn!',
+  'result.enhancing': 'Đang nâng cấp ảnh...',
+  'result.generationTimeline': 'Tạo ảnh:',
+  'result.enhancementTimeline': 'Nâng cấp:',
+  'result.enhanceTitle': 'Nâng cấp chất lượng ảnh',
+  'result.download': 'Tải Về',
+  'result.downloadImage': 'Tải ảnh về',
+  'result.useAsInput': 'Dùng ảnh này tạo tiếp',
+  'result.startOver': 'Tạo ảnh khác',
+
+  'compare.original': 'Ảnh gốc',
+  'compare.result': 'Kết quả',
+  'compare.withOriginal': 'So sánh với ảnh gốc',
+  'compare.beforeEnhance': 'Trước nâng cấp',
+  'compare.afterEnhance': 'Sau nâng cấp',
+  'compare.enhancement': 'So sánh trước/sau nâng cấp',
+  'compare.short': 'So sánh',
+  'compare.modeSplit': 'Thanh trượt',
+  'compare.modeSide': 'Cạnh nhau',
+  'compare.modeFlip': 'Nhấn giữ',
+  'compare.close': 'Đóng so sánh',
+  'compare.holdToSee': 'Nhấn giữ để xem {label}',
+
+  'batch.chooseStyle': 'Chọn style hàng loạt',
+  'batch.uploadTitle': 'Tải ảnh lên theo từng bộ',
+  'batch.setN': 'Bộ {n}',
+  'batch.removeSet': 'Xóa bộ {n}',
+  'batch.useSharedVariables': 'Dùng biến chung của lô',
+  'batch.customizeVariables': 'Tùy chỉnh biến cho bộ này',
+  'batch.concurrency': 'Số ảnh xử lý cùng lúc',
+  'batch.generate': 'Tạo Hàng Loạt',
+  'batch.running': 'Đang xử lý hàng loạt...',
+  'batch.pausing': 'Đang chờ các ảnh đang xử lý hoàn tất để tạm dừng...',
+  'batch.paused': 'Đã tạm dừng',
+  'batch.loadingHint': 'Quá trình này có thể mất nhiều thời gian hơn tùy thuộc vào số lượng ảnh.',
+  'batch.resume': 'Tiếp tục',
+  'batch.pause': 'Tạm dừng',
+  'batch.resultsTitle': 'Kết quả hàng loạt',
+  'batch.resultN': 'Kết quả {n}',
+  'batch.downloadImage': 'Tải ảnh',
+  'batch.error': 'Lỗi',
+  'batch.queued': 'Đang chờ',
+  'batch.retrying': 'Đang thử lại (lần {attempt})',
+  'batch.resumeRemaining': { other: 'Tiếp tục ({count} ảnh còn lại)' },
+  'batch.retryFailed': { other: 'Thử lại {count} ảnh lỗi' },
+  'batch.namingPattern': 'Tên tệp trong file ZIP',
+  'batch.namingTokens': 'Có thể dùng: {tokens}',
+  'batch.downloadAll': 'Tải Tất Cả (.zip)',
+  'batch.downloadAllImages': 'Tải tất cả ảnh về',
+  'batch.startOver': 'Tạo lô khác',
+
+  'mask.editArea': 'Sửa vùng đã tô',
+  'mask.paintArea': 'Tô vùng cần sửa',
+  'mask.clear': 'Bỏ mask',
+  'mask.hint': 'Tô đỏ lên các chỗ hư hỏng. AI chỉ sửa những vùng đã tô và giữ nguyên phần còn lại.',
+  'mask.brush': 'Cọ',
+  'mask.eraser': 'Tẩy',
+  'mask.brushSize': 'Cỡ cọ',
+  'mask.clearAll': 'Xóa hết',
+  'mask.imageAlt': 'Ảnh cần tô',
+  'mask.save': 'Lưu mask',
+
+  'progress.chunks': { other: '{count} gói' },
+  'progress.total': 'Tổng',
+  'progress.encoding': 'Chuẩn bị ảnh',
+  'progress.requesting': 'Gửi yêu cầu',
+  'progress.streaming': 'Nhận kết quả',
+  'progress.decoding': 'Giải mã ảnh',
+  'progress.done': 'Hoàn tất',
+  'progress.pass': '{label} (lượt {pass}/{total})',
+
+  'prompt.hideFinal': 'Ẩn câu lệnh cuối cùng',
+  'prompt.showFinal': 'Xem câu lệnh cuối cùng',
+
+  'styles.manage': 'Quản lý style',
+  'styles.yours': 'Style của bạn',
+  'styles.copyName': '{name} (bản sao)',
+  'styles.duplicated': 'Đã tạo bản sao "{name}".',
+  'styles.saved': 'Đã lưu style "{name}".',
+  'styles.saveFailed': 'Không thể lưu style.',
+  'styles.imported': { other: 'Đã nhập {count} style.' },
+  'styles.readFailed': 'Không thể đọc tệp style.',
+  'styles.name': 'Tên style',
+  'styles.namePlaceholder': 'Ví dụ: Ảnh cưới Hàn Quốc',
+  'styles.prompt': 'Câu lệnh (prompt)',
+  'styles.promptPlaceholder': 'Mô tả ảnh bạn muốn tạo...',
+  'styles.maskInstruction': 'Hướng dẫn đọc mask (tùy chọn)',
+  'styles.maskInstructionHint': 'Khi có nội dung này, người dùng có thể tô vùng cần sửa trên ảnh đầu tiên. Câu hướng dẫn (tiếng Anh) được gửi kèm mask.',
+  'styles.maskInstructionPlaceholder': 'Ví dụ: White areas mark the regions to repair; keep black areas unchanged.',
+  'styles.inputs': 'Ảnh đầu vào',
+  'styles.inputsHint': 'Vai trò (tiếng Anh) được gửi kèm từng ảnh để AI biết ảnh nào là ai, ví dụ "man", "woman".',
+  'styles.slotLabelPlaceholder': 'Nhãn, ví dụ: Ảnh nam',
+  'styles.slotRolePlaceholder': 'Vai trò, ví dụ: man',
+  'styles.required': 'Bắt buộc',
+  'styles.removeSlot': 'Xóa ảnh {n}',
+  'styles.addSlot': 'Thêm ảnh đầu vào',
+  'styles.variables': 'Biến trong câu lệnh',
+  'styles.variablesHint': 'Viết {{ten_bien}} trong câu lệnh, rồi khai báo biến đó ở đây để người dùng chọn giá trị khi tạo ảnh.',
+  'styles.variableNamePlaceholder': 'Tên biến, ví dụ: background',
+  'styles.variableLabelPlaceholder': 'Nhãn, ví dụ: Phông nền',
+  'styles.removeVariable': 'Xóa biến {n}',
+  'styles.typeText': 'Văn bản',
+  'styles.typeChoice': 'Lựa chọn',
+  'styles.defaultValue': 'Giá trị mặc định',
+  'styles.optionsPlaceholder': 'Mỗi dòng một giá trị được phép',
+  'styles.addVariable': 'Thêm biến',
+  'styles.save': 'Lưu style',
+  'styles.yourStyles': 'Style của bạn',
+  'styles.empty': 'Bạn chưa có style nào. Hãy tạo mới hoặc nhập từ tệp.',
+  'styles.deleteConfirm': 'Xóa "{name}"?',
+  'styles.edit': 'Sửa',
+  'styles.duplicate': 'Nhân bản',
+  'styles.builtIn': 'Style có sẵn',
+  'styles.import': 'Nhập tệp',
+  'styles.export': 'Xuất tệp',
+  'styles.new': 'Tạo style mới',
+  'styles.defaultSlotLabel': 'Ảnh',
+
+  'footer.contactLabel': 'Liên hệ ngay để được hướng dẫn',
+  'footer.contact': 'LIÊN HỆ NGAY để hướng dẫn',
+
+  'export.formatOriginal': 'Gốc',
+  'export.formatPng': 'PNG',
+  'export.formatJpeg': 'JPEG',
+  'export.formatWebp': 'WebP',
+  'export.failed': 'Không thể xuất ảnh. Vui lòng thử lại với cài đặt khác.',
+  'export.format': 'Định dạng',
+  'export.quality': 'Chất lượng: {percent}%',
+  'export.aspect': 'Tỉ lệ khung hình',
+  'export.fitCrop': 'Cắt cho vừa',
+  'export.fitPad': 'Thêm viền',
+  'export.padColor': 'Màu viền',
+  'export.exactSize': 'Kích thước chính xác (px)',
+  'export.width': 'Rộng',
+  'export.height': 'Cao',
+  'export.auto': 'Tự động',
+  'export.firstImage': '(ảnh đầu tiên)',
+  'export.reset': 'Đặt lại',
+  'export.exporting': 'Đang xuất...',
+  'export.download': 'Tải về',
+  'export.aspectOriginal': 'Giữ nguyên',
+  'export.aspectTiktok': 'TikTok 9:16',
+  'export.aspectSquare': 'Vuông 1:1',
+  'export.aspectInstagram': 'Instagram 4:5',
+  'export.title': 'Xuất ảnh',
+  'export.titleMany': 'Xuất {count} ảnh',
+
+  'history.loadFailed': 'Không thể tải lịch sử. Trình duyệt của bạn có thể đã chặn bộ nhớ cục bộ.',
+  'history.deleteFailed': 'Không thể xóa ảnh khỏi lịch sử.',
+  'history.title': 'Lịch sử tạo ảnh',
+  'history.filter': 'Lọc theo style',
+  'history.allStyles': 'Tất cả style',
+  'history.empty': 'Chưa có ảnh nào được lưu.',
+  'history.delete': 'Xóa khỏi lịch sử',
+  'history.enhanced': 'Nâng cấp x{count}',
+  'history.deleteConfirm': 'Xóa ảnh này khỏi lịch sử?',
+  'history.inputN': 'Ảnh gốc {n}',
+
+  'refine.title': 'Chỉnh sửa tiếp',
+  'refine.original': 'Bản gốc',
+  'refine.version': 'Bản {n}: {prompt}',
+  'refine.branch': 'Nhánh từ đây',
+  'refine.placeholder': 'Ví dụ: "đổi rèm cửa sang màu be", "bỏ kính đi"',
+  'refine.branchHint': 'Yêu cầu mới sẽ tạo một nhánh từ bản đang xem.',
+  'refine.noConversation': 'Nhà cung cấp này chỉ sửa trên ảnh hiện tại, không nhớ các lượt trước.',
+  'refine.submit': 'Gửi yêu cầu',
+
+  'providers.failureNone': 'Không lỗi (luôn thành công)',
+  'providers.failureSafety': 'Bị chặn vì an toàn (SAFETY)',
+  'providers.failureQuota': 'Hết hạn ngạch (RESOURCE_EXHAUSTED)',
+  'providers.failureRefusal': 'Mô hình từ chối (MODEL_ERROR)',
+  'providers.label': 'Nhà cung cấp tạo ảnh',
+  'providers.serverUrl': 'Địa chỉ máy chủ',
+  'providers.demoHint': 'Kết quả được dựng ngay trên trình duyệt, không cần API Key hay kết nối mạng.',
+  'providers.simulateFailure': 'Giả lập lỗi',
+  'providers.capImageToImage': 'Tạo ảnh từ ảnh mẫu',
+  'providers.capMultipleInputs': 'Nhiều ảnh đầu vào',
+  'providers.capUpscaling': 'Nâng cấp chất lượng',
+  'providers.capInpainting': 'Sửa theo vùng tô (mask)',
+  'providers.capConversation': 'Chỉnh sửa theo hội thoại',
+  'providers.checking': 'Đang kiểm tra...',
+  'providers.check': 'Kiểm tra kết nối',
+  'providers.checkOk': 'Kết nối thành công',
+  'providers.demo': 'Chế độ demo (offline)',
+  'providers.urlRequired': 'Vui lòng nhập địa chỉ máy chủ.',
+  'providers.connectFailed': 'Không thể kết nối đến máy chủ.',
+  'providers.proxyUrl': 'Proxy Gemini (tuỳ chọn)',
+  'providers.proxyHint': 'Khi có địa chỉ proxy, ảnh được tạo qua máy chủ giữ key và danh sách key bên dưới không được dùng.',
+
+  'stylePack.invalidInputs': '{label}: danh sách ảnh đầu vào không hợp lệ.',
+  'stylePack.tooManyInputs': '{label}: tối đa {max} ảnh đầu vào.',
+  'stylePack.invalidItem': '{label}: không hợp lệ.',
+  'stylePack.slotRole': '{label}: thiếu vai trò (role) hoặc quá dài.',
+  'stylePack.slotLabel': '{label}: thiếu nhãn hiển thị hoặc quá dài.',
+  'stylePack.slotRequired': '{label}: "required" phải là true hoặc false.',
+  'stylePack.noOptions': '{label}: biến kiểu lựa chọn cần ít nhất một giá trị.',
+  'stylePack.tooManyOptions': '{label}: tối đa {max} giá trị.',
+  'stylePack.invalidOption': '{label}: có giá trị lựa chọn không hợp lệ.',
+  'stylePack.invalidOptionLabel': '{label}: nhãn của giá trị "{value}" không hợp lệ.',
+  'stylePack.invalidVariables': '{label}: danh sách biến không hợp lệ.',
+  'stylePack.tooManyVariables': '{label}: tối đa {max} biến.',
+  'stylePack.variableName': '{label}: tên biến chỉ gồm chữ, số và dấu gạch dưới.',
+  'stylePack.variableLabel': '{label}: thiếu nhãn hiển thị.',
+  'stylePack.variableType': '{label}: kiểu biến phải là "choice" hoặc "text".',
+  'stylePack.variableDefault': '{label}: thiếu giá trị mặc định.',
+  'stylePack.variableDefaultChoice': '{label}: giá trị mặc định phải nằm trong danh sách lựa chọn.',
+  'stylePack.duplicateVariable': '{label}: biến "{name}" bị khai báo hai lần.',
+  'stylePack.notObject': '{label}: không phải là một đối tượng hợp lệ.',
+  'stylePack.noName': '{label}: thiếu tên style.',
+  'stylePack.nameTooLong': '{label}: tên style dài quá {max} ký tự.',
+  'stylePack.noPrompt': '{label}: thiếu câu lệnh (prompt).',
+  'stylePack.promptTooLong': '{label}: câu lệnh dài quá {max} ký tự.',
+  'stylePack.invalidId': '{label}: id không hợp lệ.',
+  'stylePack.maskInstruction': '{label}: hướng dẫn đọc mask không hợp lệ hoặc dài quá {max} ký tự.',
+  'stylePack.undeclaredVariable': '{label}: câu lệnh dùng biến {{{name}}} nhưng chưa khai báo.',
+  'stylePack.invalidJson': 'Tệp không phải là JSON hợp lệ.',
+  'stylePack.invalidFormat': 'Tệp không đúng định dạng gói style.',
+  'stylePack.unsupportedVersion': 'Phiên bản gói style không được hỗ trợ. Vui lòng cập nhật ứng dụng.',
+  'stylePack.empty': 'Gói style không chứa style nào.',
+  'stylePack.slotN': '{label}, ảnh {n}',
+  'stylePack.variableN': '{label}, biến {n}',
+  'stylePack.style': 'Phong cách',
+  'stylePack.styleN': 'Phong cách {n}',
+
+  'keys.defaultLabel': 'Key {n}',
+  'keys.stateReady': 'Sẵn sàng',
+  'keys.stateCooldown': 'Hết hạn ngạch · thử lại sau {remaining}',
+  'keys.stateInvalid': 'Không hợp lệ · thử lại sau {remaining}',
+  'keys.duplicate': 'Key này đã có trong danh sách.',
+  'keys.deleteConfirm': 'Xóa "{label}"?',
+  'keys.primary': 'Chính',
+  'keys.makePrimary': 'Đặt làm chính',
+  'keys.check': 'Kiểm tra',
+  'keys.rotationHint': 'Key chính được dùng trước. Khi một Key hết hạn ngạch hoặc không hợp lệ, ứng dụng tự chuyển sang Key tiếp theo và cho Key đó tạm nghỉ.',
+  'keys.labelPlaceholder': 'Tên gợi nhớ, ví dụ: Key cá nhân',
+  'keys.add': 'Thêm Key',
+  'keys.servedBy': 'Tạo bằng {label}',
+
+  'vault.title': 'Lưu trữ Key',
+  'vault.modePlain': 'Lưu trên trình duyệt này',
+  'vault.modePlainHint': 'Key được lưu nguyên văn trong localStorage.',
+  'vault.modeEncrypted': 'Mã hóa bằng mật khẩu',
+  'vault.modeEncryptedHint': 'Key được mã hóa; nhập mật khẩu ở lần dùng đầu tiên mỗi phiên.',
+  'vault.modeMemory': 'Không ghi nhớ',
+  'vault.modeMemoryHint': 'Key chỉ nằm trong bộ nhớ và mất khi tải lại trang.',
+  'vault.passphrase': 'Mật khẩu',
+  'vault.confirmPassphrase': 'Nhập lại mật khẩu',
+  'vault.passphraseTooShort': 'Mật khẩu cần ít nhất {min} ký tự.',
+  'vault.passphraseMismatch': 'Hai mật khẩu không khớp.',
+  'vault.apply': 'Áp dụng',
+  'vault.changePassphrase': 'Đổi mật khẩu',
+  'vault.autoLock': 'Tự khóa sau khi không dùng',
+  'vault.minutes': { other: '{count} phút' },
+  'vault.lockNow': 'Khóa ngay',
+  'vault.lockedTitle': 'Key đang bị khóa',
+  'vault.lockedHint': 'Nhập mật khẩu để giải mã Key cho phiên làm việc này.',
+  'vault.unlockForRequest': 'Yêu cầu này cần API Key của bạn. Nhập mật khẩu để tiếp tục.',
+  'vault.unlock': 'Mở khóa',
+  'vault.wrongPassphrase': 'Sai mật khẩu.',
+  'vault.forgot': 'Quên mật khẩu?',
+  'vault.forgetConfirm': 'Xóa mọi Key đã mã hóa? Bạn sẽ phải thêm lại Key.',
+  'vault.forget': 'Xóa Key',
+
+  'usage.title': 'Lượt gọi và chi phí',
+  'usage.loadFailed': 'Không tải được số liệu sử dụng.',
+  'usage.clearFailed': 'Không xóa được số liệu sử dụng.',
+  'usage.exportCsv': 'Xuất CSV',
+  'usage.clear': 'Xóa số liệu',
+  'usage.clearConfirm': 'Xóa toàn bộ',
+  'usage.today': 'Hôm nay',
+  'usage.thisWeek': 'Tuần này',
+  'usage.calls': { other: '{count} lượt gọi' },
+  'usage.failures': { other: '{count} lỗi' },
+  'usage.tokens': { other: '{count} token' },
+  'usage.empty': 'Chưa có lượt gọi nào được ghi lại.',
+  'usage.daily': 'Theo ngày',
+  'usage.weekly': 'Theo tuần',
+  'usage.byStyle': 'Theo phong cách',
+  'usage.byKey': 'Theo Key',
+  'usage.period': 'Thời gian',
+  'usage.style': 'Phong cách',
+  'usage.key': 'Key',
+  'usage.callsHeader': 'Lượt (lỗi)',
+  'usage.tokensHeader': 'Token',
+  'usage.latencyHeader': 'TB thời gian',
+  'usage.costHeader': 'Chi phí ước tính',
+  'usage.tokenSplit': '{input} vào · {output} ra',
+  'usage.weekOf': 'Tuần từ {date}',
+  'usage.defaultKey': 'Key mặc định',
+  'usage.noStyle': 'Prompt tùy chỉnh / nâng cấp',
+  'usage.editPrices': 'Sửa bảng giá',
+  'usage.hidePrices': 'Ẩn bảng giá',
+  'usage.pricesHint': 'Giá USD cho mỗi triệu token vào và ra. Chi phí chỉ là ước tính từ số token API trả về.',
+  'usage.inputPrice': 'Giá token vào của {model}',
+  'usage.outputPrice': 'Giá token ra của {model}',
+  'usage.cacheHits': { other: '{count} lần dùng bộ nhớ đệm' },
+  'usage.cacheHeader': 'Bộ nhớ đệm',
+
+  'cache.title': 'Bộ nhớ đệm kết quả',
+  'cache.enable': 'Lưu kết quả để tái sử dụng',
+  'cache.hint': 'Khi tạo lại với đúng ảnh, prompt, model và cài đặt, bạn có thể dùng kết quả đã lưu thay vì gửi yêu cầu trả phí mới.',
+  'cache.maxSize': 'Dung lượng tối đa',
+  'cache.stats': { other: '{count} kết quả · {size} MB' },
+  'cache.clear': 'Xóa bộ nhớ đệm',
+  'cache.choiceTitle': 'Đã có kết quả lưu sẵn',
+  'cache.choiceSingle': 'Yêu cầu này giống hệt một lần tạo lúc {date}. Dùng lại kết quả đó hay tạo mới?',
+  'cache.choiceBatch': { other: '{count}/{total} tác vụ đã có kết quả lưu (cũ nhất từ {date}). Dùng lại các kết quả đó hay tạo mới tất cả?' },
+  'cache.useCached': 'Dùng kết quả đã lưu',
+  'cache.generateFresh': 'Tạo mới',
+  'cache.fromCache': 'Kết quả từ bộ nhớ đệm',
+  'cache.badge': 'Đã lưu',
+
+  'builtinStyles.polaroid.name': 'Polaroid',
+  'builtinStyles.polaroid.man': 'Ảnh nam',
+  'builtinStyles.polaroid.woman': 'Ảnh nữ',
+  'builtinStyles.polaroid.background': 'Phông nền',
+  'builtinStyles.polaroid.background.whiteCurtain': 'Rèm trắng',
+  'builtinStyles.polaroid.background.beigeCurtain': 'Rèm màu be',
+  'builtinStyles.polaroid.background.redVelvet': 'Rèm nhung đỏ',
+  'builtinStyles.polaroid.background.grayWall': 'Tường xám nhạt',
+  'builtinStyles.3d-hot-trend.name': '3D Hot Trend',
+  'builtinStyles.3d-hot-trend.character': 'Ảnh nhân vật',
+  'builtinStyles.3d-hot-trend.scale': 'Tỉ lệ mô hình',
+  'builtinStyles.photo-restoration.name': 'Phục chế ảnh',
+  'builtinStyles.photo-restoration.damaged': 'Ảnh cần phục chế',
+  'builtinStyles.photo-restoration.output_resolution': 'Độ phân giải đầu ra',
+  'builtinStyles.photo-restoration.output_resolution.4k': '4K (hoặc Full HD)',
+} satisfies Record<string, Message>;
+
+export default vi;
@@ -0,0 +1,172 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Style, StyleInputSlot } from '../types';
+import { BatchReport, ReportTask, isTaskDone, mismatchedSettings, pairInputs, parseVariables, planTasks } from './batch-cli';
+
+const COUPLE: StyleInputSlot[] = [
+  { role: 'man', label: 'Man', required: true },
+  { role: 'woman', label: 'Woman', required: true },
+];
+
+let dir: string;
+
+const touch = (...names: string[]) => names.forEach(name => {
+  mkdirSync(join(dir, name, '..'), { recursive: true });
+  writeFileSync(join(dir, name), '');
+});
+
+const names = (files: (string | null)[]) => files.map(file => file && relative(dir, file));
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'batch-cli-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe('pairInputs', () => {
+  it('pairs photos by role or number suffix and skips duplicates and photos that fit no set', () => {
+    touch('anna_man.jpg', 'anna_woman.png', 'bob_2.jpg', 'bob_1.jpg', 'notes.txt', 'stray.jpg', 'anna-man.webp');
+    const { sets, skipped } = pairInputs(dir, COUPLE, 'suffix');
+
+    expect(sets.map(set => ({ name: set.name, files: names(set.files) }))).toEqual([
+      { name: 'anna', files: ['anna_man.jpg', 'anna_woman.png'] },
+      { name: 'bob', files: ['bob_1.jpg', 'bob_2.jpg'] },
+    ]);
+    expect(names(skipped)).toEqual(['anna-man.webp', 'stray.jpg']);
+  });
+
+  it('leaves a slot empty when its photo is missing', () => {
+    touch('cara_woman.jpg');
+    const { sets } = pairInputs(dir, COUPLE, 'suffix');
+    expect(sets.map(set => names(set.files))).toEqual([[null, 'cara_woman.jpg']]);
+  });
+
+  it('groups consecutive files in name order', () => {
+    touch('img10.jpg', 'img2.jpg', 'img1.jpg');
+    const { sets } = pairInputs(dir, COUPLE, 'order');
+    expect(sets.map(set => ({ name: set.name, files: names(set.files) }))).toEqual([
+      { name: 'img1', files: ['img1.jpg', 'img2.jpg'] },
+      { name: 'img10', files: ['img10.jpg', null] },
+    ]);
+  });
+
+  it('takes one subfolder per set and skips extra photos', () => {
+    touch('first/a.jpg', 'first/b.jpg', 'first/c.jpg', 'second/a.jpg');
+    const { sets, skipped } = pairInputs(dir, COUPLE, 'folder');
+    expect(sets.map(set => ({ name: set.name, files: names(set.files) }))).toEqual([
+      { name: 'first', files: ['first/a.jpg', 'first/b.jpg'] },
+      { name: 'second', files: ['second/a.jpg', null] },
+    ]);
+    expect(names(skipped)).toEqual(['first/c.jpg']);
+  });
+
+  it('makes every photo its own set for single-photo styles', () => {
+    touch('a_man.jpg', 'b.png');
+    const { sets } = pairInputs(dir, [COUPLE[0]], 'suffix');
+    expect(sets.map(set => set.name)).toEqual(['a_man', 'b']);
+  });
+});
+
+const report = (patch: Partial<BatchReport> = {}): BatchReport => ({
+  version: 1,
+  style: 'polaroid',
+  promptFile: null,
+  promptHash: 'hash',
+  provider: 'gemini',
+  model: 'gemini-2.5-flash-image',
+  server: null,
+  enhance: null,
+  startedAt: '',
+  updatedAt: '',
+  tasks: [],
+  ...patch,
+});
+
+describe('mismatchedSettings', () => {
+  it('names every setting that differs from the earlier run', () => {
+    expect(mismatchedSettings(report(), report())).toEqual([]);
+    expect(mismatchedSettings(report(), report({ provider: 'http', model: 'sdapi', server: 'http://localhost:7860' })))
+      .toEqual(['provider', 'model', 'server']);
+    expect(mismatchedSettings(report(), report({ promptHash: 'other', enhance: '2K' }))).toEqual(['prompt', 'enhance level']);
+  });
+
+  it('treats settings missing from older reports as unset', () => {
+    const older = report();
+    delete (older as Partial<BatchReport>).server;
+    expect(mismatchedSettings(older, report())).toEqual([]);
+  });
+});
+
+describe('planTasks', () => {
+  it('keeps earlier results only for sets whose photos did not change', () => {
+    const done: ReportTask = { name: 'anna', inputs: ['anna_man.jpg', 'anna_woman.jpg'], status: 'success', output: 'anna.png' };
+    const changed: ReportTask = { name: 'bob', inputs: ['bob_man.jpg', 'old_woman.jpg'], status: 'success', output: 'bob.png' };
+    const sets = [
+      { name: 'anna', files: [join(dir, 'anna_man.jpg'), join(dir, 'anna_woman.jpg')] },
+      { name: 'bob', files: [join(dir, 'bob_man.jpg'), join(dir, 'bob_woman.jpg')] },
+      { name: 'bob', files: [join(dir, 'bob.png'), null] },
+    ];
+
+    expect(planTasks(sets, dir, report({ tasks: [done, changed] }))).toEqual([
+      done,
+      { name: 'bob', inputs: ['bob_man.jpg', 'bob_woman.jpg'], status: 'pending' },
+      { name: 'bob-2', inputs: ['bob.png', null], status: 'pending' },
+    ]);
+  });
+});
+
+describe('isTaskDone', () => {
+  it('redoes successes whose output files are gone', () => {
+    touch('anna.png');
+    const task: ReportTask = { name: 'anna', inputs: [], status: 'success', output: 'anna.png', enhancedOutput: 'anna-2K.png' };
+
+    expect(isTaskDone(task, dir, null)).toBe(true);
+    expect(isTaskDone(task, dir, '2K')).toBe(false);
+    expect(isTaskDone({ ...task, output: 'missing.png' }, dir, null)).toBe(false);
+    expect(isTaskDone({ ...task, status: 'error' }, dir, null)).toBe(false);
+  });
+});
+
+describe('parseVariables', () => {
+  const style: Style = {
+    id: 'test',
+    name: 'Test',
+    prompt: '{{background}} {{caption}}',
+    variables: [
+      { name: 'background', label: 'Background', type: 'choice', default: 'a wall', options: [{ value: 'a wall' }, { value: 'a curtain' }] },
+      { name: 'caption', label: 'Caption', type: 'text', default: '' },
+    ],
+  };
+
+  // fail() prints and exits; make it throw so the message can be checked.
+  const failure = (pairs: string[]) => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+    expect(() => parseVariables(pairs, style)).toThrow('exit');
+    return String(error.mock.calls[0][0]);
+  };
+
+  it('accepts declared variables and allowed choices', () => {
+    expect(parseVariables(['background=a curtain', 'caption=a=b'], style)).toEqual({ background: 'a curtain', caption: 'a=b' });
+  });
+
+  it('rejects unknown names and lists the variables', () => {
+    const message = failure(['backgruond=a wall']);
+    expect(message).toContain('Unknown variable "backgruond"');
+    expect(message).toContain('background  one of: "a wall", "a curtain"');
+    expect(message).toContain('caption  any text');
+  });
+
+  it('rejects values outside a choice', () => {
+    expect(failure(['background=a beach'])).toContain('"a beach" is not allowed for background');
+  });
+
+  it('rejects pairs without a name', () => {
+    expect(failure(['=a wall'])).toContain('--var expects name=value');
+  });
+});
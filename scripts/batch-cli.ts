@@ -0,0 +1,462 @@
+// Batch runs over a folder on disk, sharing the style catalog and service layer with the web app.
+// Run: GEMINI_API_KEY=... npm run batch -- --style photo-restoration --in ./old-photos --out ./results
+// All options: npm run batch -- --help
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, statSync, writeFileSync } from 'node:fs';
+import { basename, extname, join, relative, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { STYLES } from '../constants';
+import { EnhanceQuality, ImageProvider, ProviderId, ProviderSettings, Style, StyleInputSlot, StyleVariableValues } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS, createImageProvider } from '../services/providers';
+import { DEFAULT_INPUT_SLOT, getStyleInputs } from '../services/styleInputs';
+import { resolvePrompt } from '../services/promptTemplate';
+import { runEnhancement } from '../services/enhancement';
+import { createBatchControl, runBatch } from '../services/batchRunner';
+import { dataUrlToBytes, extensionForMimeType, splitDataUrl, toDataUrl } from '../services/imageUtils';
+import { ServiceError, toServiceError } from '../services/serviceError';
+
+const USAGE = `Usage: npm run batch -- (--style <id> | --prompt-file <file>) --in <dir> --out <dir> [options]
+
+  --style <id>          built-in style to apply (see --list-styles)
+  --prompt-file <file>  use the prompt in this text file instead of a style
+  --var name=value      fill a style variable; repeat for several
+  --in <dir>            folder with the input photos
+  --out <dir>           folder for the results and report.json
+  --pair-by <rule>      how photos are grouped for styles with several inputs:
+                          suffix  anna_man.jpg + anna_woman.jpg (or anna_1 + anna_2)  [default]
+                          order   consecutive files in name order
+                          folder  one subfolder per set, files in name order
+  --concurrency <n>     requests in flight at once (default 2)
+  --enhance <level>     also upscale each result: HD, 2K or 4K
+  --provider <id>       gemini or http (default gemini)
+  --model <name>        Gemini model
+  --proxy <url>         send Gemini calls through the proxy (npm run proxy)
+  --server <url>        Stable Diffusion server for --provider http
+  --report <file>       report path (default <out>/report.json)
+  --list-styles         print the style ids and exit
+
+Gemini reads the key from GEMINI_API_KEY unless --proxy is given.
+Re-running with the same --out resumes: finished sets in the report are skipped.
+A report made with another style, prompt, --var values, --enhance level, provider,
+model or server is not resumed.`;
+
+const PAIR_RULES = ['suffix', 'order', 'folder'] as const;
+type PairRule = typeof PAIR_RULES[number];
+
+const ENHANCE_LEVELS: EnhanceQuality[] = ['HD', '2K', '4K'];
+
+const INPUT_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+type TaskStatus = 'pending' | 'success' | 'error';
+
+export interface ReportTask {
+  name: string;
+  // Relative to the input folder, in slot order; null for an empty optional slot.
+  inputs: (string | null)[];
+  status: TaskStatus;
+  // Relative to the output folder.
+  output?: string;
+  enhancedOutput?: string;
+  error?: { code: string; message: string };
+  finishedAt?: string;
+}
+
+export interface BatchReport {
+  version: 1;
+  style: string | null;
+  promptFile: string | null;
+  // SHA-256 of the resolved prompt, so edited variables or prompt files are not mixed with old results.
+  promptHash: string;
+  provider: string;
+  model: string;
+  // Stable Diffusion server for the http provider; its model name does not tell servers apart.
+  server: string | null;
+  enhance: EnhanceQuality | null;
+  startedAt: string;
+  updatedAt: string;
+  tasks: ReportTask[];
+}
+
+// One set of input photos becomes one generation.
+export interface InputSet {
+  name: string;
+  files: (string | null)[];
+}
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const listImages = (dir: string): string[] => readdirSync(dir)
+  .filter(name => INPUT_MIME_TYPES[extname(name).toLowerCase()] && statSync(join(dir, name)).isFile())
+  .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+  .map(name => join(dir, name));
+
+const stemOf = (file: string) => basename(file, extname(file));
+
+// "anna_man" -> { base: "anna", slot: 0 } when "man" is the first role; a number like "anna_1" works too.
+const matchSlotSuffix = (stem: string, slots: StyleInputSlot[]): { base: string; slot: number } | null => {
+  for (let index = 0; index < slots.length; index++) {
+    const role = slots[index].role.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '[ _-]');
+    const match = stem.match(new RegExp(`^(.+)[._-](?:${role}|${index + 1})$`, 'i'));
+    if (match) return { base: match[1], slot: index };
+  }
+  return null;
+};
+
+export const pairInputs = (inputDir: string, slots: StyleInputSlot[], rule: PairRule): { sets: InputSet[]; skipped: string[] } => {
+  const skipped: string[] = [];
+
+  // Single-photo styles: every photo is a set and the pairing rule does not apply.
+  if (slots.length === 1) {
+    return { sets: listImages(inputDir).map(file => ({ name: stemOf(file), files: [file] })), skipped };
+  }
+
+  if (rule === 'folder') {
+    const folders = readdirSync(inputDir)
+      .filter(name => statSync(join(inputDir, name)).isDirectory())
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const sets = folders.map(folder => {
+      const files = listImages(join(inputDir, folder));
+      skipped.push(...files.slice(slots.length));
+      return { name: folder, files: slots.map((_, index) => files[index] ?? null) };
+    });
+    return { sets, skipped };
+  }
+
+  const files = listImages(inputDir);
+  if (rule === 'order') {
+    const sets: InputSet[] = [];
+    for (let i = 0; i < files.length; i += slots.length) {
+      const group = files.slice(i, i + slots.length);
+      sets.push({ name: stemOf(group[0]), files: slots.map((_, index) => group[index] ?? null) });
+    }
+    return { sets, skipped };
+  }
+
+  const byBase = new Map<string, (string | null)[]>();
+  for (const file of files) {
+    const match = matchSlotSuffix(stemOf(file), slots);
+    if (!match) {
+      skipped.push(file);
+      continue;
+    }
+    const set = byBase.get(match.base) ?? slots.map(() => null);
+    if (set[match.slot]) skipped.push(file);
+    else set[match.slot] = file;
+    byBase.set(match.base, set);
+  }
+  return { sets: [...byBase].map(([name, setFiles]) => ({ name, files: setFiles })), skipped };
+};
+
+// Duplicate names (anna.jpg and anna.png) are numbered so their results do not overwrite each other.
+const uniqueNames = (sets: InputSet[]): InputSet[] => {
+  const seen = new Map<string, number>();
+  return sets.map(set => {
+    const count = (seen.get(set.name) ?? 0) + 1;
+    seen.set(set.name, count);
+    return count === 1 ? set : { ...set, name: `${set.name}-${count}` };
+  });
+};
+
+// Earlier results are kept only when the set's photos did not change.
+export const planTasks = (sets: InputSet[], inputDir: string, previous: BatchReport | null): ReportTask[] => {
+  const previousTasks = new Map((previous?.tasks ?? []).map(task => [task.name, task]));
+  return uniqueNames(sets).map(set => {
+    const inputs = set.files.map(file => file && relative(inputDir, file));
+    const earlier = previousTasks.get(set.name);
+    return earlier && JSON.stringify(earlier.inputs) === JSON.stringify(inputs) ? earlier : { name: set.name, inputs, status: 'pending' };
+  });
+};
+
+// A success only counts while its files are still in the output folder.
+export const isTaskDone = (task: ReportTask, outputDir: string, enhance: EnhanceQuality | null): boolean => task.status === 'success'
+  && Boolean(task.output && existsSync(join(outputDir, task.output)))
+  && (!enhance || Boolean(task.enhancedOutput && existsSync(join(outputDir, task.enhancedOutput))));
+
+const readImageFile = (file: string) => new File([readFileSync(file)], basename(file), {
+  type: INPUT_MIME_TYPES[extname(file).toLowerCase()],
+});
+
+const writeImage = (outputDir: string, name: string, dataUrl: string): string => {
+  const fileName = `${name}.${extensionForMimeType(splitDataUrl(dataUrl).mimeType)}`;
+  writeFileSync(join(outputDir, fileName), dataUrlToBytes(dataUrl));
+  return fileName;
+};
+
+// Written to a temp file and renamed, so stopping midway cannot corrupt the report.
+const saveReport = (reportPath: string, report: BatchReport) => {
+  report.updatedAt = new Date().toISOString();
+  writeFileSync(`${reportPath}.tmp`, JSON.stringify(report, null, 2));
+  renameSync(`${reportPath}.tmp`, reportPath);
+};
+
+// Settings a report must share with this run to be resumed, with how they are named to the user.
+const RESUME_SETTINGS = {
+  style: 'style',
+  promptHash: 'prompt',
+  provider: 'provider',
+  model: 'model',
+  server: 'server',
+  enhance: 'enhance level',
+} as const;
+
+// Reports from before a setting was recorded lack it, which counts as null.
+export const mismatchedSettings = (previous: BatchReport, current: BatchReport): string[] => (
+  (Object.keys(RESUME_SETTINGS) as (keyof typeof RESUME_SETTINGS)[])
+    .filter(key => (previous[key] ?? null) !== current[key])
+    .map(key => RESUME_SETTINGS[key])
+);
+
+const loadReport = (reportPath: string): BatchReport | null => {
+  if (!existsSync(reportPath)) return null;
+  try {
+    return JSON.parse(readFileSync(reportPath, 'utf8'));
+  } catch {
+    return fail(`Cannot read the report at ${reportPath}; move it away to start over.`);
+  }
+};
+
+const describeVariables = (style: Style): string => {
+  const variables = style.variables ?? [];
+  if (variables.length === 0) return `"${style.id}" has no variables.`;
+  return `Variables of "${style.id}":\n${variables.map(variable => (variable.type === 'choice'
+    ? `  ${variable.name}  one of: ${(variable.options ?? []).map(option => JSON.stringify(option.value)).join(', ')}`
+    : `  ${variable.name}  any text`)).join('\n')}`;
+};
+
+// resolvePrompt quietly falls back to defaults, so typos are caught here before a paid run.
+export const parseVariables = (pairs: string[], style: Style): StyleVariableValues => {
+  const values: StyleVariableValues = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) fail(`--var expects name=value, got "${pair}".`);
+    const name = pair.slice(0, separator);
+    const value = pair.slice(separator + 1);
+    const variable = style.variables?.find(candidate => candidate.name === name);
+    if (!variable) fail(`Unknown variable "${name}". ${describeVariables(style)}`);
+    if (variable!.type === 'choice' && !variable!.options?.some(option => option.value === value)) {
+      fail(`"${value}" is not allowed for ${name}. ${describeVariables(style)}`);
+    }
+    values[name] = value;
+  }
+  return values;
+};
+
+const main = async () => {
+  const { values: args } = parseArgs({
+    options: {
+      style: { type: 'string' },
+      'prompt-file': { type: 'string' },
+      var: { type: 'string', multiple: true, default: [] },
+      in: { type: 'string' },
+      out: { type: 'string' },
+      'pair-by': { type: 'string', default: 'suffix' },
+      concurrency: { type: 'string', default: '2' },
+      enhance: { type: 'string' },
+      provider: { type: 'string', default: 'gemini' },
+      model: { type: 'string' },
+      proxy: { type: 'string' },
+      server: { type: 'string' },
+      report: { type: 'string' },
+      'list-styles': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (args['list-styles']) {
+    STYLES.forEach(style => console.log(`${style.id.padEnd(24)}${style.name} (${getStyleInputs(style).map(slot => slot.role).join(' + ')})`));
+    return;
+  }
+
+  if (!args.style === !args['prompt-file']) fail(`Give either --style or --prompt-file.\n\n${USAGE}`);
+  if (!args.in || !args.out) fail(`--in and --out are required.\n\n${USAGE}`);
+  const pairRule = args['pair-by'] as PairRule;
+  if (!PAIR_RULES.includes(pairRule)) fail(`--pair-by must be one of ${PAIR_RULES.join(', ')}.`);
+  const concurrency = Number(args.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) fail('--concurrency must be a whole number of at least 1.');
+  const enhance = (args.enhance?.toUpperCase() ?? null) as EnhanceQuality | null;
+  if (enhance && !ENHANCE_LEVELS.includes(enhance)) fail(`--enhance must be one of ${ENHANCE_LEVELS.join(', ')}.`);
+  if (args.provider !== 'gemini' && args.provider !== 'http') fail('--provider must be gemini or http.');
+
+  const style = args.style ? STYLES.find(candidate => candidate.id === args.style) : null;
+  if (args.style && !style) fail(`Unknown style "${args.style}". Run with --list-styles to see them.`);
+  if (!style && args.var.length > 0) fail('--var only applies to --style.');
+  const prompt = style
+    ? resolvePrompt(style, parseVariables(args.var, style))
+    : readFileSync(args['prompt-file']!, 'utf8').trim();
+  if (!prompt) fail('The prompt is empty.');
+  const slots = style ? getStyleInputs(style) : [DEFAULT_INPUT_SLOT];
+
+  // Like vite.config.ts: the service reads its default key from API_KEY.
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+  const settings: ProviderSettings = {
+    ...DEFAULT_PROVIDER_SETTINGS,
+    providerId: args.provider as ProviderId,
+    geminiModel: args.model ?? DEFAULT_PROVIDER_SETTINGS.geminiModel,
+    geminiProxyUrl: args.proxy ?? '',
+    httpBaseUrl: args.server ?? DEFAULT_PROVIDER_SETTINGS.httpBaseUrl,
+  };
+  if (settings.providerId === 'gemini' && !settings.geminiProxyUrl && !process.env.API_KEY) {
+    fail('Set GEMINI_API_KEY or pass --proxy.');
+  }
+  const provider: ImageProvider = createImageProvider(settings);
+  if (slots.length > 1 && !provider.capabilities.multipleInputImages) {
+    fail(`${provider.name} takes one photo per request; "${style!.id}" needs ${slots.length}.`);
+  }
+
+  const inputDir = resolve(args.in);
+  const outputDir = resolve(args.out);
+  if (!existsSync(inputDir)) fail(`Input folder ${inputDir} does not exist.`);
+  // Results are named after their inputs, so writing into the input folder would overwrite the user's photos.
+  if (outputDir === inputDir) fail('--out must be a different folder from --in.');
+  mkdirSync(outputDir, { recursive: true });
+  const reportPath = resolve(args.report ?? join(outputDir, 'report.json'));
+
+  const { sets, skipped } = pairInputs(inputDir, slots, pairRule);
+  skipped.forEach(file => console.warn(`Skipped ${relative(inputDir, file)}: it does not fit any set.`));
+
+  const previous = loadReport(reportPath);
+  const report: BatchReport = {
+    version: 1,
+    style: style?.id ?? null,
+    promptFile: args['prompt-file'] ? resolve(args['prompt-file']) : null,
+    promptHash: createHash('sha256').update(prompt).digest('hex'),
+    provider: provider.id,
+    model: provider.model,
+    server: provider.id === 'http' ? settings.httpBaseUrl : null,
+    enhance,
+    startedAt: previous?.startedAt ?? new Date().toISOString(),
+    updatedAt: '',
+    tasks: planTasks(sets, inputDir, previous),
+  };
+  const mismatched = previous ? mismatchedSettings(previous, report) : [];
+  if (mismatched.length > 0) {
+    const list = mismatched.length > 1 ? `${mismatched.slice(0, -1).join(', ')} and ${mismatched.at(-1)}` : mismatched[0];
+    fail(`${reportPath} belongs to a run with another ${list}. Use another --out or --report.`);
+  }
+
+  const isDone = (task: ReportTask) => isTaskDone(task, outputDir, enhance);
+
+  // Sets missing a required photo, or with a format the provider does not take, are marked failed without a call.
+  const inputProblem = (task: ReportTask): ReportTask['error'] | null => {
+    const missing = slots.filter((slot, index) => slot.required && !task.inputs[index]);
+    if (missing.length > 0) return { code: 'MISSING_INPUT', message: `Missing ${missing.map(slot => slot.role).join(', ')}.` };
+    const unsupported = task.inputs.filter(input => input && !provider.inputLimits.mimeTypes.includes(INPUT_MIME_TYPES[extname(input).toLowerCase()]));
+    if (unsupported.length > 0) return { code: 'UNSUPPORTED_INPUT', message: `${provider.name} does not take ${unsupported.join(', ')}.` };
+    return null;
+  };
+
+  const todo = report.tasks.filter(task => !isDone(task));
+  const runnable: ReportTask[] = [];
+  for (const task of todo) {
+    const problem = inputProblem(task);
+    if (problem) {
+      task.status = 'error';
+      task.error = problem;
+    } else {
+      runnable.push(task);
+    }
+  }
+  saveReport(reportPath, report);
+
+  const alreadyDone = report.tasks.length - todo.length;
+  const unusable = todo.length - runnable.length;
+  console.log(`${report.tasks.length} sets: ${alreadyDone} already done, ${runnable.length} to run, ${unusable} unusable.`);
+  if (runnable.length === 0) {
+    process.exitCode = unusable > 0 ? 1 : 0;
+    return;
+  }
+
+  // The first Ctrl+C starts no new sets but lets the requests in flight finish; the second cancels them; the third quits.
+  const control = createBatchControl();
+  let stopping = false;
+  process.once('SIGINT', () => {
+    console.log('\nNo new sets will start; waiting for the requests in flight. Press Ctrl+C again to cancel them.');
+    stopping = true;
+    process.once('SIGINT', () => {
+      console.log('\nCancelling the requests in flight… press Ctrl+C again to quit now.');
+      control.cancel();
+      process.once('SIGINT', () => process.exit(130));
+    });
+  });
+
+  let finished = 0;
+  const log = (task: ReportTask, message: string) => {
+    finished++;
+    console.log(`[${finished}/${runnable.length}] ${task.name} ${message}`);
+  };
+
+  const summary = await runBatch<void>(runnable.map((task, id) => ({
+    id,
+    run: async signal => {
+      // Sets not started before stopping are counted as left by runBatch.
+      if (stopping) throw new ServiceError('CANCELLED');
+      // With the image from an earlier run on disk, only the upscale is redone.
+      let imageUrl: string;
+      if (task.output && existsSync(join(outputDir, task.output))) {
+        const bytes = readFileSync(join(outputDir, task.output));
+        imageUrl = toDataUrl(bytes.toString('base64'), INPUT_MIME_TYPES[extname(task.output).toLowerCase()]);
+      } else {
+        const images = task.inputs.flatMap(input => input ? [readImageFile(join(inputDir, input))] : []);
+        const imageRoles = slots.filter((_, index) => task.inputs[index]).map(slot => slot.role);
+        imageUrl = await provider.generate(images, prompt, { styleId: style?.id ?? null, imageRoles, signal });
+        task.output = writeImage(outputDir, task.name, imageUrl);
+        saveReport(reportPath, report);
+      }
+      if (enhance) {
+        const enhanced = await runEnhancement(provider, imageUrl, enhance, { signal });
+        task.enhancedOutput = writeImage(outputDir, `${task.name}-${enhance}`, enhanced);
+      }
+    },
+  })), {
+    concurrency,
+    control,
+    onTaskRetry: (id, attempt, delayMs, error) => {
+      console.warn(`${runnable[id].name}: ${toServiceError(error).code}, retry ${attempt} in ${Math.round(delayMs / 1000)}s`);
+    },
+    onTaskSuccess: id => {
+      const task = runnable[id];
+      task.status = 'success';
+      task.error = undefined;
+      task.finishedAt = new Date().toISOString();
+      saveReport(reportPath, report);
+      log(task, `-> ${task.enhancedOutput ?? task.output}`);
+    },
+    onTaskError: (id, error) => {
+      const task = runnable[id];
+      const { code, message } = toServiceError(error);
+      task.status = 'error';
+      task.error = { code, message };
+      task.finishedAt = new Date().toISOString();
+      saveReport(reportPath, report);
+      log(task, `failed: ${code} ${message}`);
+    },
+  });
+
+  saveReport(reportPath, report);
+  if (summary.quotaExhausted) console.warn('The quota ran out; run the same command again later to continue.');
+  if ((summary.cancelled || stopping) && summary.pending.length > 0) console.warn('Stopped; run the same command again to continue.');
+  console.log(`Done: ${summary.succeeded.length} succeeded, ${summary.failed.length} failed, ${summary.pending.length} left. Report: ${reportPath}`);
+  // Unusable sets count as failures too, so scripts notice inputs that were skipped.
+  process.exitCode = unusable > 0 || summary.failed.length > 0 || summary.pending.length > 0 ? 1 : 0;
+};
+
+// Only run when started as a script, so the tests can import the helpers above.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,286 @@
+// Proxy that keeps the Gemini API key on the server so it is not bundled into the web app.
+// Run: GEMINI_API_KEY=... npm run proxy  (port 8787 by default)
+// Try it against the stand-in: npm run standin:gemini, then GEMINI_API_KEY=test GEMINI_UPSTREAM_URL=http://localhost:8788 npm run proxy
+//
+// Environment variables:
+//   PORT                   port to listen on (8787)
+//   GEMINI_UPSTREAM_URL    replaces Google's API address, e.g. with the stand-in
+//   ALLOWED_ORIGIN         Access-Control-Allow-Origin value (*)
+//   ALLOWED_MODELS         comma-separated list of allowed models
+//   MAX_UPLOAD_MB          largest accepted request body (20)
+//   RATE_LIMIT_PER_MINUTE  requests allowed per IP per minute (10)
+//   DAILY_CAP              successful generations and upscales per UTC day, across all clients (500)
+//   UPSTREAM_TIMEOUT_SECONDS  longest wait for one Google call before answering 504 (120)
+//   TRUST_PROXY            set to 1 behind a reverse proxy to read the client IP from X-Forwarded-For
+import http from 'node:http';
+import { GoogleGenAI, Modality } from '@google/genai';
+
+const PORT = Number(process.env.PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY;
+const UPSTREAM_URL = process.env.GEMINI_UPSTREAM_URL || undefined;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*';
+const ALLOWED_MODELS = (process.env.ALLOWED_MODELS || 'gemini-2.5-flash-image-preview,gemini-2.5-flash-image').split(',').map((model) => model.trim()).filter(Boolean);
+const MAX_UPLOAD_BYTES = (Number(process.env.MAX_UPLOAD_MB) || 20) * 1024 * 1024;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 10;
+const DAILY_CAP = Number(process.env.DAILY_CAP) || 500;
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+const UPSTREAM_TIMEOUT_MS = (Number(process.env.UPSTREAM_TIMEOUT_SECONDS) || 120) * 1000;
+
+const CHECK_MODEL = 'gemini-2.5-flash';
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const ENHANCE_QUALITIES = ['HD', '2K', '4K'];
+const MAX_TURNS = 40;
+const MAX_TEXT_LENGTH = 20000;
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set.');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY, httpOptions: UPSTREAM_URL ? { baseUrl: UPSTREAM_URL } : undefined });
+
+class HttpError extends Error {
+  constructor(status, message, retryAfterSeconds) {
+    super(message);
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// --- Limits ---
+
+const requestsByIp = new Map();
+let dailyCount = 0;
+let dailyCountDate = '';
+
+const clientIp = (req) => {
+  const forwarded = TRUST_PROXY ? req.headers['x-forwarded-for'] : undefined;
+  return (typeof forwarded === 'string' && forwarded.split(',')[0].trim()) || req.socket.remoteAddress || 'unknown';
+};
+
+// Sliding one-minute window per IP.
+const enforceRateLimit = (ip) => {
+  const now = Date.now();
+  const recent = (requestsByIp.get(ip) || []).filter((time) => now - time < 60000);
+  if (recent.length >= RATE_LIMIT_PER_MINUTE) {
+    requestsByIp.set(ip, recent);
+    throw new HttpError(429, `Rate limit of ${RATE_LIMIT_PER_MINUTE} requests per minute reached.`, Math.ceil((recent[0] + 60000 - now) / 1000));
+  }
+  recent.push(now);
+  requestsByIp.set(ip, recent);
+};
+
+// Reserves a slot under the daily cap before calling Google so parallel requests cannot overshoot it.
+// Returns a release function for failed calls, so only successful ones count.
+// "PerDay" in the message tells the browser not to retry right away.
+const reserveDailySlot = () => {
+  const today = new Date().toISOString().slice(0, 10);
+  if (today !== dailyCountDate) {
+    dailyCountDate = today;
+    dailyCount = 0;
+  }
+  if (dailyCount >= DAILY_CAP) {
+    const midnight = new Date(`${today}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000;
+    throw new HttpError(429, `The proxy's daily cap of ${DAILY_CAP} requests is used up (PerDay).`, Math.ceil((midnight - Date.now()) / 1000));
+  }
+  dailyCount++;
+  const reservedDate = dailyCountDate;
+  return () => {
+    if (dailyCountDate === reservedDate) dailyCount--;
+  };
+};
+
+// Drops IPs with no requests left in the window so the map does not grow forever.
+setInterval(() => {
+  const now = Date.now();
+  for (const [ip, times] of requestsByIp) {
+    if (times.every((time) => now - time >= 60000)) requestsByIp.delete(ip);
+  }
+}, 60000).unref();
+
+// --- Reading and validating input ---
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > MAX_UPLOAD_BYTES) {
+    reject(new HttpError(413, `Request is larger than ${MAX_UPLOAD_BYTES} bytes.`));
+    return;
+  }
+  const chunks = [];
+  let size = 0;
+  req.on('data', (chunk) => {
+    if (size > MAX_UPLOAD_BYTES) return;
+    size += chunk.length;
+    if (size > MAX_UPLOAD_BYTES) {
+      // Ignore the rest; the 413 response closes the connection.
+      chunks.length = 0;
+      reject(new HttpError(413, `Request is larger than ${MAX_UPLOAD_BYTES} bytes.`));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (size > MAX_UPLOAD_BYTES) return;
+    let body;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    } catch {
+      reject(new HttpError(400, 'Body is not valid JSON.'));
+      return;
+    }
+    // null, arrays and strings are valid JSON, but the routes read fields of an object.
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      reject(new HttpError(400, 'Body must be a JSON object.'));
+      return;
+    }
+    resolve(body);
+  });
+  req.on('error', reject);
+});
+
+const invalid = (message) => new HttpError(400, message);
+
+const checkModel = (model) => {
+  if (!ALLOWED_MODELS.includes(model)) throw invalid(`Model must be one of: ${ALLOWED_MODELS.join(', ')}.`);
+};
+
+const checkImage = (image, where) => {
+  if (!image || typeof image.data !== 'string' || !image.data) throw invalid(`${where} needs base64 data.`);
+  if (!IMAGE_MIME_TYPES.includes(image.mimeType)) throw invalid(`${where} must be one of ${IMAGE_MIME_TYPES.join(', ')}.`);
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(image.data)) throw invalid(`${where} is not valid base64.`);
+};
+
+const checkContents = (contents) => {
+  if (!Array.isArray(contents) || contents.length === 0 || contents.length > MAX_TURNS) {
+    throw invalid(`contents must be a list of 1 to ${MAX_TURNS} turns.`);
+  }
+  contents.forEach((turn, turnIndex) => {
+    if (turn?.role !== 'user' && turn?.role !== 'model') throw invalid(`contents[${turnIndex}].role must be "user" or "model".`);
+    if (!Array.isArray(turn.parts) || turn.parts.length === 0) throw invalid(`contents[${turnIndex}].parts must not be empty.`);
+    turn.parts.forEach((part, partIndex) => {
+      const where = `contents[${turnIndex}].parts[${partIndex}]`;
+      if (typeof part?.text === 'string') {
+        if (part.text.length > MAX_TEXT_LENGTH) throw invalid(`${where}.text is longer than ${MAX_TEXT_LENGTH} characters.`);
+      } else if (part?.inlineData) {
+        checkImage(part.inlineData, `${where}.inlineData`);
+      } else {
+        throw invalid(`${where} must have text or inlineData.`);
+      }
+    });
+  });
+  if (contents[contents.length - 1].role !== 'user') throw invalid('The last turn must come from the user.');
+};
+
+// --- Calling Gemini ---
+
+// Keep in sync with enhanceImage in services/geminiService.ts.
+const enhancePrompt = (quality) => `Act as a professional photo restoration and upscaling tool. Upscale this image to ${quality} resolution using super-resolution techniques. Sharpen details, remove noise and artifacts, and improve overall clarity without changing the original composition or subject. The final image must be noticeably clearer and more detailed.`;
+
+// Answers 504 when Google is too slow instead of holding the browser's connection open.
+const callUpstream = async (request) => {
+  const abortSignal = AbortSignal.timeout(UPSTREAM_TIMEOUT_MS);
+  try {
+    return await ai.models.generateContent({ ...request, config: { ...request.config, abortSignal } });
+  } catch (error) {
+    if (abortSignal.aborted) throw new HttpError(504, `Upstream did not answer within ${UPSTREAM_TIMEOUT_MS / 1000}s.`);
+    throw error;
+  }
+};
+
+// Passes the response fields through so the browser handles them as if it had called Google.
+const generateImage = async (model, contents) => {
+  const release = reserveDailySlot();
+  try {
+    const response = await callUpstream({
+      model,
+      contents,
+      config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
+    });
+    return {
+      candidates: response.candidates,
+      promptFeedback: response.promptFeedback,
+      usageMetadata: response.usageMetadata,
+    };
+  } catch (error) {
+    release();
+    throw error;
+  }
+};
+
+const routes = {
+  'POST /api/generate': async (req) => {
+    const body = await readJson(req);
+    checkModel(body.model);
+    checkContents(body.contents);
+    return generateImage(body.model, body.contents);
+  },
+  'POST /api/enhance': async (req) => {
+    const body = await readJson(req);
+    checkModel(body.model);
+    checkImage(body.image, 'image');
+    if (!ENHANCE_QUALITIES.includes(body.quality)) throw invalid(`quality must be one of ${ENHANCE_QUALITIES.join(', ')}.`);
+    return generateImage(body.model, [{
+      role: 'user',
+      parts: [{ inlineData: { data: body.image.data, mimeType: body.image.mimeType } }, { text: enhancePrompt(body.quality) }],
+    }]);
+  },
+  // Checks that the server's key still works; not counted toward the daily cap.
+  'GET /api/check': async () => {
+    await callUpstream({ model: CHECK_MODEL, contents: 'test' });
+    return { ok: true, models: ALLOWED_MODELS };
+  },
+};
+
+// --- Server ---
+
+// No Content-Type without a payload (204).
+const send = (res, status, payload, headers = {}) => {
+  res.writeHead(status, {
+    ...(payload === undefined ? {} : { 'Content-Type': 'application/json' }),
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Expose-Headers': 'Retry-After',
+    ...headers,
+  });
+  res.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+// Google errors keep their status and message (including retryDelay) so the browser classifies them as usual.
+const sendError = (res, error) => {
+  if (error instanceof HttpError) {
+    send(res, error.status, { error: { message: error.message } }, {
+      ...(error.retryAfterSeconds ? { 'Retry-After': String(error.retryAfterSeconds) } : {}),
+      ...(error.status === 413 ? { Connection: 'close' } : {}),
+    });
+    return;
+  }
+  const status = typeof error?.status === 'number' ? error.status : 502;
+  console.error('Upstream error:', error?.message || error);
+  send(res, status, { error: { message: error?.message || 'Upstream request failed.' } });
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  const path = (req.url || '').split('?')[0];
+  const route = routes[`${req.method} ${path}`];
+  if (!route) {
+    send(res, 404, { error: { message: 'Not Found' } });
+    return;
+  }
+
+  try {
+    enforceRateLimit(clientIp(req));
+    send(res, 200, await route(req));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Gemini proxy listening on http://localhost:${server.address().port}${UPSTREAM_URL ? ` (upstream ${UPSTREAM_URL})` : ''}`);
+});
@@ -0,0 +1,102 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it } from 'vitest';
+
+const PROXY = fileURLToPath(new URL('./gemini-proxy-server.mjs', import.meta.url));
+const STANDIN = fileURLToPath(new URL('./gemini-standin-server.mjs', import.meta.url));
+
+const GENERATE_BODY = {
+  model: 'gemini-2.5-flash-image',
+  contents: [{ role: 'user', parts: [{ text: 'A figurine on a desk' }] }],
+};
+
+const children: ChildProcess[] = [];
+
+// Starts a server on a free port and resolves with its base URL once it is listening.
+const start = (script: string, env: Record<string, string>) => new Promise<string>((resolve, reject) => {
+  const child = spawn(process.execPath, [script], { env: { ...process.env, ...env, PORT: '0' } });
+  children.push(child);
+  let output = '';
+  child.stdout!.on('data', chunk => {
+    output += chunk;
+    const port = output.match(/localhost:(\d+)/)?.[1];
+    if (port) resolve(`http://localhost:${port}`);
+  });
+  child.stderr!.on('data', chunk => { output += chunk; });
+  child.on('exit', code => reject(new Error(`${script} exited with ${code}: ${output}`)));
+});
+
+const startProxy = async (standinEnv: Record<string, string>, proxyEnv: Record<string, string> = {}) => {
+  const upstream = await start(STANDIN, { LATENCY_MS: '1', ...standinEnv });
+  return start(PROXY, { GEMINI_API_KEY: 'test', GEMINI_UPSTREAM_URL: upstream, ...proxyEnv });
+};
+
+const post = (url: string, body: unknown) => fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+afterEach(() => {
+  children.splice(0).forEach(child => child.kill());
+});
+
+describe('gemini proxy', () => {
+  it('forwards generations and stops at the daily cap', async () => {
+    const proxy = await startProxy({}, { DAILY_CAP: '1' });
+
+    const first = await post(`${proxy}/api/generate`, GENERATE_BODY);
+    expect(first.status).toBe(200);
+    expect((await first.json()).candidates[0].finishReason).toBe('STOP');
+
+    const second = await post(`${proxy}/api/generate`, GENERATE_BODY);
+    expect(second.status).toBe(429);
+    expect((await second.json()).error.message).toContain('PerDay');
+    expect(Number(second.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+
+  it('does not count failed upstream calls toward the daily cap', async () => {
+    const proxy = await startProxy({ FAILURE: 'invalid-key' }, { DAILY_CAP: '1' });
+
+    for (let i = 0; i < 2; i++) {
+      const response = await post(`${proxy}/api/generate`, GENERATE_BODY);
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.message).toContain('API key not valid');
+    }
+  });
+
+  it('limits requests per client and minute', async () => {
+    const proxy = await startProxy({}, { RATE_LIMIT_PER_MINUTE: '2' });
+
+    expect((await fetch(`${proxy}/api/check`)).status).toBe(200);
+    expect((await fetch(`${proxy}/api/check`)).status).toBe(200);
+    const limited = await fetch(`${proxy}/api/check`);
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+
+  it('answers 504 when the upstream does not answer in time', async () => {
+    const proxy = await startProxy({ LATENCY_MS: '3000' }, { UPSTREAM_TIMEOUT_SECONDS: '0.3' });
+
+    const response = await post(`${proxy}/api/generate`, GENERATE_BODY);
+    expect(response.status).toBe(504);
+  });
+
+  it('rejects bodies that are not JSON objects', async () => {
+    const proxy = await startProxy({});
+
+    for (const body of [null, [], 'x']) {
+      const response = await post(`${proxy}/api/generate`, body);
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.message).toBe('Body must be a JSON object.');
+    }
+  });
+
+  it('answers preflight requests without a body', async () => {
+    const proxy = await startProxy({});
+
+    const response = await fetch(`${proxy}/api/generate`, { method: 'OPTIONS' });
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Content-Type')).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+// Stand-in for the Gemini API (generateContent) to test the proxy without spending quota.
+// Run: npm run standin:gemini  (port 8788 by default, change it with PORT)
+// Returns the last image of the request. FAILURE=quota|daily-quota|invalid-key|safety simulates that error.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8788;
+const LATENCY_MS = Number(process.env.LATENCY_MS) || 800;
+const FAILURE = process.env.FAILURE || 'none';
+
+// 1x1 PNG used when the request has no image.
+const BLANK_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGP4DwABAQEAsTj2FAAAAABJRU5ErkJggg==';
+
+// An image counts as about 1290 output tokens, like the real image model.
+const IMAGE_OUTPUT_TOKENS = 1290;
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(body ? JSON.parse(body) : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res, status, payload) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+// Same error shape Google returns.
+const sendError = (res, status, statusText, message, details) => {
+  send(res, status, { error: { code: status, message, status: statusText, ...(details ? { details } : {}) } });
+};
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const lastImage = (contents) => {
+  const parts = (contents || []).flatMap((turn) => turn.parts || []);
+  return parts.reverse().find((part) => part.inlineData)?.inlineData;
+};
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const match = req.method === 'POST' && req.url.match(/^\/v1beta\/models\/([^/:]+):generateContent/);
+    if (!match) {
+      sendError(res, 404, 'NOT_FOUND', 'Not Found');
+      return;
+    }
+
+    const body = await readJson(req);
+    await delay(LATENCY_MS);
+
+    if (FAILURE === 'invalid-key') {
+      sendError(res, 400, 'INVALID_ARGUMENT', 'API key not valid. Please pass a valid API key.', [{ reason: 'API_KEY_INVALID' }]);
+      return;
+    }
+    if (FAILURE === 'quota' || FAILURE === 'daily-quota') {
+      const quotaId = FAILURE === 'quota' ? 'GenerateRequestsPerMinutePerProjectPerModel' : 'GenerateRequestsPerDayPerProjectPerModel';
+      sendError(res, 429, 'RESOURCE_EXHAUSTED', `You exceeded your current quota. Quota: ${quotaId}`, [
+        { '@type': 'type.googleapis.com/google.rpc.QuotaFailure', violations: [{ quotaId }] },
+        { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '12s' },
+      ]);
+      return;
+    }
+
+    const promptTokenCount = JSON.stringify(body.contents || []).length >> 2;
+    if (FAILURE === 'safety') {
+      send(res, 200, {
+        candidates: [{ finishReason: 'IMAGE_SAFETY', content: { role: 'model', parts: [] } }],
+        usageMetadata: { promptTokenCount, candidatesTokenCount: 0, totalTokenCount: promptTokenCount },
+      });
+      return;
+    }
+
+    // Text-only models (used for the key check) answer with text.
+    const isImageModel = match[1].includes('image');
+    const image = lastImage(body.contents);
+    const parts = isImageModel
+      ? [{ inlineData: { data: image?.data || BLANK_PNG, mimeType: image?.mimeType || 'image/png' } }]
+      : [{ text: 'ok' }];
+    const candidatesTokenCount = isImageModel ? IMAGE_OUTPUT_TOKENS : 1;
+    send(res, 200, {
+      candidates: [{ finishReason: 'STOP', content: { role: 'model', parts } }],
+      usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount },
+    });
+  } catch (error) {
+    sendError(res, 400, 'INVALID_ARGUMENT', String(error));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Gemini stand-in listening on http://localhost:${server.address().port}`);
+});
@@ -0,0 +1,74 @@
+// Stand-in for a Stable Diffusion API (AUTOMATIC1111 style) for local development.
+// Run: npm run standin:sd  (port 7860 by default, change it with PORT)
+// Returns the input image, which is enough to exercise the HTTP provider without a GPU.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 7860;
+const LATENCY_MS = Number(process.env.LATENCY_MS) || 800;
+
+// 1x1 PNG used when the request has no image.
+const BLANK_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGP4DwABAQEAsTj2FAAAAABJRU5ErkJggg==';
+
+const stripDataUrl = (value) => (typeof value === 'string' && value.includes(',') ? value.split(',')[1] : value);
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(body ? JSON.parse(body) : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  try {
+    if (req.method === 'GET' && req.url === '/sdapi/v1/sd-models') {
+      send(res, 200, [{ title: 'standin.safetensors', model_name: 'standin' }]);
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/sdapi/v1/img2img') {
+      const body = await readJson(req);
+      await delay(LATENCY_MS);
+      const image = stripDataUrl(body.init_images?.[0]) || BLANK_PNG;
+      send(res, 200, { images: [image], parameters: body, info: '{}' });
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/sdapi/v1/extra-single-image') {
+      const body = await readJson(req);
+      await delay(LATENCY_MS);
+      send(res, 200, { image: stripDataUrl(body.image) || BLANK_PNG, html_info: '' });
+      return;
+    }
+
+    send(res, 404, { detail: 'Not Found' });
+  } catch (error) {
+    send(res, 400, { detail: String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Stable Diffusion stand-in listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,99 @@
+import { BatchJobTask, ExportSettings, Style } from '../types';
+import { extensionForMimeType } from './imageUtils';
+import { exportImage } from './imageExport';
+import { ZipEntry, createZip } from './zip';
+
+const NAMING_PATTERN_KEY = 'batchNamingPattern';
+export const DEFAULT_NAMING_PATTERN = '{style}_{set}_{original-filename}';
+export const NAMING_TOKENS = ['{style}', '{style-id}', '{set}', '{original-filename}', '{date}'];
+
+export const BATCH_EXPORT_FORMAT = 'tao-anh-trend/batch-export';
+export const BATCH_EXPORT_VERSION = 1;
+
+export const loadNamingPattern = (): string => localStorage.getItem(NAMING_PATTERN_KEY) || DEFAULT_NAMING_PATTERN;
+
+export const saveNamingPattern = (pattern: string) => {
+  localStorage.setItem(NAMING_PATTERN_KEY, pattern);
+};
+
+// Keeps letters (including Vietnamese), digits, dot, dash and underscore.
+const sanitizeFileName = (value: string): string =>
+  value
+    .normalize('NFC')
+    .replace(/[^\p{L}\p{N}._-]+/gu, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '');
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const applyNamingPattern = (pattern: string, style: Style | null, task: BatchJobTask, taskCount: number, date: Date): string => {
+  const values: Record<string, string> = {
+    '{style}': style?.name ?? 'custom',
+    '{style-id}': style?.id ?? 'custom',
+    '{set}': String(task.taskId + 1).padStart(String(taskCount).length, '0'),
+    '{original-filename}': task.images[0] ? stripExtension(task.images[0].name) : '',
+    '{date}': date.toISOString().slice(0, 10),
+  };
+  const name = (pattern.trim() || DEFAULT_NAMING_PATTERN).replace(/\{[a-z-]+\}/g, token => values[token] ?? token);
+  return sanitizeFileName(name) || `anh-${task.taskId + 1}`;
+};
+
+/**
+ * Builds a ZIP with every successful output, converted with the export settings, plus
+ * a manifest.json describing all tasks, including the failed and unfinished ones.
+ */
+export const buildBatchZip = async (
+  tasks: BatchJobTask[],
+  style: Style | null,
+  pattern: string,
+  model: string,
+  exportSettings: ExportSettings,
+): Promise<Blob> => {
+  const now = new Date();
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = [];
+
+  const manifestTasks = [];
+  for (const task of tasks) {
+    let file: string | null = null;
+    if (task.status === 'success' && task.imageUrl) {
+      const { blob, mimeType } = await exportImage(task.imageUrl, exportSettings);
+      const extension = extensionForMimeType(mimeType);
+      const base = applyNamingPattern(pattern, style, task, tasks.length, now);
+      file = `${base}.${extension}`;
+      for (let n = 2; usedNames.has(file); n++) {
+        file = `${base}-${n}.${extension}`;
+      }
+      usedNames.add(file);
+      entries.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()), lastModified: now });
+    }
+    manifestTasks.push({
+      set: task.taskId + 1,
+      status: task.status,
+      file,
+      error: task.error ?? null,
+      prompt: task.prompt,
+      mask: task.mask ? task.mask.name : null,
+      inputs: task.images.map((image, index) => ({
+        role: task.roles[index] ?? null,
+        filename: image.name,
+        mimeType: image.type,
+        size: image.size,
+      })),
+    });
+  }
+
+  const manifest = {
+    format: BATCH_EXPORT_FORMAT,
+    version: BATCH_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    model,
+    style: style ? { id: style.id, name: style.name } : null,
+    namingPattern: pattern,
+    exportSettings,
+    tasks: manifestTasks,
+  };
+  entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2), lastModified: now });
+
+  return createZip(entries);
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { BatchJob, BatchJobTask } from '../types';
+import { getResumableTasks, isBatchJobFinished } from './batchJobService';
+
+const task = (taskId: number, patch: Partial<BatchJobTask>): BatchJobTask => ({
+  taskId,
+  images: [],
+  roles: [],
+  prompt: 'prompt',
+  status: 'queued',
+  ...patch,
+});
+
+const job = (tasks: BatchJobTask[]): BatchJob => ({ id: 'job', createdAt: 0, updatedAt: 0, styleId: 'style', tasks });
+
+describe('getResumableTasks', () => {
+  it('keeps queued tasks and failures worth another try', () => {
+    const resumable = getResumableTasks(job([
+      task(0, { status: 'success' }),
+      task(1, { status: 'queued' }),
+      task(2, { status: 'error', errorCode: 'NETWORK' }),
+      task(3, { status: 'error', errorCode: 'SAFETY' }),
+      task(4, { status: 'error', errorCode: 'REFUSAL' }),
+      // Saved before error codes were recorded.
+      task(5, { status: 'error' }),
+    ]));
+    expect(resumable.map(t => t.taskId)).toEqual([1, 2, 5]);
+  });
+});
+
+describe('isBatchJobFinished', () => {
+  it('counts a job whose remaining tasks all failed permanently as finished', () => {
+    expect(isBatchJobFinished(job([task(0, { status: 'success' }), task(1, { status: 'error', errorCode: 'SAFETY' })]))).toBe(true);
+    expect(isBatchJobFinished(job([task(0, { status: 'success' }), task(1, { status: 'error', errorCode: 'TIMEOUT' })]))).toBe(false);
+    expect(isBatchJobFinished(job([task(0, { status: 'queued' })]))).toBe(false);
+  });
+});
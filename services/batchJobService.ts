@@ -0,0 +1,76 @@
+import { BatchJob, BatchJobTask } from '../types';
+import { STORES, createId, openDb, requestToPromise, withStore } from './db';
+
+// Blocked or refused prompts fail the same way on every try, so resuming does not resend them.
+const PERMANENT_ERROR_CODES = ['SAFETY', 'REFUSAL'];
+
+export const isPermanentlyFailed = (task: BatchJobTask): boolean =>
+  task.status === 'error' && PERMANENT_ERROR_CODES.includes(task.errorCode ?? '');
+
+// Tasks a resume runs again: everything not done yet, minus permanent failures.
+export const getResumableTasks = (job: BatchJob): BatchJobTask[] =>
+  job.tasks.filter(task => task.status !== 'success' && !isPermanentlyFailed(task));
+
+export const isBatchJobFinished = (job: BatchJob): boolean => getResumableTasks(job).length === 0;
+
+/**
+ * Saves a new job and drops any older ones: only the latest batch can be resumed.
+ */
+export const createBatchJob = async (styleId: string, tasks: Omit<BatchJobTask, 'status'>[]): Promise<BatchJob> => {
+  const now = Date.now();
+  const job: BatchJob = {
+    id: createId(),
+    createdAt: now,
+    updatedAt: now,
+    styleId,
+    tasks: tasks.map(task => ({ ...task, status: 'queued' })),
+  };
+  await withStore(STORES.batchJobs, 'readwrite', store => store.clear());
+  await withStore(STORES.batchJobs, 'readwrite', store => store.put(job));
+  return job;
+};
+
+/**
+ * Returns the most recent job that still has tasks left to run.
+ */
+export const findUnfinishedBatchJob = async (): Promise<BatchJob | null> => {
+  const jobs = await withStore<BatchJob[]>(STORES.batchJobs, 'readonly', store => store.getAll());
+  const unfinished = jobs
+    .filter(job => !isBatchJobFinished(job))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  return unfinished[0] ?? null;
+};
+
+// Read and write happen in one transaction so concurrent task updates cannot overwrite each other.
+export const updateBatchJobTask = async (jobId: string, taskId: number, patch: Partial<Omit<BatchJobTask, 'taskId'>>): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction(STORES.batchJobs, 'readwrite');
+  const store = transaction.objectStore(STORES.batchJobs);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  const job = await requestToPromise<BatchJob | undefined>(store.get(jobId));
+  if (job) {
+    store.put({
+      ...job,
+      updatedAt: Date.now(),
+      tasks: job.tasks.map(task => (task.taskId === taskId ? { ...task, ...patch } : task)),
+    });
+  }
+  await done;
+};
+
+export const deleteBatchJob = async (id: string): Promise<void> => {
+  await withStore(STORES.batchJobs, 'readwrite', store => store.delete(id));
+};
+
+// Finished jobs are not offered for resuming, so their stored files and outputs can go.
+export const deleteBatchJobIfFinished = async (id: string): Promise<void> => {
+  const job = await withStore<BatchJob | undefined>(STORES.batchJobs, 'readonly', store => store.get(id));
+  if (job && isBatchJobFinished(job)) {
+    await deleteBatchJob(id);
+  }
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BatchTask, createBatchControl, runBatch } from './batchRunner';
+import { ServiceError } from './serviceError';
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 5 };
+
+const tasks = (count: number, run: (id: number, signal: AbortSignal) => Promise<number>): BatchTask<number>[] =>
+  Array.from({ length: count }, (_, id) => ({ id, run: signal => run(id, signal) }));
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('runBatch', () => {
+  it('runs every task without exceeding the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results: number[] = [];
+    const summary = await runBatch(tasks(6, async id => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await tick();
+      inFlight--;
+      return id * 10;
+    }), { concurrency: 2, onTaskSuccess: (_, result) => results.push(result) });
+
+    expect(maxInFlight).toBe(2);
+    expect(summary.succeeded.sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(results.sort((a, b) => a - b)).toEqual([0, 10, 20, 30, 40, 50]);
+    expect(summary).toMatchObject({ failed: [], pending: [], quotaExhausted: false, cancelled: false });
+  });
+
+  it('retries transient failures and reports each retry', async () => {
+    let attempts = 0;
+    const onTaskRetry = vi.fn();
+    const summary = await runBatch(tasks(1, async () => {
+      attempts++;
+      if (attempts < 3) throw new ServiceError('NETWORK');
+      return 1;
+    }), { concurrency: 1, ...FAST, onTaskRetry });
+
+    expect(summary.succeeded).toEqual([0]);
+    expect(onTaskRetry).toHaveBeenCalledTimes(2);
+    expect(onTaskRetry.mock.calls.map(call => call[1])).toEqual([1, 2]);
+  });
+
+  it('fails a task after its retries run out', async () => {
+    const onTaskError = vi.fn();
+    const summary = await runBatch(tasks(1, async () => {
+      throw new ServiceError('TIMEOUT');
+    }), { concurrency: 1, maxRetries: 2, ...FAST, onTaskError });
+
+    expect(summary.failed).toEqual([0]);
+    expect(onTaskError).toHaveBeenCalledOnce();
+  });
+
+  it('does not retry errors that are not transient', async () => {
+    const run = vi.fn(async () => {
+      throw new ServiceError('SAFETY');
+    });
+    const summary = await runBatch([{ id: 0, run }], { concurrency: 1, ...FAST });
+
+    expect(run).toHaveBeenCalledOnce();
+    expect(summary.failed).toEqual([0]);
+  });
+
+  it('caps a server retry hint at maxDelayMs', async () => {
+    let attempts = 0;
+    const onTaskRetry = vi.fn();
+    await runBatch(tasks(1, async () => {
+      attempts++;
+      if (attempts === 1) throw new ServiceError('QUOTA_EXHAUSTED', 'slow down', { retryAfterMs: 60 * 60 * 1000 });
+      return 1;
+    }), { concurrency: 1, ...FAST, onTaskRetry });
+
+    expect(onTaskRetry.mock.calls[0][2]).toBe(FAST.maxDelayMs);
+  });
+
+  it('stops on a daily quota and leaves the unfinished tasks pending', async () => {
+    const started: number[] = [];
+    const summary = await runBatch(tasks(4, async id => {
+      started.push(id);
+      throw new ServiceError('QUOTA_EXHAUSTED', 'GenerateRequestsPerDay', {}, false);
+    }), { concurrency: 1, ...FAST });
+
+    expect(started).toEqual([0]);
+    expect(summary.quotaExhausted).toBe(true);
+    expect(summary.pending.sort()).toEqual([0, 1, 2, 3]);
+    expect(summary.failed).toEqual([]);
+  });
+
+  it('treats a rate limit that outlasts every retry as an exhausted quota', async () => {
+    const summary = await runBatch(tasks(2, async () => {
+      throw new ServiceError('QUOTA_EXHAUSTED');
+    }), { concurrency: 1, maxRetries: 1, ...FAST });
+
+    expect(summary.quotaExhausted).toBe(true);
+    expect(summary.pending.sort()).toEqual([0, 1]);
+  });
+
+  it('reports unfinished tasks as pending when cancelled', async () => {
+    const control = createBatchControl();
+    const summary = await runBatch(tasks(3, async (id, signal) => {
+      if (id === 0) {
+        control.cancel();
+        expect(signal.aborted).toBe(true);
+        throw new ServiceError('CANCELLED');
+      }
+      return id;
+    }), { concurrency: 1, control });
+
+    expect(summary.cancelled).toBe(true);
+    expect(summary.succeeded).toEqual([]);
+    expect(summary.pending.sort()).toEqual([0, 1, 2]);
+  });
+
+  it('holds the queue while paused and continues on resume', async () => {
+    const control = createBatchControl();
+    control.pause();
+    const run = vi.fn(async (id: number) => id);
+    const done = runBatch(tasks(2, run), { concurrency: 1, control });
+
+    await tick();
+    expect(run).not.toHaveBeenCalled();
+    control.resume();
+
+    const summary = await done;
+    expect(summary.succeeded).toEqual([0, 1]);
+  });
+});
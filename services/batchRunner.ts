@@ -0,0 +1,186 @@
+import { isCancelledError } from './requestSignal';
+import { toServiceError } from './serviceError';
+
+export interface BatchTask<T> {
+  id: number;
+  // Receives the run's cancel signal, to be passed on to the provider.
+  run: (signal: AbortSignal) => Promise<T>;
+}
+
+/**
+ * Pause/resume/cancel handle for a running batch. Pausing only holds the queue:
+ * tasks already in flight are allowed to finish.
+ */
+export interface BatchControl {
+  readonly signal: AbortSignal;
+  isPaused: () => boolean;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Resolves immediately when not paused, otherwise on resume or cancel.
+  waitWhilePaused: () => Promise<void>;
+}
+
+export const createBatchControl = (): BatchControl => {
+  const controller = new AbortController();
+  let paused = false;
+  let waiters: (() => void)[] = [];
+  const release = () => {
+    waiters.forEach(resolve => resolve());
+    waiters = [];
+  };
+
+  return {
+    signal: controller.signal,
+    isPaused: () => paused,
+    pause: () => { paused = true; },
+    resume: () => {
+      paused = false;
+      release();
+    },
+    cancel: () => {
+      controller.abort();
+      release();
+    },
+    waitWhilePaused: () => (paused && !controller.signal.aborted
+      ? new Promise<void>(resolve => waiters.push(resolve))
+      : Promise.resolve()),
+  };
+};
+
+export interface BatchRunnerOptions<T> {
+  concurrency: number;
+  // Retries per task for transient failures (429, 5xx, network).
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onTaskStart?: (id: number, attempt: number) => void;
+  onTaskRetry?: (id: number, attempt: number, delayMs: number, error: unknown) => void;
+  onTaskSuccess?: (id: number, result: T) => void;
+  onTaskError?: (id: number, error: unknown) => void;
+  control?: BatchControl;
+}
+
+export interface BatchRunSummary {
+  succeeded: number[];
+  failed: number[];
+  // Tasks that were never finished because the quota ran out; they can be run again later.
+  pending: number[];
+  quotaExhausted: boolean;
+  cancelled: boolean;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 2000;
+const DEFAULT_MAX_DELAY_MS = 60000;
+
+// Resolves early when the signal aborts so a cancelled run does not sit out its backoff.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(done, ms);
+  function done() {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  }
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+export const isRateLimitError = (error: unknown): boolean => toServiceError(error).code === 'QUOTA_EXHAUSTED';
+
+// Daily / zero-limit quotas are marked not retryable: they will not recover by waiting a few seconds.
+const isHardQuotaError = (error: unknown): boolean => isRateLimitError(error) && !toServiceError(error).retryable;
+
+export const isRetryableError = (error: unknown): boolean => toServiceError(error).retryable;
+
+// Server retry hint (Gemini's RetryInfo or a retry-after header), when there was one.
+export const getRetryAfterMs = (error: unknown): number | null => toServiceError(error).details.retryAfterMs ?? null;
+
+const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  // Jitter keeps concurrent workers from retrying in lockstep.
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+};
+
+/**
+ * Runs tasks with a concurrency limit. Transient failures are retried with exponential
+ * backoff (honoring server retry hints); a rate limit also pauses the other workers.
+ * When the quota is exhausted or the run is cancelled, no new tasks are started and
+ * unfinished ones are reported as pending instead of failed.
+ */
+export const runBatch = async <T>(tasks: BatchTask<T>[], options: BatchRunnerOptions<T>): Promise<BatchRunSummary> => {
+  const {
+    concurrency,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  } = options;
+
+  const queue = [...tasks];
+  const summary: BatchRunSummary = { succeeded: [], failed: [], pending: [], quotaExhausted: false, cancelled: false };
+  const signal = options.control?.signal ?? new AbortController().signal;
+  let pauseUntil = 0;
+  const shouldStop = () => summary.quotaExhausted || signal.aborted;
+
+  const runTask = async (task: BatchTask<T>) => {
+    for (let attempt = 0; ; attempt++) {
+      const wait = pauseUntil - Date.now();
+      if (wait > 0) await sleep(wait, signal);
+      if (shouldStop()) {
+        summary.pending.push(task.id);
+        return;
+      }
+
+      options.onTaskStart?.(task.id, attempt);
+      try {
+        const result = await task.run(signal);
+        summary.succeeded.push(task.id);
+        options.onTaskSuccess?.(task.id, result);
+        return;
+      } catch (error) {
+        if (signal.aborted || isCancelledError(error)) {
+          summary.pending.push(task.id);
+          return;
+        }
+        if (isHardQuotaError(error)) {
+          summary.quotaExhausted = true;
+          summary.pending.push(task.id);
+          return;
+        }
+        if (isRetryableError(error) && attempt < maxRetries) {
+          // A server hint is honored up to maxDelayMs so one long Retry-After cannot stall the batch.
+          const retryAfterMs = getRetryAfterMs(error);
+          const delayMs = retryAfterMs !== null ? Math.min(retryAfterMs, maxDelayMs) : backoffDelay(attempt, baseDelayMs, maxDelayMs);
+          if (isRateLimitError(error)) {
+            pauseUntil = Math.max(pauseUntil, Date.now() + delayMs);
+          }
+          options.onTaskRetry?.(task.id, attempt + 1, delayMs, error);
+          await sleep(delayMs, signal);
+          continue;
+        }
+        if (isRateLimitError(error)) {
+          // Still rate limited after every retry: treat the quota as used up.
+          summary.quotaExhausted = true;
+          summary.pending.push(task.id);
+          return;
+        }
+        summary.failed.push(task.id);
+        options.onTaskError?.(task.id, error);
+        return;
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (!shouldStop() && queue.length > 0) {
+      await options.control?.waitWhilePaused();
+      if (shouldStop() || queue.length === 0) break;
+      await runTask(queue.shift()!);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  summary.pending.push(...queue.map(task => task.id));
+  summary.cancelled = signal.aborted;
+  return summary;
+};
@@ -0,0 +1,81 @@
+// Shared IndexedDB connection for everything the app keeps locally.
+const DB_NAME = 'tao-anh-trend';
+const DB_VERSION = 4;
+
+export const STORES = {
+  history: 'history',
+  batchJobs: 'batchJobs',
+  usage: 'usage',
+  resultCache: 'resultCache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.history)) {
+        const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+        history.createIndex('createdAt', 'createdAt');
+        history.createIndex('styleId', 'styleId');
+      }
+      if (!db.objectStoreNames.contains(STORES.batchJobs)) {
+        db.createObjectStore(STORES.batchJobs, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.usage)) {
+        const usage = db.createObjectStore(STORES.usage, { keyPath: 'id' });
+        usage.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(STORES.resultCache)) {
+        const cache = db.createObjectStore(STORES.resultCache, { keyPath: 'key' });
+        cache.createIndex('lastUsedAt', 'lastUsedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed.
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const [result] = await Promise.all([requestToPromise(run(transaction.objectStore(storeName))), done]);
+  return result;
+};
+
+export const createId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
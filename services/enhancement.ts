@@ -0,0 +1,28 @@
+import { EnhanceQuality, ImageProvider, RequestOptions } from '../types';
+
+// 4K is reached with a second pass over the first result; one request rarely gets there.
+export const ENHANCE_PASSES: Record<EnhanceQuality, number> = {
+  HD: 1,
+  '2K': 1,
+  '4K': 2,
+};
+
+/**
+ * Runs every pass of an enhancement, tagging progress events with the pass number.
+ */
+export const runEnhancement = async (
+  provider: ImageProvider,
+  imageDataUrl: string,
+  quality: EnhanceQuality,
+  options: RequestOptions = {},
+): Promise<string> => {
+  const totalPasses = ENHANCE_PASSES[quality];
+  let result = imageDataUrl;
+  for (let pass = 1; pass <= totalPasses; pass++) {
+    result = await provider.enhance(result, quality, {
+      ...options,
+      onProgress: options.onProgress && (event => options.onProgress!({ ...event, pass, totalPasses })),
+    });
+  }
+  return result;
+};
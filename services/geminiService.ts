@@ -1,20 +1,29 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-
-const fileToGenerativePart = async (file: File) => {
-  const base64EncodedDataPromise = new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        resolve(reader.result.split(',')[1]);
-      } else {
-        reject(new Error('Failed to read file as data URL.'));
-      }
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsDataURL(file);
-  });
-  
-  const data = await base64EncodedDataPromise;
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Modality } from "@google/genai";
+import { ConversationTurn, EnhanceQuality, InpaintMask, InputLimits, RequestOptions } from "../types";
+import { fileToBase64, splitDataUrl, toDataUrl } from "./imageUtils";
+import { withRequestSignal } from "./requestSignal";
+import { reportProgress } from "./progress";
+import { SAFETY_FINISH_REASONS, ServiceError, toServiceError } from "./serviceError";
+import { t } from "./i18n";
+import { findKeyLabel } from "./keyPool";
+import { TokenUsage, trackUsage } from "./usageService";
+
+export const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+// Gemini downsamples larger inputs itself, so extra pixels only cost upload time and tokens.
+const GEMINI_MAX_INPUT_EDGE: Record<string, number> = {
+  'gemini-2.5-flash-image-preview': 2048,
+  'gemini-2.5-flash-image': 2048,
+};
+const GEMINI_DEFAULT_MAX_INPUT_EDGE = 3072;
+
+export const getGeminiInputLimits = (model: string): InputLimits => ({
+  maxLongEdge: GEMINI_MAX_INPUT_EDGE[model] ?? GEMINI_DEFAULT_MAX_INPUT_EDGE,
+  mimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+});
+
+const fileToGenerativePart = async (file: Blob) => {
+  const data = await fileToBase64(file);
   return {
     inlineData: {
       data,
@@ -24,16 +33,23 @@ const fileToGenerativePart = async (file: File) => {
 };
 
 const dataUrlToGenerativePart = async (dataUrl: string) => {
-  const base64Data = dataUrl.split(',')[1];
-  const mimeType = dataUrl.match(/:(.*?);/)?.[1] ?? 'image/png';
   return {
-    inlineData: {
-      data: base64Data,
-      mimeType: mimeType,
-    },
+    inlineData: splitDataUrl(dataUrl),
   };
 };
 
+export interface GenerateTrendImageOptions extends RequestOptions {
+  model?: string;
+  // Recorded with the call's usage.
+  styleId?: string | null;
+  // Role of each image (e.g. "man", "woman"), sent as a label right before that image.
+  imageRoles?: string[];
+  // Sent after the photos, introduced by the style's instruction for reading it.
+  mask?: InpaintMask;
+  // Send the request to this proxy instead of calling Google with a key.
+  proxyUrl?: string;
+}
+
 const getApiKey = (userApiKey?: string | null): string => {
     // Ưu tiên key do người dùng cung cấp trong cài đặt.
     if (userApiKey && userApiKey.trim() !== '') {
@@ -45,102 +61,259 @@ const getApiKey = (userApiKey?: string | null): string => {
         return studioKey;
     }
     // Nếu cả hai đều không có, báo lỗi.
-    throw new Error("NO_API_KEY");
+    throw new ServiceError('NO_API_KEY');
 }
 
+const VALIDATION_MODEL = 'gemini-2.5-flash';
+
+const readUsage = (usage: TokenUsage, metadata?: GenerateContentResponseUsageMetadata) => {
+  usage.inputTokens = metadata?.promptTokenCount ?? 0;
+  usage.outputTokens = metadata?.candidatesTokenCount ?? 0;
+  usage.totalTokens = metadata?.totalTokenCount ?? usage.inputTokens + usage.outputTokens;
+};
+
 export const validateApiKey = async (apiKey: string): Promise<{ success: boolean; error?: string }> => {
     if (!apiKey) {
-        return { success: false, error: "API Key không được để trống." };
+        return { success: false, error: t('apiKey.empty') };
     }
     try {
         const ai = new GoogleGenAI({ apiKey });
         // Perform a lightweight, low-cost operation to validate the key
-        await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: 'test',
+        await trackUsage({ operation: 'validate', model: VALIDATION_MODEL, keyLabel: findKeyLabel(apiKey) }, async usage => {
+            const response = await ai.models.generateContent({
+                model: VALIDATION_MODEL,
+                contents: 'test',
+            });
+            readUsage(usage, response.usageMetadata);
         });
         return { success: true };
     } catch (error) {
         if (error instanceof Error) {
             return { success: false, error: error.message };
         }
-        return { success: false, error: "Lỗi không xác định khi xác thực Key." };
+        return { success: false, error: t('apiKey.validateFailed') };
     }
 };
 
+const trimProxyUrl = (url: string) => url.trim().replace(/\/+$/, '');
 
-export const generateTrendImage = async (images: File[], prompt: string, userApiKey?: string | null): Promise<string> => {
-  const apiKey = getApiKey(userApiKey);
-  const ai = new GoogleGenAI({ apiKey });
+// The proxy checks its own key, so nothing is sent from the browser but the request.
+export const checkProxy = async (proxyUrl: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+        const response = await fetch(`${trimProxyUrl(proxyUrl)}/api/check`);
+        if (!response.ok) {
+            const text = await response.text().catch(() => '');
+            throw toServiceError({ status: response.status, message: `HTTP ${response.status} ${response.statusText}: ${text}` });
+        }
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: toServiceError(error).message || t('apiKey.validateFailed') };
+    }
+};
 
-  const imageParts = await Promise.all(images.map(fileToGenerativePart));
-  const textPart = { text: prompt };
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
-      contents: {
-        parts: [...imageParts, textPart],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE, Modality.TEXT],
-      },
-    });
+type ContentPart = { text: string } | { inlineData: { data: string; mimeType: string } };
+type ContentTurn = { role: 'user' | 'model'; parts: ContentPart[] };
 
-    if (response.candidates?.[0]?.finishReason === 'SAFETY') {
-        throw new Error('SAFETY');
-    }
+// What came back for one request, whether streamed or fetched from the proxy in one piece.
+interface CollectedResponse {
+  finishReason?: string;
+  blockReason?: string;
+  blockedCategory?: string;
+  imagePart?: { data?: string; mimeType?: string };
+  text: string;
+  usageMetadata?: GenerateContentResponseUsageMetadata;
+}
 
-    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+// Subset of GenerateContentResponse shared by stream chunks and the proxy's JSON.
+interface ResponseChunk {
+  candidates?: { finishReason?: string; safetyRatings?: { blocked?: boolean; category?: string }[]; content?: { parts?: { text?: string; inlineData?: { data?: string; mimeType?: string } }[] } }[];
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: GenerateContentResponseUsageMetadata;
+}
 
-    if (imagePart && imagePart.inlineData) {
-      return `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
-    }
-    
-    // Pass the model's text response in the error for better debugging
-    const textResponse = response.text || 'Không nhận được phản hồi hợp lệ từ mô hình.';
-    throw new Error(`MODEL_ERROR: ${textResponse}`);
-  } catch (error) {
-    // Re-throw the error to be handled by the UI component
-    throw error;
-  }
+const absorbChunk = (collected: CollectedResponse, chunk: ResponseChunk) => {
+  collected.blockReason = chunk.promptFeedback?.blockReason ?? collected.blockReason;
+  // Sent with the last chunk.
+  collected.usageMetadata = chunk.usageMetadata ?? collected.usageMetadata;
+  const candidate = chunk.candidates?.[0];
+  collected.finishReason = candidate?.finishReason ?? collected.finishReason;
+  collected.blockedCategory = candidate?.safetyRatings?.find(rating => rating.blocked)?.category ?? collected.blockedCategory;
+  candidate?.content?.parts?.forEach(part => {
+    if (part.inlineData && !collected.imagePart) collected.imagePart = part.inlineData;
+    if (part.text) collected.text += part.text;
+  });
 };
 
-export const enhanceImage = async (imageDataUrl: string, quality: 'HD' | '2K' | '4K', userApiKey?: string | null): Promise<string> => {
-  const apiKey = getApiKey(userApiKey);
-  const ai = new GoogleGenAI({ apiKey });
+// Either a key to call Google with, or a proxy that holds the key server-side.
+type GeminiTarget = { kind: 'direct'; apiKey: string } | { kind: 'proxy'; url: string };
 
-  const imagePart = await dataUrlToGenerativePart(imageDataUrl);
-  
-  const promptText = `Hoạt động như một công cụ phục hồi và nâng cấp ảnh chuyên nghiệp. Nâng cấp hình ảnh này lên độ phân giải ${quality} bằng các thuật toán siêu phân giải. Làm sắc nét các chi tiết, loại bỏ nhiễu và các tạo tác, đồng thời cải thiện độ rõ nét tổng thể mà không làm thay đổi bố cục hoặc chủ thể ban đầu. Hình ảnh cuối cùng phải rõ ràng và chi tiết hơn đáng kể.`;
+const resolveTarget = (userApiKey?: string | null, proxyUrl?: string): GeminiTarget => (
+  proxyUrl?.trim()
+    ? { kind: 'proxy', url: trimProxyUrl(proxyUrl) }
+    : { kind: 'direct', apiKey: getApiKey(userApiKey) }
+);
 
-  const textPart = { text: promptText };
+// Usage is grouped by key label; proxy calls are grouped under the proxy's host.
+const targetLabel = (target: GeminiTarget): string | null => (
+  target.kind === 'proxy' ? target.url.replace(/^https?:\/\//, '') : findKeyLabel(target.apiKey)
+);
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
-      contents: {
-        parts: [imagePart, textPart],
-      },
+/**
+ * Sends an image request through the streaming API so progress can be reported
+ * as chunks arrive.
+ */
+const streamFromGemini = (apiKey: string, model: string, contents: ContentTurn[], requestOptions: RequestOptions): Promise<CollectedResponse> => {
+  reportProgress(requestOptions, 'requesting');
+  const ai = new GoogleGenAI({ apiKey });
+  return withRequestSignal(async abortSignal => {
+    const stream = await ai.models.generateContentStream({
+      model,
+      contents,
       config: {
         responseModalities: [Modality.IMAGE, Modality.TEXT],
+        abortSignal,
       },
     });
 
-    if (response.candidates?.[0]?.finishReason === 'SAFETY') {
-        throw new Error('SAFETY');
+    const collected: CollectedResponse = { text: '' };
+    let chunks = 0;
+    for await (const chunk of stream) {
+      chunks++;
+      reportProgress(requestOptions, 'streaming', { chunks });
+      absorbChunk(collected, chunk);
     }
+    return collected;
+  }, requestOptions).catch(error => {
+    throw toServiceError(error);
+  });
+};
 
-    const newImagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (newImagePart && newImagePart.inlineData) {
-      return `data:${newImagePart.inlineData.mimeType};base64,${newImagePart.inlineData.data}`;
+// The proxy answers in one piece, with Google's status and message passed through on errors.
+const postToProxy = (proxyUrl: string, path: string, body: unknown, requestOptions: RequestOptions): Promise<CollectedResponse> => {
+  reportProgress(requestOptions, 'requesting');
+  return withRequestSignal(async signal => {
+    const response = await fetch(`${proxyUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const retryAfter = response.headers.get('retry-after');
+      throw toServiceError({
+        status: response.status,
+        message: `HTTP ${response.status} ${response.statusText}: ${text}${retryAfter ? ` (retry-after: ${retryAfter})` : ''}`,
+      });
     }
+    const collected: CollectedResponse = { text: '' };
+    absorbChunk(collected, await response.json());
+    return collected;
+  }, requestOptions).catch(error => {
+    throw toServiceError(error);
+  });
+};
+
+const requestContents = (target: GeminiTarget, model: string, contents: ContentTurn[], requestOptions: RequestOptions): Promise<CollectedResponse> => (
+  target.kind === 'proxy'
+    ? postToProxy(target.url, '/api/generate', { model, contents }, requestOptions)
+    : streamFromGemini(target.apiKey, model, contents, requestOptions)
+);
+
+// Picks the image out of a collected response, or explains why there is none.
+const readImage = ({ finishReason, blockReason, blockedCategory, imagePart, text, usageMetadata }: CollectedResponse, requestOptions: RequestOptions, usage: TokenUsage): string => {
+  // Blocked and refused answers are billed too.
+  readUsage(usage, usageMetadata);
+
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    const safetyCategory = blockedCategory ?? blockReason ?? finishReason;
+    throw new ServiceError('SAFETY', `Blocked for safety: ${safetyCategory}`, { safetyCategory, raw: { finishReason, blockReason, text } });
+  }
+
+  if (imagePart?.data) {
+    reportProgress(requestOptions, 'decoding');
+    const dataUrl = toDataUrl(imagePart.data, imagePart.mimeType);
+    reportProgress(requestOptions, 'done');
+    return dataUrl;
+  }
+
+  // Text without an image is the model declining; an empty answer is usually transient.
+  if (text) {
+    throw new ServiceError('REFUSAL', text, { modelText: text, raw: { finishReason } });
+  }
+  throw new ServiceError('UNKNOWN', 'The model returned no image.', { raw: { finishReason } }, true);
+};
+
+// Parts of a generation request: the labeled photos, the optional mask, then the prompt.
+const buildGenerationParts = async (images: File[], prompt: string, imageRoles: string[], mask?: InpaintMask): Promise<ContentPart[]> => {
+  const imageParts = await Promise.all(images.map(fileToGenerativePart));
+  // Label each photo with its role so the model knows which photo is which.
+  const labeledImageParts = imageParts.flatMap((part, index) => (
+    imageRoles[index] ? [{ text: `Image ${index + 1}: the ${imageRoles[index]}.` }, part] : [part]
+  ));
+  const maskParts = mask
+    ? [{ text: `Image ${images.length + 1}: ${mask.instruction}` }, await fileToGenerativePart(mask.image)]
+    : [];
+  return [...labeledImageParts, ...maskParts, { text: prompt }];
+};
+
+export const generateTrendImage = async (images: File[], prompt: string, userApiKey?: string | null, options: GenerateTrendImageOptions = {}): Promise<string> => {
+  const { model = DEFAULT_IMAGE_MODEL, styleId, imageRoles = [], mask, proxyUrl, ...requestOptions } = options;
+  const target = resolveTarget(userApiKey, proxyUrl);
 
-    const textResponse = response.text || 'Không nhận được phản hồi hợp lệ từ mô hình.';
-    throw new Error(`MODEL_ERROR: ${textResponse}`);
-  } catch (error) {
-    // Re-throw the error to be handled by the UI component
-    throw error;
+  reportProgress(requestOptions, 'encoding');
+  const parts = await buildGenerationParts(images, prompt, imageRoles, mask);
+
+  return trackUsage({ operation: 'generate', model, styleId, keyLabel: targetLabel(target) }, async usage => (
+    readImage(await requestContents(target, model, [{ role: 'user', parts }], requestOptions), requestOptions, usage)
+  ));
+};
+
+/**
+ * Asks for a change to an earlier result. The original request and every
+ * turn since are replayed as chat history, so the model keeps the context
+ * of the first prompt instead of starting over from the last image.
+ */
+export const refineTrendImage = async (images: File[], turns: ConversationTurn[], instruction: string, userApiKey?: string | null, options: GenerateTrendImageOptions = {}): Promise<string> => {
+  const { model = DEFAULT_IMAGE_MODEL, styleId, imageRoles = [], mask, proxyUrl, ...requestOptions } = options;
+  const target = resolveTarget(userApiKey, proxyUrl);
+  const [firstTurn, ...laterTurns] = turns;
+  if (!firstTurn) throw new ServiceError('UNKNOWN', 'There is no result to refine.');
+
+  reportProgress(requestOptions, 'encoding');
+  const contents: ContentTurn[] = [
+    { role: 'user', parts: await buildGenerationParts(images, firstTurn.prompt, imageRoles, mask) },
+    { role: 'model', parts: [await dataUrlToGenerativePart(firstTurn.imageUrl)] },
+  ];
+  for (const turn of laterTurns) {
+    contents.push({ role: 'user', parts: [{ text: turn.prompt }] });
+    contents.push({ role: 'model', parts: [await dataUrlToGenerativePart(turn.imageUrl)] });
   }
-};
\ No newline at end of file
+  contents.push({ role: 'user', parts: [{ text: instruction }] });
+
+  return trackUsage({ operation: 'refine', model, styleId, keyLabel: targetLabel(target) }, async usage => (
+    readImage(await requestContents(target, model, contents, requestOptions), requestOptions, usage)
+  ));
+};
+
+export const enhanceImage = async (imageDataUrl: string, quality: EnhanceQuality, userApiKey?: string | null, model: string = DEFAULT_IMAGE_MODEL, options: RequestOptions & { proxyUrl?: string } = {}): Promise<string> => {
+  const { proxyUrl, ...requestOptions } = options;
+  const target = resolveTarget(userApiKey, proxyUrl);
+
+  reportProgress(requestOptions, 'encoding');
+  const imagePart = await dataUrlToGenerativePart(imageDataUrl);
+  
+  // Model instructions stay in English whatever the UI language is.
+  // The proxy builds the same prompt itself (scripts/gemini-proxy-server.mjs).
+  const promptText = `Act as a professional photo restoration and upscaling tool. Upscale this image to ${quality} resolution using super-resolution techniques. Sharpen details, remove noise and artifacts, and improve overall clarity without changing the original composition or subject. The final image must be noticeably clearer and more detailed.`;
+
+  const textPart = { text: promptText };
+
+  return trackUsage({ operation: 'enhance', model, keyLabel: targetLabel(target) }, async usage => {
+    const collected = target.kind === 'proxy'
+      ? await postToProxy(target.url, '/api/enhance', { model, image: imagePart.inlineData, quality }, requestOptions)
+      : await streamFromGemini(target.apiKey, model, [{ role: 'user', parts: [imagePart, textPart] }], requestOptions);
+    return readImage(collected, requestOptions, usage);
+  });
+};
@@ -0,0 +1,42 @@
+import { HistoryEntry } from '../types';
+import { STORES, createId, withStore } from './db';
+import { createThumbnail } from './imageUtils';
+
+export const addHistoryEntry = async (
+  entry: Omit<HistoryEntry, 'id' | 'createdAt' | 'inputThumbnails' | 'enhanceCount'> & { inputs: File[] },
+): Promise<HistoryEntry> => {
+  const { inputs, ...rest } = entry;
+  const inputThumbnails = await Promise.all(inputs.map(file => createThumbnail(file)));
+  const record: HistoryEntry = {
+    ...rest,
+    id: createId(),
+    createdAt: Date.now(),
+    inputThumbnails,
+    enhanceCount: 0,
+  };
+  await withStore(STORES.history, 'readwrite', store => store.put(record));
+  return record;
+};
+
+export const getHistoryEntry = (id: string): Promise<HistoryEntry | undefined> => {
+  return withStore<HistoryEntry | undefined>(STORES.history, 'readonly', store => store.get(id));
+};
+
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(STORES.history, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const recordEnhancement = async (id: string, imageDataUrl: string): Promise<void> => {
+  const entry = await getHistoryEntry(id);
+  if (!entry) return;
+  await withStore(STORES.history, 'readwrite', store => store.put({
+    ...entry,
+    imageDataUrl,
+    enhanceCount: entry.enhanceCount + 1,
+  }));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore(STORES.history, 'readwrite', store => store.delete(id));
+};
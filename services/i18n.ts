@@ -0,0 +1,60 @@
+import vi from '../locales/vi';
+import en from '../locales/en';
+
+export type Locale = 'vi' | 'en';
+
+// Plural forms follow Intl.PluralRules categories; `other` is always required.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof vi;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Catalog> = { vi, en };
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'vi', label: 'Tiếng Việt' },
+  { id: 'en', label: 'English' },
+];
+
+const STORAGE_KEY = 'locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.id === value);
+
+export const loadLocale = (): Locale => {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  return isLocale(saved) ? saved : 'vi';
+};
+
+// Read at call time by t(), so the UI picks up a change on its next render.
+let currentLocale: Locale = loadLocale();
+if (typeof document !== 'undefined') document.documentElement.lang = currentLocale;
+
+export const getLocale = (): Locale => currentLocale;
+
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  localStorage.setItem(STORAGE_KEY, locale);
+  document.documentElement.lang = locale;
+};
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string => new Intl.NumberFormat(currentLocale, options).format(value);
+
+export const formatDate = (timestamp: number, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }): string =>
+  new Intl.DateTimeFormat(currentLocale, options).format(timestamp);
+
+/**
+ * Looks up a message in the current locale and fills in `{name}` placeholders.
+ * Plural messages pick their form from the `count` param.
+ */
+export const t = (key: MessageKey, params: MessageParams = {}): string => {
+  const message = CATALOGS[currentLocale][key] ?? vi[key];
+  const template = typeof message === 'string'
+    ? message
+    : message[new Intl.PluralRules(currentLocale).select(Number(params.count ?? 0))] ?? message.other;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+};
@@ -0,0 +1,119 @@
+import { ExportAspect, ExportSettings } from '../types';
+import { dataUrlToBytes, extensionForMimeType, loadImageElement, splitDataUrl } from './imageUtils';
+import { MessageKey } from './i18n';
+
+const STORAGE_KEY = 'exportSettings';
+const MAX_EXPORT_EDGE = 8192;
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'original',
+  quality: 0.92,
+  aspect: 'original',
+  fit: 'crop',
+  padColor: '#ffffff',
+  width: null,
+  height: null,
+};
+
+export const ASPECT_PRESETS: { id: ExportAspect; label: MessageKey; ratio: number | null }[] = [
+  { id: 'original', label: 'export.aspectOriginal', ratio: null },
+  { id: '9:16', label: 'export.aspectTiktok', ratio: 9 / 16 },
+  { id: '1:1', label: 'export.aspectSquare', ratio: 1 },
+  { id: '4:5', label: 'export.aspectInstagram', ratio: 4 / 5 },
+];
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_EXPORT_SETTINGS;
+  } catch (e) {
+    console.error('Failed to load export settings:', e);
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+const isPassthrough = (settings: ExportSettings) =>
+  settings.format === 'original' && settings.aspect === 'original' && !settings.width && !settings.height;
+
+/**
+ * Output size for a source image: the aspect preset is applied first, then the
+ * exact width/height (a single side keeps the aspect ratio).
+ */
+export const getExportSize = (sourceWidth: number, sourceHeight: number, settings: ExportSettings) => {
+  const ratio = ASPECT_PRESETS.find(preset => preset.id === settings.aspect)?.ratio ?? null;
+  let width = sourceWidth;
+  let height = sourceHeight;
+  if (ratio) {
+    const cropping = settings.fit === 'crop';
+    // Crop shrinks the longer side to fit the ratio, pad grows the shorter one.
+    if ((width / height > ratio) === cropping) {
+      width = height * ratio;
+    } else {
+      height = width / ratio;
+    }
+  }
+  const currentRatio = width / height;
+  if (settings.width && settings.height) {
+    width = settings.width;
+    height = settings.height;
+  } else if (settings.width) {
+    width = settings.width;
+    height = settings.width / currentRatio;
+  } else if (settings.height) {
+    height = settings.height;
+    width = settings.height * currentRatio;
+  }
+  const clamp = (value: number) => Math.min(MAX_EXPORT_EDGE, Math.max(1, Math.round(value)));
+  return { width: clamp(width), height: clamp(height) };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image.'))), mimeType, quality);
+  });
+};
+
+/**
+ * Converts a result to the chosen format, aspect ratio and size. With default
+ * settings the original bytes are returned untouched.
+ */
+export const exportImage = async (dataUrl: string, settings: ExportSettings): Promise<{ blob: Blob; mimeType: string }> => {
+  const sourceType = splitDataUrl(dataUrl).mimeType;
+  if (isPassthrough(settings)) {
+    return { blob: new Blob([dataUrlToBytes(dataUrl)], { type: sourceType }), mimeType: sourceType };
+  }
+
+  const image = await loadImageElement(dataUrl);
+  const { width, height } = getExportSize(image.naturalWidth, image.naturalHeight, settings);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available.');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  const mimeType = settings.format === 'original' ? sourceType : settings.format;
+  // JPEG has no transparency, so padding must be painted even without a pad.
+  if (settings.fit === 'pad' || mimeType === 'image/jpeg') {
+    ctx.fillStyle = settings.padColor;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const scale = settings.fit === 'crop'
+    ? Math.max(width / image.naturalWidth, height / image.naturalHeight)
+    : Math.min(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+  const blob = await canvasToBlob(canvas, mimeType, settings.quality);
+  // Browsers without WebP encoding silently fall back to PNG.
+  return { blob, mimeType: blob.type || mimeType };
+};
+
+export const exportFileName = (baseName: string, mimeType: string) => `${baseName}.${extensionForMimeType(mimeType)}`;
@@ -0,0 +1,79 @@
+import { InputLimits } from '../types';
+import { extensionForMimeType } from './imageUtils';
+
+export interface ImageInfo {
+  width: number;
+  height: number;
+  size: number;
+  mimeType: string;
+}
+
+export interface PreprocessResult {
+  file: File;
+  original: ImageInfo;
+  processed: ImageInfo;
+}
+
+// Formats a canvas can encode; anything else (HEIC, GIF, ...) is converted.
+const ENCODABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const LOSSY_QUALITY = 0.92;
+
+const chooseOutputType = (inputType: string, limits: InputLimits): string => {
+  const supported = limits.mimeTypes.filter(type => ENCODABLE_TYPES.includes(type));
+  if (supported.includes(inputType)) return inputType;
+  // Photos come out much smaller as JPEG than as PNG.
+  if (supported.includes('image/jpeg')) return 'image/jpeg';
+  return supported[0] ?? 'image/png';
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image.'))),
+      mimeType,
+      mimeType === 'image/png' ? undefined : LOSSY_QUALITY,
+    );
+  });
+};
+
+/**
+ * Prepares a photo for upload: applies its EXIF orientation, downscales it to the
+ * model's maximum size and re-encodes it in a supported format. Drawing through a
+ * canvas drops all metadata, including GPS location and camera details.
+ */
+export const preprocessImage = async (file: File, limits: InputLimits): Promise<PreprocessResult> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const scale = Math.min(1, limits.maxLongEdge / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const mimeType = chooseOutputType(file.type, limits);
+    const blob = await canvasToBlob(canvas, mimeType);
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+    const processed = new File([blob], `${baseName}.${extensionForMimeType(mimeType)}`, {
+      type: mimeType,
+      lastModified: file.lastModified,
+    });
+
+    return {
+      file: processed,
+      original: { width: bitmap.width, height: bitmap.height, size: file.size, mimeType: file.type },
+      processed: { width: canvas.width, height: canvas.height, size: processed.size, mimeType },
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
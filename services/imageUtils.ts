@@ -0,0 +1,68 @@
+// Reads through arrayBuffer rather than FileReader so it also works in Node (the batch CLI).
+export const fileToBase64 = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // Chunked so large photos do not overflow the argument limit of fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const splitDataUrl = (dataUrl: string): { data: string; mimeType: string } => {
+  const data = dataUrl.split(',')[1];
+  const mimeType = dataUrl.match(/:(.*?);/)?.[1] ?? 'image/png';
+  return { data, mimeType };
+};
+
+export const toDataUrl = (data: string, mimeType: string = 'image/png'): string => {
+  return `data:${mimeType};base64,${data}`;
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(splitDataUrl(dataUrl).data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+};
+
+export const extensionForMimeType = (mimeType: string): string => MIME_EXTENSIONS[mimeType] ?? 'png';
+
+export const loadImageElement = (source: Blob | string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    const image = new Image();
+    image.onload = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image.'));
+    };
+    image.src = url;
+  });
+};
+
+// Small JPEG preview used wherever a full-size image would waste storage.
+export const createThumbnail = async (source: Blob | string, maxSize: number = 192): Promise<string> => {
+  const image = await loadImageElement(source);
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available.');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
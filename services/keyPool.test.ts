@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  addPooledKey,
+  ensureKeyPoolUnlocked,
+  forgetEncryptedKeys,
+  getKeyPool,
+  getKeyStorageState,
+  getPooledKeyState,
+  lockKeyPool,
+  setKeyStorageMode,
+  unlockKeyPool,
+  withPooledKey,
+} from './keyPool';
+import { ServiceError } from './serviceError';
+
+// Encrypted keys only survive a lock through localStorage.
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); },
+});
+
+const quotaError = () => new ServiceError('QUOTA_EXHAUSTED', 'per minute', { retryAfterMs: 30000 });
+
+const findKey = (label: string) => getKeyPool().find(entry => entry.label === label)!;
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  forgetEncryptedKeys();
+  storage.clear();
+  addPooledKey('first', 'key-1');
+  addPooledKey('second', 'key-2');
+});
+
+describe('withPooledKey', () => {
+  it('uses the primary key while it works', async () => {
+    const onKeyUsed = vi.fn();
+    await expect(withPooledKey(async key => key, onKeyUsed)).resolves.toBe('key-1');
+    expect(onKeyUsed).toHaveBeenCalledWith('first');
+  });
+
+  it('moves on to the next key on a quota error and cools the first one down', async () => {
+    const run = vi.fn(async (key: string | null) => {
+      if (key === 'key-1') throw quotaError();
+      return key;
+    });
+
+    await expect(withPooledKey(run)).resolves.toBe('key-2');
+    expect(getPooledKeyState(findKey('first'))).toBe('cooldown');
+    expect(findKey('first').lastError).toBe('QUOTA_EXHAUSTED');
+
+    // The cooled-down key is skipped on the next request.
+    run.mockClear();
+    await withPooledKey(run);
+    expect(run.mock.calls.map(call => call[0])).toEqual(['key-2']);
+  });
+
+  it('marks rejected keys as invalid', async () => {
+    await withPooledKey(async key => {
+      if (key === 'key-1') throw new ServiceError('INVALID_KEY');
+      return key;
+    });
+    expect(getPooledKeyState(findKey('first'))).toBe('invalid');
+  });
+
+  it('throws other errors without touching the keys', async () => {
+    const run = vi.fn(async () => {
+      throw new ServiceError('SAFETY');
+    });
+    await expect(withPooledKey(run)).rejects.toMatchObject({ code: 'SAFETY' });
+    expect(run).toHaveBeenCalledOnce();
+    expect(getPooledKeyState(findKey('first'))).toBe('ready');
+  });
+
+  it('reports when the next key frees up once every key is cooling down', async () => {
+    const error = await withPooledKey(async () => {
+      throw quotaError();
+    }).catch(e => e);
+
+    expect(error).toMatchObject({ code: 'QUOTA_EXHAUSTED', retryable: true });
+    expect(error.details.retryAfterMs).toBeGreaterThan(29000);
+    expect(error.details.retryAfterMs).toBeLessThanOrEqual(30000);
+  });
+
+  it('waits for the passphrase when the pool locks mid-rotation and keeps the cooldown', async () => {
+    await setKeyStorageMode('encrypted', 'secret');
+    const run = vi.fn(async (key: string | null) => {
+      if (key === 'key-1') {
+        lockKeyPool();
+        throw quotaError();
+      }
+      return key;
+    });
+
+    const result = withPooledKey(run);
+    await flush();
+    expect(getKeyStorageState()).toMatchObject({ locked: true, unlockRequested: true });
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await expect(unlockKeyPool('secret')).resolves.toBe(true);
+    await expect(result).resolves.toBe('key-2');
+    expect(getPooledKeyState(findKey('first'))).toBe('cooldown');
+  });
+
+  it('stops waiting for the passphrase when the request is cancelled', async () => {
+    await setKeyStorageMode('encrypted', 'secret');
+    lockKeyPool();
+    const controller = new AbortController();
+
+    const waiting = ensureKeyPoolUnlocked(controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toMatchObject({ code: 'CANCELLED' });
+    await expect(ensureKeyPoolUnlocked(controller.signal)).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+});
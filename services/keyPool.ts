@@ -0,0 +1,360 @@
+import { createId } from './db';
+import { ServiceError, ServiceErrorCode, toServiceError } from './serviceError';
+import { t } from './i18n';
+import { SealedPayload, VaultKey, createVaultKey, openSealedText, sealText } from './keyVault';
+
+export interface PooledKey {
+  id: string;
+  label: string;
+  key: string;
+  // Tried first; the others follow in the order they were added.
+  primary: boolean;
+  // Set after a quota or key error; the key is skipped until then.
+  cooldownUntil: number | null;
+  lastError: ServiceErrorCode | null;
+}
+
+export type PooledKeyState = 'ready' | 'cooldown' | 'invalid';
+
+// plain: localStorage as is; encrypted: under a passphrase; memory: forgotten on reload.
+export type KeyStorageMode = 'plain' | 'encrypted' | 'memory';
+
+export interface KeyStorageState {
+  mode: KeyStorageMode;
+  // Encrypted keys not yet decrypted in this session (or locked again).
+  locked: boolean;
+  // A request is waiting for the passphrase.
+  unlockRequested: boolean;
+  autoLockMinutes: number;
+}
+
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+
+const STORAGE_KEY = 'apiKeyPool';
+const ENCRYPTED_STORAGE_KEY = 'apiKeyPoolEncrypted';
+const MODE_STORAGE_KEY = 'apiKeyStorageMode';
+const AUTO_LOCK_STORAGE_KEY = 'apiKeyAutoLockMinutes';
+// Single key saved by earlier versions; moved into the pool on first load.
+const LEGACY_STORAGE_KEY = 'userApiKey';
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+const QUOTA_COOLDOWN_MS = 60 * 1000;
+// Daily quotas reset at most once a day; an hour keeps the key out without forgetting it.
+const HARD_QUOTA_COOLDOWN_MS = 60 * 60 * 1000;
+const INVALID_KEY_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+// Longer waits are not worth a retry; the batch stops and can be resumed instead.
+const MAX_RETRY_WAIT_MS = 2 * 60 * 1000;
+
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+const loadKeyPool = (): PooledKey[] => {
+  if (!hasStorage()) return [];
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+    const legacyKey = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacyKey) {
+      const migrated = [{ id: createId(), label: t('keys.defaultLabel', { n: 1 }), key: legacyKey, primary: true, cooldownUntil: null, lastError: null }];
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(migrated));
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return migrated;
+    }
+  } catch (e) {
+    console.error('Failed to load API key pool:', e);
+  }
+  return [];
+};
+
+const loadStorageMode = (): KeyStorageMode => {
+  const saved = hasStorage() ? localStorage.getItem(MODE_STORAGE_KEY) : null;
+  return saved === 'encrypted' || saved === 'memory' ? saved : 'plain';
+};
+
+const loadAutoLockMinutes = (): number => {
+  const saved = hasStorage() ? Number(localStorage.getItem(AUTO_LOCK_STORAGE_KEY)) : NaN;
+  return AUTO_LOCK_OPTIONS.includes(saved) ? saved : DEFAULT_AUTO_LOCK_MINUTES;
+};
+
+let mode: KeyStorageMode = loadStorageMode();
+let autoLockMinutes = loadAutoLockMinutes();
+// Derived from the passphrase on unlock; never stored.
+let vault: VaultKey | null = null;
+let locked = mode === 'encrypted';
+let pool: PooledKey[] = mode === 'plain' ? loadKeyPool() : [];
+// Key updates from requests that finished while the pool was locked; applied on unlock.
+let lockedUpdates = new Map<string, Partial<PooledKey>>();
+let pendingUnlock: { promise: Promise<void>; resolve: () => void; reject: (error: Error) => void } | null = null;
+let autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+// Encrypted writes are async; chaining them keeps the last one on top.
+let writeQueue: Promise<void> = Promise.resolve();
+let storageState: KeyStorageState = { mode, locked, unlockRequested: false, autoLockMinutes };
+const listeners = new Set<(keys: PooledKey[]) => void>();
+
+const notify = () => {
+  storageState = { mode, locked, unlockRequested: pendingUnlock !== null, autoLockMinutes };
+  listeners.forEach(listener => listener(pool));
+};
+
+const persist = () => {
+  if (!hasStorage()) return;
+  if (mode === 'plain') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pool));
+  } else if (mode === 'encrypted' && vault) {
+    const snapshot = JSON.stringify(pool);
+    const key = vault;
+    writeQueue = writeQueue
+      .then(() => sealText(key, snapshot))
+      .then(payload => localStorage.setItem(ENCRYPTED_STORAGE_KEY, JSON.stringify(payload)))
+      .catch(e => console.error('Failed to save encrypted API keys:', e));
+  }
+};
+
+const setPool = (next: PooledKey[]) => {
+  pool = next;
+  persist();
+  notify();
+};
+
+const updateKey = (id: string, patch: Partial<PooledKey>) => {
+  if (locked) {
+    lockedUpdates.set(id, { ...lockedUpdates.get(id), ...patch });
+    return;
+  }
+  setPool(pool.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+};
+
+export const getKeyPool = (): PooledKey[] => pool;
+
+export const getKeyStorageState = (): KeyStorageState => storageState;
+
+// Label of a pooled key, for usage records; null for keys outside the pool.
+export const findKeyLabel = (apiKey: string): string | null => pool.find(entry => entry.key === apiKey)?.label ?? null;
+
+export const subscribeKeyPool = (listener: (keys: PooledKey[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getPooledKeyState = (entry: PooledKey, now: number = Date.now()): PooledKeyState => {
+  if (!entry.cooldownUntil || entry.cooldownUntil <= now) return 'ready';
+  return entry.lastError === 'INVALID_KEY' ? 'invalid' : 'cooldown';
+};
+
+// The first key added becomes the primary one.
+export const addPooledKey = (label: string, key: string): PooledKey => {
+  const entry: PooledKey = {
+    id: createId(),
+    label: label.trim() || t('keys.defaultLabel', { n: pool.length + 1 }),
+    key: key.trim(),
+    primary: pool.length === 0,
+    cooldownUntil: null,
+    lastError: null,
+  };
+  setPool([...pool, entry]);
+  return entry;
+};
+
+export const removePooledKey = (id: string) => {
+  const remaining = pool.filter(entry => entry.id !== id);
+  if (remaining.length > 0 && !remaining.some(entry => entry.primary)) {
+    remaining[0] = { ...remaining[0], primary: true };
+  }
+  setPool(remaining);
+};
+
+export const setPrimaryKey = (id: string) => {
+  setPool(pool.map(entry => ({ ...entry, primary: entry.id === id })));
+};
+
+// Puts a key back in rotation, e.g. after it passed validation again.
+export const resetPooledKey = (id: string) => {
+  updateKey(id, { cooldownUntil: null, lastError: null });
+};
+
+const scheduleAutoLock = () => {
+  if (autoLockTimer) clearTimeout(autoLockTimer);
+  autoLockTimer = mode === 'encrypted' && !locked ? setTimeout(lockKeyPool, autoLockMinutes * 60 * 1000) : null;
+};
+
+// Counts as activity: pushes the auto-lock back.
+export const touchKeyPool = () => {
+  if (mode === 'encrypted' && !locked) scheduleAutoLock();
+};
+
+export const setAutoLockMinutes = (minutes: number) => {
+  autoLockMinutes = minutes;
+  if (hasStorage()) localStorage.setItem(AUTO_LOCK_STORAGE_KEY, String(minutes));
+  scheduleAutoLock();
+  notify();
+};
+
+// Drops the decrypted keys from memory; the next request asks for the passphrase again.
+export const lockKeyPool = () => {
+  if (mode !== 'encrypted' || locked) return;
+  vault = null;
+  locked = true;
+  pool = [];
+  scheduleAutoLock();
+  notify();
+};
+
+const readSealedPool = (): SealedPayload | null => {
+  const saved = hasStorage() ? localStorage.getItem(ENCRYPTED_STORAGE_KEY) : null;
+  return saved ? JSON.parse(saved) : null;
+};
+
+// Resolves false when the passphrase is wrong.
+export const unlockKeyPool = async (passphrase: string): Promise<boolean> => {
+  if (!locked) return true;
+  const payload = readSealedPool();
+  const opened = payload ? await openSealedText(payload, passphrase) : { text: '[]', vault: await createVaultKey(passphrase) };
+  if (!opened) return false;
+  vault = opened.vault;
+  pool = JSON.parse(opened.text);
+  locked = false;
+  if (lockedUpdates.size > 0) {
+    pool = pool.map(entry => ({ ...entry, ...lockedUpdates.get(entry.id) }));
+    lockedUpdates = new Map();
+    persist();
+  }
+  pendingUnlock?.resolve();
+  pendingUnlock = null;
+  scheduleAutoLock();
+  notify();
+  return true;
+};
+
+/**
+ * Resolves once the pool is usable, asking the UI for the passphrase if needed.
+ * Rejects as cancelled when `signal` aborts; other waiters keep waiting.
+ */
+export const ensureKeyPoolUnlocked = (signal?: AbortSignal): Promise<void> => {
+  if (!locked) return Promise.resolve();
+  if (signal?.aborted) return Promise.reject(new ServiceError('CANCELLED'));
+  if (!pendingUnlock) {
+    let resolve: () => void = () => {};
+    let reject: (error: Error) => void = () => {};
+    const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+    pendingUnlock = { promise, resolve, reject };
+    notify();
+  }
+  if (!signal) return pendingUnlock.promise;
+  const unlocked = pendingUnlock.promise;
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => reject(new ServiceError('CANCELLED'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    unlocked.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// The requests waiting for the passphrase fail as cancelled.
+export const cancelKeyPoolUnlock = () => {
+  pendingUnlock?.reject(new ServiceError('CANCELLED', 'API key unlock was cancelled'));
+  pendingUnlock = null;
+  notify();
+};
+
+/**
+ * Switches where the keys are kept. Needs the pool unlocked; `passphrase` is required
+ * for 'encrypted' and replaces the current one when already encrypted.
+ */
+export const setKeyStorageMode = async (next: KeyStorageMode, passphrase?: string) => {
+  if (locked) throw new Error('Unlock the API keys before changing how they are stored');
+  if (next === 'encrypted') {
+    if (!passphrase) throw new Error('A passphrase is required for encrypted storage');
+    vault = await createVaultKey(passphrase);
+  } else {
+    vault = null;
+  }
+  mode = next;
+  if (hasStorage()) {
+    localStorage.setItem(MODE_STORAGE_KEY, mode);
+    if (mode !== 'plain') localStorage.removeItem(STORAGE_KEY);
+    if (mode !== 'encrypted') localStorage.removeItem(ENCRYPTED_STORAGE_KEY);
+  }
+  persist();
+  await writeQueue;
+  scheduleAutoLock();
+  notify();
+};
+
+// For a forgotten passphrase: deletes the encrypted keys and goes back to plain storage.
+export const forgetEncryptedKeys = () => {
+  if (hasStorage()) {
+    localStorage.removeItem(ENCRYPTED_STORAGE_KEY);
+    localStorage.setItem(MODE_STORAGE_KEY, 'plain');
+  }
+  mode = 'plain';
+  vault = null;
+  locked = false;
+  pool = [];
+  lockedUpdates = new Map();
+  cancelKeyPoolUnlock();
+  scheduleAutoLock();
+  persist();
+  notify();
+};
+
+const cooldownFor = (error: ServiceError): number => {
+  if (error.code === 'INVALID_KEY') return INVALID_KEY_COOLDOWN_MS;
+  if (!error.retryable) return HARD_QUOTA_COOLDOWN_MS;
+  return error.details.retryAfterMs ?? QUOTA_COOLDOWN_MS;
+};
+
+const rotationOrder = (): string[] => [...pool]
+  .sort((a, b) => Number(b.primary) - Number(a.primary))
+  .map(entry => entry.id);
+
+// Thrown when no key is left to try; retryable only when a key frees up soon.
+const poolExhaustedError = (lastError: ServiceError | null): ServiceError => {
+  const now = Date.now();
+  const quotaCooldowns = pool
+    .filter(entry => getPooledKeyState(entry, now) === 'cooldown')
+    .map(entry => entry.cooldownUntil! - now);
+  if (quotaCooldowns.length === 0) {
+    return lastError ?? new ServiceError('INVALID_KEY', 'Every pooled API key is invalid');
+  }
+  const retryAfterMs = Math.min(...quotaCooldowns);
+  return new ServiceError(
+    'QUOTA_EXHAUSTED',
+    lastError?.message ?? 'Every pooled API key is cooling down',
+    { ...lastError?.details, retryAfterMs },
+    retryAfterMs <= MAX_RETRY_WAIT_MS,
+  );
+};
+
+/**
+ * Runs a request with the pooled keys in turn, primary first. Quota and key errors
+ * put the key on a cooldown and move on to the next one; other errors are thrown
+ * as is. With an empty pool the request runs without a key (the environment default).
+ * Encrypted keys are decrypted first, which waits for the passphrase if the pool is locked,
+ * also when it auto-locks partway through the rotation.
+ */
+export const withPooledKey = async <T>(run: (apiKey: string | null) => Promise<T>, onKeyUsed?: (label: string) => void, signal?: AbortSignal): Promise<T> => {
+  for (;;) {
+    await ensureKeyPoolUnlocked(signal);
+    touchKeyPool();
+    if (pool.length === 0) return run(null);
+
+    let lastError: ServiceError | null = null;
+    for (const id of rotationOrder()) {
+      // Re-read each time: parallel requests may have cooled the key down meanwhile.
+      const entry = pool.find(candidate => candidate.id === id);
+      if (!entry || getPooledKeyState(entry) !== 'ready') continue;
+      try {
+        const result = await run(entry.key);
+        if (entry.lastError) resetPooledKey(entry.id);
+        onKeyUsed?.(entry.label);
+        return result;
+      } catch (error) {
+        const serviceError = toServiceError(error);
+        if (serviceError.code !== 'QUOTA_EXHAUSTED' && serviceError.code !== 'INVALID_KEY') throw error;
+        updateKey(entry.id, { cooldownUntil: Date.now() + cooldownFor(serviceError), lastError: serviceError.code });
+        lastError = serviceError;
+      }
+    }
+    // Locking empties the pool, which says nothing about the keys: wait for the passphrase and start over.
+    if (locked) continue;
+    throw poolExhaustedError(lastError);
+  }
+};
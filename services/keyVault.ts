@@ -0,0 +1,71 @@
+// Passphrase-based encryption for secrets kept in localStorage (AES-GCM, key from PBKDF2).
+
+export interface SealedPayload {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+export interface VaultKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+// A fresh salt each time, so changing the passphrase also changes the derived key.
+export const createVaultKey = async (passphrase: string): Promise<VaultKey> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+};
+
+export const sealText = async (vault: VaultKey, text: string): Promise<SealedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vault.key, new TextEncoder().encode(text));
+  return {
+    version: 1,
+    iterations: vault.iterations,
+    salt: toBase64(vault.salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+  };
+};
+
+/**
+ * Decrypts a payload with the passphrase. Returns null when the passphrase is wrong
+ * (AES-GCM fails authentication), along with the derived key for later writes otherwise.
+ */
+export const openSealedText = async (payload: SealedPayload, passphrase: string): Promise<{ text: string; vault: VaultKey } | null> => {
+  const salt = fromBase64(payload.salt);
+  const vault: VaultKey = { key: await deriveKey(passphrase, salt, payload.iterations), salt, iterations: payload.iterations };
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, vault.key, fromBase64(payload.data));
+    return { text: new TextDecoder().decode(data), vault };
+  } catch {
+    return null;
+  }
+};
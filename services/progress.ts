@@ -0,0 +1,75 @@
+import { ProgressEvent, ProgressStage, RequestOptions } from '../types';
+import { MessageKey, t } from './i18n';
+
+export interface ProgressStep {
+  stage: ProgressStage;
+  pass?: number;
+  totalPasses?: number;
+  chunks?: number;
+  startedAt: number;
+  // Unset while the step is still running.
+  endedAt?: number;
+}
+
+export const STAGE_LABELS: Record<ProgressStage, MessageKey> = {
+  encoding: 'progress.encoding',
+  requesting: 'progress.requesting',
+  streaming: 'progress.streaming',
+  decoding: 'progress.decoding',
+  done: 'progress.done',
+};
+
+// How far through a single request each stage starts, used for the percentage bar.
+const STAGE_FRACTION: Record<ProgressStage, number> = {
+  encoding: 0.02,
+  requesting: 0.1,
+  streaming: 0.7,
+  decoding: 0.9,
+  done: 1,
+};
+
+export const reportProgress = (options: RequestOptions | undefined, stage: ProgressStage, extra: Partial<ProgressEvent> = {}) => {
+  options?.onProgress?.({ stage, at: Date.now(), ...extra });
+};
+
+/**
+ * Folds a progress event into the timeline: the running step is closed and a new
+ * one started. Repeated events for the same step (streamed chunks) only update it.
+ */
+export const appendProgressEvent = (timeline: ProgressStep[], event: ProgressEvent): ProgressStep[] => {
+  const last = timeline[timeline.length - 1];
+  if (last && last.endedAt === undefined && last.stage === event.stage && last.pass === event.pass) {
+    return [...timeline.slice(0, -1), { ...last, chunks: event.chunks ?? last.chunks }];
+  }
+  const closed = timeline.map(step => (step.endedAt === undefined ? { ...step, endedAt: event.at } : step));
+  if (event.stage === 'done') return closed;
+  return [...closed, {
+    stage: event.stage,
+    pass: event.pass,
+    totalPasses: event.totalPasses,
+    chunks: event.chunks,
+    startedAt: event.at,
+  }];
+};
+
+export const timelinePercent = (timeline: ProgressStep[]): number => {
+  const last = timeline[timeline.length - 1];
+  if (!last) return 0;
+  const pass = last.pass ?? 1;
+  const totalPasses = last.totalPasses ?? 1;
+  const fraction = last.endedAt !== undefined ? STAGE_FRACTION.done : STAGE_FRACTION[last.stage];
+  return Math.round(((pass - 1 + fraction) / totalPasses) * 100);
+};
+
+export const timelineDuration = (timeline: ProgressStep[]): number => {
+  if (timeline.length === 0) return 0;
+  const end = timeline[timeline.length - 1].endedAt ?? Date.now();
+  return end - timeline[0].startedAt;
+};
+
+export const formatDuration = (ms: number): string => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+export const describeStep = (step: ProgressStep): string => {
+  const label = t(STAGE_LABELS[step.stage]);
+  return step.totalPasses && step.totalPasses > 1 ? t('progress.pass', { label, pass: step.pass, total: step.totalPasses }) : label;
+};
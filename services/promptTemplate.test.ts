@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Style } from '../types';
+import { extractPlaceholders, getDefaultVariableValues, resolvePrompt } from './promptTemplate';
+
+const style: Style = {
+  id: 'test',
+  name: 'Test',
+  prompt: 'A photo in front of {{ background }} at {{scale}} scale, {{background}} again, {{unknown}}.',
+  variables: [
+    {
+      name: 'background',
+      label: 'Background',
+      type: 'choice',
+      default: 'a white wall',
+      options: [{ value: 'a white wall' }, { value: 'a red curtain' }],
+    },
+    { name: 'scale', label: 'Scale', type: 'text', default: '1/7' },
+  ],
+};
+
+describe('extractPlaceholders', () => {
+  it('lists each placeholder once, ignoring spacing', () => {
+    expect(extractPlaceholders(style.prompt)).toEqual(['background', 'scale', 'unknown']);
+  });
+});
+
+describe('getDefaultVariableValues', () => {
+  it('maps every variable to its default', () => {
+    expect(getDefaultVariableValues(style)).toEqual({ background: 'a white wall', scale: '1/7' });
+    expect(getDefaultVariableValues(null)).toEqual({});
+  });
+});
+
+describe('resolvePrompt', () => {
+  it('fills every occurrence and leaves undeclared placeholders visible', () => {
+    expect(resolvePrompt(style, { background: 'a red curtain', scale: '1/4' }))
+      .toBe('A photo in front of a red curtain at 1/4 scale, a red curtain again, {{unknown}}.');
+  });
+
+  it('falls back to the default for missing values and choices outside the options', () => {
+    expect(resolvePrompt(style, { background: 'a beach' }))
+      .toBe('A photo in front of a white wall at 1/7 scale, a white wall again, {{unknown}}.');
+  });
+
+  it('trims text values and uses the default for blank ones', () => {
+    expect(resolvePrompt(style, { scale: '  1/12  ' })).toContain('at 1/12 scale');
+    expect(resolvePrompt(style, { scale: '   ' })).toContain('at 1/7 scale');
+  });
+
+  it('caps long text values', () => {
+    const resolved = resolvePrompt(style, { scale: 'x'.repeat(500) });
+    expect(resolved).toContain(`at ${'x'.repeat(200)} scale`);
+  });
+});
@@ -0,0 +1,39 @@
+import { Style, StyleVariable, StyleVariableValues } from '../types';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+const MAX_TEXT_VALUE_LENGTH = 200;
+
+export const extractPlaceholders = (prompt: string): string[] => {
+  const names = new Set<string>();
+  for (const match of prompt.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+};
+
+export const getDefaultVariableValues = (style?: Style | null): StyleVariableValues => {
+  const values: StyleVariableValues = {};
+  style?.variables?.forEach(variable => {
+    values[variable.name] = variable.default;
+  });
+  return values;
+};
+
+// Falls back to the default when a value is missing or outside the allowed set.
+const resolveValue = (variable: StyleVariable, value: string | undefined): string => {
+  if (value === undefined) return variable.default;
+  if (variable.type === 'choice') {
+    return variable.options?.some(option => option.value === value) ? value : variable.default;
+  }
+  const trimmed = value.trim().slice(0, MAX_TEXT_VALUE_LENGTH);
+  return trimmed === '' ? variable.default : trimmed;
+};
+
+export const resolvePrompt = (style: Style, values: StyleVariableValues = {}): string => {
+  const variables = style.variables ?? [];
+  return style.prompt.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const variable = variables.find(v => v.name === name);
+    // Undeclared placeholders are left untouched so the problem stays visible in the preview.
+    return variable ? resolveValue(variable, values[name]) : placeholder;
+  });
+};
@@ -0,0 +1,254 @@
+import { DemoFailure, EnhanceQuality, ImageProvider } from '../../types';
+import { loadImageElement } from '../imageUtils';
+import { throwIfCancelled, withRequestSignal } from '../requestSignal';
+import { reportProgress } from '../progress';
+import { ServiceError, toServiceError } from '../serviceError';
+import { t } from '../i18n';
+
+// Simulated latency so the UI has time to show its loading state.
+const FAKE_LATENCY_MS = 900;
+
+const ENHANCE_LONG_EDGE: Record<EnhanceQuality, number> = {
+  HD: 1280,
+  '2K': 2048,
+  '4K': 3840,
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Small string hash so the same inputs always produce the same output.
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Errors match the ones the Gemini path throws so the UI handles them the same way.
+const throwFakeError = (failure: DemoFailure) => {
+  switch (failure) {
+    case 'SAFETY':
+      throw new ServiceError('SAFETY', 'Blocked for safety: HARM_CATEGORY_DANGEROUS_CONTENT', { safetyCategory: 'HARM_CATEGORY_DANGEROUS_CONTENT' });
+    case 'RESOURCE_EXHAUSTED':
+      // Raw SDK text, so it also goes through the same classification as a real quota error.
+      throw toServiceError(new Error('got status: 429 Too Many Requests. {"error":{"code":429,"message":"Resource has been exhausted (e.g. check quota).","status":"RESOURCE_EXHAUSTED"}}'));
+    case 'MODEL_ERROR': {
+      const modelText = "I'm sorry, I cannot generate an image from this request.";
+      throw new ServiceError('REFUSAL', modelText, { modelText });
+    }
+    default:
+      return;
+  }
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available.');
+  return { canvas, ctx };
+};
+
+// Draws the image so that it covers the target rect, cropping the overflow.
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) => {
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const sw = width / scale;
+  const sh = height / scale;
+  const sx = (image.naturalWidth - sw) / 2;
+  const sy = (image.naturalHeight - sh) / 2;
+  ctx.drawImage(image, sx, sy, sw, sh, x, y, width, height);
+};
+
+const renderPolaroid = (images: HTMLImageElement[], seed: number): string => {
+  const photoSize = 900;
+  const border = 50;
+  const bottomBorder = 220;
+  const { canvas, ctx } = createCanvas(photoSize + border * 2, photoSize + border + bottomBorder);
+
+  ctx.fillStyle = '#fbfaf6';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Inputs share the photo area side by side, like the couple shot the real style asks for.
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(border, border, photoSize, photoSize);
+  ctx.clip();
+  const sliceWidth = photoSize / images.length;
+  images.forEach((image, index) => {
+    drawCover(ctx, image, border + index * sliceWidth, border, sliceWidth, photoSize);
+  });
+
+  // Direct flash: bright warm center fading into a dark vignette.
+  const centerX = border + photoSize * (0.4 + (seed % 20) / 100);
+  const centerY = border + photoSize * 0.35;
+  const flash = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, photoSize * 0.8);
+  flash.addColorStop(0, 'rgba(255, 248, 225, 0.45)');
+  flash.addColorStop(0.45, 'rgba(255, 240, 210, 0.12)');
+  flash.addColorStop(1, 'rgba(20, 15, 10, 0.55)');
+  ctx.fillStyle = flash;
+  ctx.fillRect(border, border, photoSize, photoSize);
+  ctx.restore();
+
+  ctx.fillStyle = 'rgba(42, 47, 35, 0.55)';
+  ctx.font = 'italic 48px "Comic Sans MS", cursive';
+  ctx.textAlign = 'center';
+  ctx.fillText('demo ♥', canvas.width / 2, photoSize + border + bottomBorder / 2 + 16);
+
+  return canvas.toDataURL('image/png');
+};
+
+const renderRestoration = (image: HTMLImageElement): string => {
+  const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  ctx.drawImage(image, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data, width } = pixels;
+
+  // Sepia on the left, original colors on the right, with a soft diagonal transition.
+  for (let i = 0; i < data.length; i += 4) {
+    const x = (i / 4) % width;
+    const y = Math.floor(i / 4 / width);
+    const t = Math.min(1, Math.max(0, (x + y * 0.3) / (width * 1.1)));
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const sr = Math.min(255, r * 0.393 + g * 0.769 + b * 0.189);
+    const sg = Math.min(255, r * 0.349 + g * 0.686 + b * 0.168);
+    const sb = Math.min(255, r * 0.272 + g * 0.534 + b * 0.131);
+    data[i] = sr + (r - sr) * t;
+    data[i + 1] = sg + (g - sg) * t;
+    data[i + 2] = sb + (b - sb) * t;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const renderGeneric = (image: HTMLImageElement, seed: number): string => {
+  const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+  ctx.drawImage(image, 0, 0);
+  const hue = seed % 360;
+  ctx.fillStyle = `hsla(${hue}, 60%, 50%, 0.18)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const fontSize = Math.max(16, Math.round(canvas.width / 18));
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.textAlign = 'right';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.fillText('DEMO', canvas.width - fontSize * 0.5, canvas.height - fontSize * 0.5);
+  return canvas.toDataURL('image/png');
+};
+
+const renderForStyle = (styleId: string | null | undefined, images: HTMLImageElement[], seed: number): string => {
+  switch (styleId) {
+    case 'polaroid':
+      return renderPolaroid(images, seed);
+    case 'photo-restoration':
+      return renderRestoration(images[0]);
+    default:
+      return renderGeneric(images[0], seed);
+  }
+};
+
+// Keeps the original photo outside the mask, so the demo shows which areas a mask affects.
+const applyMask = async (resultDataUrl: string, original: HTMLImageElement, mask: HTMLImageElement): Promise<string> => {
+  const result = await loadImageElement(resultDataUrl);
+  const { canvas, ctx } = createCanvas(result.naturalWidth, result.naturalHeight);
+  drawCover(ctx, original, 0, 0, canvas.width, canvas.height);
+
+  const layer = createCanvas(canvas.width, canvas.height);
+  layer.ctx.drawImage(result, 0, 0);
+  const maskLayer = createCanvas(canvas.width, canvas.height);
+  drawCover(maskLayer.ctx, mask, 0, 0, canvas.width, canvas.height);
+  const maskPixels = maskLayer.ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const resultPixels = layer.ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < resultPixels.data.length; i += 4) {
+    resultPixels.data[i + 3] = maskPixels.data[i];
+  }
+  layer.ctx.putImageData(resultPixels, 0, 0);
+  ctx.drawImage(layer.canvas, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const resample = (image: HTMLImageElement, quality: EnhanceQuality): string => {
+  const longEdge = ENHANCE_LONG_EDGE[quality];
+  const scale = longEdge / Math.max(image.naturalWidth, image.naturalHeight);
+  const { canvas, ctx } = createCanvas(image.naturalWidth * scale, image.naturalHeight * scale);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Offline provider that fakes results on a canvas. Useful for development, demos
+ * and exercising the error UI without an API key or network access.
+ */
+export const createDemoProvider = (failure: DemoFailure = 'none'): ImageProvider => ({
+  id: 'demo',
+  get name() { return t('providers.demo'); },
+  model: 'demo-canvas',
+  capabilities: {
+    imageToImage: true,
+    multipleInputImages: true,
+    upscaling: true,
+    inpainting: true,
+    conversation: true,
+  },
+  inputLimits: {
+    maxLongEdge: 2048,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+  },
+  generate: async (images, prompt, options) => {
+    reportProgress(options, 'encoding');
+    const elements = await Promise.all(images.map(image => loadImageElement(image)));
+    reportProgress(options, 'requesting');
+    await withRequestSignal(() => wait(FAKE_LATENCY_MS), options);
+    throwFakeError(failure);
+
+    if (elements.length === 0) {
+      throw new ServiceError('UNKNOWN', 'Demo mode needs at least one input image.');
+    }
+
+    throwIfCancelled(options?.signal);
+    reportProgress(options, 'decoding');
+    const variation = options?.variation ? `#${options.variation}` : '';
+    const seed = hashString(prompt + images.map(image => `${image.name}:${image.size}`).join('|') + variation);
+    let result = renderForStyle(options?.styleId, elements, seed);
+    if (options?.mask) {
+      result = await applyMask(result, elements[0], await loadImageElement(options.mask.image));
+    }
+    reportProgress(options, 'done');
+    return result;
+  },
+  enhance: async (imageDataUrl, quality, options) => {
+    reportProgress(options, 'encoding');
+    const image = await loadImageElement(imageDataUrl);
+    reportProgress(options, 'requesting');
+    await withRequestSignal(() => wait(FAKE_LATENCY_MS), options);
+    throwFakeError(failure);
+    throwIfCancelled(options?.signal);
+    reportProgress(options, 'decoding');
+    const result = resample(image, quality);
+    reportProgress(options, 'done');
+    return result;
+  },
+  refine: async (request, options) => {
+    const latest = request.turns[request.turns.length - 1];
+    if (!latest) throw new ServiceError('UNKNOWN', 'There is no result to refine.');
+    reportProgress(options, 'encoding');
+    const image = await loadImageElement(latest.imageUrl);
+    reportProgress(options, 'requesting');
+    await withRequestSignal(() => wait(FAKE_LATENCY_MS), options);
+    throwFakeError(failure);
+    throwIfCancelled(options?.signal);
+    reportProgress(options, 'decoding');
+    // The whole conversation goes into the seed, so each turn gets its own tint.
+    const seed = hashString([...request.turns.map(turn => turn.prompt), request.instruction].join('|'));
+    const result = renderGeneric(image, seed);
+    reportProgress(options, 'done');
+    return result;
+  },
+  validate: async () => ({ success: true }),
+});
@@ -0,0 +1,49 @@
+import { ImageProvider } from '../../types';
+import { generateTrendImage, enhanceImage, refineTrendImage, validateApiKey, checkProxy, getGeminiInputLimits, DEFAULT_IMAGE_MODEL } from '../geminiService';
+import { ensureKeyPoolUnlocked, getKeyPool, withPooledKey } from '../keyPool';
+
+// Behind a proxy the server holds the key, so the key pool is skipped entirely.
+const withKey = <T>(proxyUrl: string, run: (apiKey: string | null) => Promise<T>, options?: { onKeyUsed?: (label: string) => void; signal?: AbortSignal }): Promise<T> => (
+  proxyUrl ? run(null) : withPooledKey(run, options?.onKeyUsed, options?.signal)
+);
+
+export const createGeminiProvider = (model: string = DEFAULT_IMAGE_MODEL, proxyUrl: string = ''): ImageProvider => ({
+  id: 'gemini',
+  name: 'Google Gemini',
+  model: model || DEFAULT_IMAGE_MODEL,
+  capabilities: {
+    imageToImage: true,
+    multipleInputImages: true,
+    upscaling: true,
+    inpainting: true,
+    conversation: true,
+  },
+  inputLimits: getGeminiInputLimits(model || DEFAULT_IMAGE_MODEL),
+  generate: (images, prompt, options) => withKey(proxyUrl, apiKey => generateTrendImage(images, prompt, apiKey, {
+    model: model || DEFAULT_IMAGE_MODEL,
+    styleId: options?.styleId,
+    imageRoles: options?.imageRoles,
+    mask: options?.mask,
+    signal: options?.signal,
+    timeoutMs: options?.timeoutMs,
+    onProgress: options?.onProgress,
+    proxyUrl,
+  }), options),
+  enhance: (imageDataUrl, quality, options) => withKey(proxyUrl, apiKey => enhanceImage(imageDataUrl, quality, apiKey, model || DEFAULT_IMAGE_MODEL, { ...options, proxyUrl }), options),
+  refine: (request, options) => withKey(proxyUrl, apiKey => refineTrendImage(request.images, request.turns, request.instruction, apiKey, {
+    model: model || DEFAULT_IMAGE_MODEL,
+    styleId: request.styleId,
+    imageRoles: request.imageRoles,
+    mask: request.mask,
+    ...options,
+    proxyUrl,
+  }), options),
+  validate: async () => {
+    if (proxyUrl) return checkProxy(proxyUrl);
+    await ensureKeyPoolUnlocked();
+    // Without a personal key the AI Studio default key is used, which needs no check.
+    const primary = getKeyPool().find(entry => entry.primary);
+    if (!primary) return { success: true };
+    return validateApiKey(primary.key);
+  },
+});
@@ -0,0 +1,148 @@
+import { EnhanceQuality, ImageProvider } from '../../types';
+import { fileToBase64, splitDataUrl, toDataUrl } from '../imageUtils';
+import { describeImageRoles } from '../styleInputs';
+import { withRequestSignal } from '../requestSignal';
+import { reportProgress } from '../progress';
+import { ServiceError, toServiceError } from '../serviceError';
+import { t } from '../i18n';
+
+// Upscale factor sent to the upscale endpoint for each quality level.
+const UPSCALE_FACTORS: Record<EnhanceQuality, number> = {
+  HD: 2,
+  '2K': 3,
+  '4K': 4,
+};
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+const requestJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+  }).catch(error => {
+    throw toServiceError(error);
+  });
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    const retryAfter = response.headers.get('retry-after');
+    throw toServiceError({
+      status: response.status,
+      message: `HTTP ${response.status} ${response.statusText}: ${body}${retryAfter ? ` (retry-after: ${retryAfter})` : ''}`,
+    });
+  }
+  return response.json() as Promise<T>;
+};
+
+/**
+ * Provider for a self-hosted Stable Diffusion backend exposing the
+ * AUTOMATIC1111-style `/sdapi/v1/*` endpoints.
+ */
+export const createHttpProvider = (baseUrl: string): ImageProvider => {
+  const root = trimTrailingSlash(baseUrl);
+
+  return {
+    id: 'http',
+    name: 'Stable Diffusion (HTTP)',
+    model: 'sdapi',
+    endpoint: root,
+    capabilities: {
+      imageToImage: true,
+      // img2img only uses the first init image.
+      multipleInputImages: false,
+      upscaling: true,
+      inpainting: true,
+      // Refinements run img2img on the latest image with only the new instruction.
+      conversation: false,
+    },
+    // SD checkpoints are trained around 512–1024px; bigger init images mostly slow img2img down.
+    inputLimits: {
+      maxLongEdge: 1536,
+      mimeTypes: ['image/png', 'image/jpeg'],
+    },
+    generate: async (images, prompt, options) => {
+      if (!root) throw new ServiceError('NO_PROVIDER_URL');
+      reportProgress(options, 'encoding');
+      // img2img takes a single init image (multipleInputImages: false), so only the first is sent.
+      const initImage = images[0] ? await fileToBase64(images[0]) : undefined;
+      // img2img inpaints the white areas of `mask`; the instruction text is only meaningful to LLM-based models.
+      const mask = options?.mask ? await fileToBase64(options.mask.image) : undefined;
+      reportProgress(options, 'requesting');
+      const result = await withRequestSignal(signal => requestJson<{ images?: string[] }>(`${root}/sdapi/v1/img2img`, {
+        method: 'POST',
+        body: JSON.stringify({
+          init_images: initImage ? [initImage] : [],
+          prompt: [prompt, describeImageRoles(options?.imageRoles?.slice(0, 1) ?? [])].filter(Boolean).join('\n'),
+          denoising_strength: 0.55,
+          ...(mask ? { mask, mask_blur: 4, inpainting_fill: 1, inpaint_full_res: false } : {}),
+        }),
+        signal,
+      }), { signal: options?.signal, timeoutMs: options?.timeoutMs });
+      const image = result.images?.[0];
+      if (!image) {
+        throw new ServiceError('UNKNOWN', 'The server returned no image.');
+      }
+      reportProgress(options, 'decoding');
+      const dataUrl = toDataUrl(image);
+      reportProgress(options, 'done');
+      return dataUrl;
+    },
+    enhance: async (imageDataUrl, quality, options) => {
+      if (!root) throw new ServiceError('NO_PROVIDER_URL');
+      reportProgress(options, 'encoding');
+      const { data } = splitDataUrl(imageDataUrl);
+      reportProgress(options, 'requesting');
+      const result = await withRequestSignal(signal => requestJson<{ image?: string }>(`${root}/sdapi/v1/extra-single-image`, {
+        method: 'POST',
+        body: JSON.stringify({
+          image: data,
+          upscaling_resize: UPSCALE_FACTORS[quality],
+        }),
+        signal,
+      }), options);
+      if (!result.image) {
+        throw new ServiceError('UNKNOWN', 'The server returned no upscaled image.');
+      }
+      reportProgress(options, 'decoding');
+      const dataUrl = toDataUrl(result.image);
+      reportProgress(options, 'done');
+      return dataUrl;
+    },
+    refine: async (request, options) => {
+      if (!root) throw new ServiceError('NO_PROVIDER_URL');
+      const latest = request.turns[request.turns.length - 1];
+      if (!latest) throw new ServiceError('UNKNOWN', 'There is no result to refine.');
+      reportProgress(options, 'encoding');
+      const { data } = splitDataUrl(latest.imageUrl);
+      reportProgress(options, 'requesting');
+      const result = await withRequestSignal(signal => requestJson<{ images?: string[] }>(`${root}/sdapi/v1/img2img`, {
+        method: 'POST',
+        body: JSON.stringify({
+          init_images: [data],
+          prompt: request.instruction,
+          // Lower than a fresh generation so the rest of the picture survives the edit.
+          denoising_strength: 0.4,
+        }),
+        signal,
+      }), options);
+      const image = result.images?.[0];
+      if (!image) {
+        throw new ServiceError('UNKNOWN', 'The server returned no image.');
+      }
+      reportProgress(options, 'decoding');
+      const dataUrl = toDataUrl(image);
+      reportProgress(options, 'done');
+      return dataUrl;
+    },
+    validate: async () => {
+      if (!root) {
+        return { success: false, error: t('providers.urlRequired') };
+      }
+      try {
+        await requestJson<unknown>(`${root}/sdapi/v1/sd-models`);
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : t('providers.connectFailed') };
+      }
+    },
+  };
+};
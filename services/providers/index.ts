@@ -0,0 +1,60 @@
+import { ImageProvider, ProviderId, ProviderSettings } from '../../types';
+import { DEFAULT_IMAGE_MODEL } from '../geminiService';
+import { createGeminiProvider } from './geminiProvider';
+import { createHttpProvider } from './httpProvider';
+import { createDemoProvider } from './demoProvider';
+import { t } from '../i18n';
+
+const STORAGE_KEY = 'providerSettings';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; name: string }[] = [
+  { id: 'gemini', name: 'Google Gemini' },
+  { id: 'http', name: 'Stable Diffusion (HTTP)' },
+  // Getter so the name follows the current locale.
+  { id: 'demo', get name() { return t('providers.demo'); } },
+];
+
+// Inlined by vite.config.ts; `process` is missing when the page is served without Vite.
+const buildProxyUrl = (): string => {
+  try {
+    return process.env.GEMINI_PROXY_URL || '';
+  } catch {
+    return '';
+  }
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  geminiModel: DEFAULT_IMAGE_MODEL,
+  geminiProxyUrl: buildProxyUrl(),
+  httpBaseUrl: 'http://localhost:7860',
+  demoFailure: 'none',
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    // Corrupted settings fall back to the defaults below.
+  }
+  return DEFAULT_PROVIDER_SETTINGS;
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const createImageProvider = (settings: ProviderSettings): ImageProvider => {
+  switch (settings.providerId) {
+    case 'http':
+      return createHttpProvider(settings.httpBaseUrl);
+    case 'demo':
+      return createDemoProvider(settings.demoFailure);
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.geminiModel, settings.geminiProxyUrl.trim());
+  }
+};
@@ -0,0 +1,131 @@
+import { InpaintMask, RefineRequest } from '../types';
+import { createId } from './db';
+
+export interface RefineVersion {
+  id: string;
+  // Version this one was refined from; null for the original generation.
+  parentId: string | null;
+  // The original prompt for the root, the follow-up instruction otherwise.
+  prompt: string;
+  // Latest image of this version, replaced when it is enhanced.
+  imageUrl: string;
+  // Pooled API key that produced the latest image.
+  keyLabel: string | null;
+  // The image came from the local result cache rather than a new request.
+  fromCache: boolean;
+  historyId: string | null;
+  createdAt: number;
+}
+
+/**
+ * Every version of one result, kept as a tree: refining an older version
+ * starts a new branch instead of discarding the versions after it.
+ */
+export interface RefineSession {
+  images: File[];
+  imageRoles: string[];
+  mask?: InpaintMask;
+  styleId: string | null;
+  versions: RefineVersion[];
+  currentId: string;
+  // Versions left by undo, most recent last.
+  redoIds: string[];
+}
+
+const createVersion = (parentId: string | null, prompt: string, imageUrl: string, keyLabel: string | null): RefineVersion => ({
+  id: createId(),
+  parentId,
+  prompt,
+  imageUrl,
+  keyLabel,
+  fromCache: false,
+  historyId: null,
+  createdAt: Date.now(),
+});
+
+export const createRefineSession = (
+  base: Pick<RefineSession, 'images' | 'imageRoles' | 'mask' | 'styleId'>,
+  prompt: string,
+  imageUrl: string,
+  keyLabel: string | null = null,
+): RefineSession => {
+  const root = createVersion(null, prompt, imageUrl, keyLabel);
+  return { ...base, versions: [root], currentId: root.id, redoIds: [] };
+};
+
+export const findVersion = (session: RefineSession, id: string): RefineVersion | undefined =>
+  session.versions.find(version => version.id === id);
+
+export const getCurrentVersion = (session: RefineSession): RefineVersion =>
+  findVersion(session, session.currentId) ?? session.versions[0];
+
+// Versions from the original generation down to the given one.
+export const getVersionPath = (session: RefineSession, id: string): RefineVersion[] => {
+  const path: RefineVersion[] = [];
+  let version = findVersion(session, id);
+  while (version) {
+    path.unshift(version);
+    version = version.parentId ? findVersion(session, version.parentId) : undefined;
+  }
+  return path;
+};
+
+export const getVersionDepth = (session: RefineSession, id: string): number =>
+  getVersionPath(session, id).length - 1;
+
+export const buildRefineRequest = (session: RefineSession, instruction: string): RefineRequest => ({
+  images: session.images,
+  imageRoles: session.imageRoles,
+  mask: session.mask,
+  styleId: session.styleId,
+  turns: getVersionPath(session, session.currentId).map(({ prompt, imageUrl }) => ({ prompt, imageUrl })),
+  instruction,
+});
+
+// Adds the result of a refinement under the current version and switches to it.
+export const addRefineVersion = (session: RefineSession, prompt: string, imageUrl: string, keyLabel: string | null = null): RefineSession => {
+  const version = createVersion(session.currentId, prompt, imageUrl, keyLabel);
+  return { ...session, versions: [...session.versions, version], currentId: version.id, redoIds: [] };
+};
+
+export const updateRefineVersion = (session: RefineSession, id: string, patch: Partial<Pick<RefineVersion, 'imageUrl' | 'keyLabel' | 'fromCache' | 'historyId'>>): RefineSession => ({
+  ...session,
+  versions: session.versions.map(version => version.id === id ? { ...version, ...patch } : version),
+});
+
+export const canUndoRefine = (session: RefineSession): boolean => getCurrentVersion(session).parentId !== null;
+
+export const canRedoRefine = (session: RefineSession): boolean => session.redoIds.length > 0;
+
+export const undoRefine = (session: RefineSession): RefineSession => {
+  const current = getCurrentVersion(session);
+  if (!current.parentId) return session;
+  return { ...session, currentId: current.parentId, redoIds: [...session.redoIds, current.id] };
+};
+
+export const redoRefine = (session: RefineSession): RefineSession => {
+  const nextId = session.redoIds[session.redoIds.length - 1];
+  if (!nextId) return session;
+  return { ...session, currentId: nextId, redoIds: session.redoIds.slice(0, -1) };
+};
+
+// Makes any version current; the next refinement then branches from it.
+export const selectRefineVersion = (session: RefineSession, id: string): RefineSession => {
+  if (!findVersion(session, id) || id === session.currentId) return session;
+  return { ...session, currentId: id, redoIds: [] };
+};
+
+// Versions in tree order, for listing with indentation by depth.
+export const listVersionsInTreeOrder = (session: RefineSession): RefineVersion[] => {
+  const ordered: RefineVersion[] = [];
+  const visit = (parentId: string | null) => {
+    session.versions
+      .filter(version => version.parentId === parentId)
+      .forEach(version => {
+        ordered.push(version);
+        visit(version.id);
+      });
+  };
+  visit(null);
+  return ordered;
+};
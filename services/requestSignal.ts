@@ -0,0 +1,46 @@
+import { ServiceError, hasErrorCode } from './serviceError';
+
+// Image generation can legitimately take a while; anything past this is treated as hung.
+export const DEFAULT_REQUEST_TIMEOUT_MS = 120000;
+
+export const isCancelledError = (error: unknown): boolean => hasErrorCode(error, 'CANCELLED');
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new ServiceError('CANCELLED');
+};
+
+/**
+ * Runs a request with a signal that aborts when the caller's signal does or when the
+ * timeout elapses. The returned promise settles as soon as either happens, even if the
+ * underlying request ignores the signal, with a CANCELLED or TIMEOUT error.
+ */
+export const withRequestSignal = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS }: { signal?: AbortSignal; timeoutMs?: number } = {},
+): Promise<T> => {
+  throwIfCancelled(signal);
+  const controller = new AbortController();
+  let rejectAborted: (error: Error) => void = () => {};
+  const aborted = new Promise<never>((_, reject) => { rejectAborted = reject; });
+  const abort = (code: 'CANCELLED' | 'TIMEOUT') => {
+    if (controller.signal.aborted) return;
+    const error = new ServiceError(code);
+    controller.abort(error);
+    rejectAborted(error);
+  };
+
+  const onCallerAbort = () => abort('CANCELLED');
+  signal?.addEventListener('abort', onCallerAbort, { once: true });
+  const timer = setTimeout(() => abort('TIMEOUT'), timeoutMs);
+
+  try {
+    return await Promise.race([run(controller.signal), aborted]);
+  } catch (error) {
+    // The SDK and fetch throw their own AbortError; report why we aborted instead.
+    if (controller.signal.aborted) throw controller.signal.reason;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onCallerAbort);
+  }
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { CacheRequest, computeCacheKey } from './resultCache';
+
+const photo = (content: string, name = 'photo.jpg') => new File([content], name, { type: 'image/jpeg' });
+
+const request = (patch: Partial<CacheRequest> = {}): CacheRequest => ({
+  providerId: 'gemini',
+  model: 'gemini-2.5-flash-image',
+  prompt: 'Restore this photo',
+  images: [photo('first'), photo('second')],
+  imageRoles: ['man', 'woman'],
+  variations: 1,
+  ...patch,
+});
+
+describe('computeCacheKey', () => {
+  it('gives equal requests the same key, whatever the file names', async () => {
+    const key = await computeCacheKey(request());
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await computeCacheKey(request({ images: [photo('first', 'a.jpg'), photo('second', 'b.jpg')] }))).toBe(key);
+  });
+
+  it('changes with everything that decides the result', async () => {
+    const mask = { image: photo('mask'), instruction: 'Remove the lamp' };
+    const variants: Partial<CacheRequest>[] = [
+      { providerId: 'http' },
+      { model: 'gemini-2.5-flash-image-preview' },
+      { endpoint: 'http://gpu-box:7860' },
+      { prompt: 'Restore this photo in color' },
+      { images: [photo('first'), photo('second!')] },
+      { images: [photo('second'), photo('first')] },
+      { imageRoles: ['woman', 'man'] },
+      { variations: 2 },
+      { mask },
+      { mask: { ...mask, instruction: 'Remove the chair' } },
+    ];
+
+    const keys = await Promise.all([request(), ...variants.map(patch => request(patch))].map(computeCacheKey));
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('tells self-hosted servers with the same model apart', async () => {
+    const http = { providerId: 'http', model: 'sdapi' };
+    expect(await computeCacheKey(request({ ...http, endpoint: 'http://localhost:7860' })))
+      .not.toBe(await computeCacheKey(request({ ...http, endpoint: 'http://gpu-box:7860' })));
+  });
+});
@@ -0,0 +1,139 @@
+import { STORES, openDb, withStore } from './db';
+import { GeneratedCandidate } from './variations';
+
+// Everything that decides what a generation returns; two equal requests share a cache entry.
+export interface CacheRequest {
+  providerId: string;
+  model: string;
+  // Server of a self-hosted provider, so two servers with the same model name do not share results.
+  endpoint?: string;
+  prompt: string;
+  images: File[];
+  imageRoles: string[];
+  mask?: { image: File; instruction: string };
+  variations: number;
+}
+
+export interface CachedResult {
+  key: string;
+  candidates: GeneratedCandidate[];
+  // Approximate size of the stored images, counted against the cap.
+  sizeBytes: number;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+export interface CacheSettings {
+  enabled: boolean;
+  maxMegabytes: number;
+}
+
+export const CACHE_SIZE_OPTIONS = [50, 100, 200, 500];
+
+const SETTINGS_STORAGE_KEY = 'resultCache';
+const DEFAULT_SETTINGS: CacheSettings = { enabled: false, maxMegabytes: 200 };
+
+export const loadCacheSettings = (): CacheSettings => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+  } catch (e) {
+    console.error('Failed to load cache settings:', e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = (settings: CacheSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const toHex = (buffer: ArrayBuffer): string => [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource): Promise<string> => toHex(await crypto.subtle.digest('SHA-256', data));
+
+/**
+ * SHA-256 over the settings and the hash of every input file, so the key changes
+ * with any byte of the photos or mask, the resolved prompt, the model or the server.
+ */
+export const computeCacheKey = async (request: CacheRequest): Promise<string> => {
+  const hashFile = async (file: File) => sha256(await file.arrayBuffer());
+  const description = JSON.stringify({
+    providerId: request.providerId,
+    model: request.model,
+    // Only present for self-hosted providers, so existing keys stay valid.
+    ...(request.endpoint ? { endpoint: request.endpoint } : {}),
+    prompt: request.prompt,
+    imageRoles: request.imageRoles,
+    variations: request.variations,
+    images: await Promise.all(request.images.map(hashFile)),
+    mask: request.mask ? { image: await hashFile(request.mask.image), instruction: request.mask.instruction } : null,
+  });
+  return sha256(new TextEncoder().encode(description));
+};
+
+export const findCachedResult = (key: string): Promise<CachedResult | undefined> => {
+  return withStore<CachedResult | undefined>(STORES.resultCache, 'readonly', store => store.get(key));
+};
+
+// Counts a hit and moves the entry to the front of the LRU order.
+export const markCacheHit = async (entry: CachedResult): Promise<void> => {
+  await withStore(STORES.resultCache, 'readwrite', store => store.put({ ...entry, lastUsedAt: Date.now(), hits: entry.hits + 1 }));
+};
+
+// Visits entries from most to least recently used, one at a time so large caches never load at once.
+const walkCache = async (mode: IDBTransactionMode, visit: (cursor: IDBCursorWithValue) => void): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction(STORES.resultCache, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const request = transaction.objectStore(STORES.resultCache).index('lastUsedAt').openCursor(null, 'prev');
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    visit(cursor);
+    cursor.continue();
+  };
+  await done;
+};
+
+// Keeps the most recently used entries that fit under the cap.
+const evictOverCap = async (maxBytes: number): Promise<void> => {
+  let total = 0;
+  await walkCache('readwrite', cursor => {
+    total += (cursor.value as CachedResult).sizeBytes;
+    if (total > maxBytes) cursor.delete();
+  });
+};
+
+// The key covers the variation count, so a set where some variations failed is not stored.
+export const storeCachedResult = async (key: string, candidates: GeneratedCandidate[], variations: number, settings: CacheSettings): Promise<void> => {
+  if (candidates.length < variations) return;
+  const now = Date.now();
+  const entry: CachedResult = {
+    key,
+    candidates,
+    sizeBytes: candidates.reduce((sum, candidate) => sum + candidate.imageUrl.length, 0),
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0,
+  };
+  await withStore(STORES.resultCache, 'readwrite', store => store.put(entry));
+  await evictOverCap(settings.maxMegabytes * 1024 * 1024);
+};
+
+export const getCacheStats = async (): Promise<{ entries: number; sizeBytes: number }> => {
+  const stats = { entries: 0, sizeBytes: 0 };
+  await walkCache('readonly', cursor => {
+    stats.entries++;
+    stats.sizeBytes += (cursor.value as CachedResult).sizeBytes;
+  });
+  return stats;
+};
+
+export const clearResultCache = async (): Promise<void> => {
+  await withStore(STORES.resultCache, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ServiceError, hasErrorCode, toServiceError } from './serviceError';
+
+// Shaped like the errors the Gemini SDK throws: status line plus the JSON body.
+const apiError = (status: number, body: object) => new Error(`got status: ${status}. ${JSON.stringify(body)}`);
+
+describe('toServiceError', () => {
+  it('passes a ServiceError through unchanged', () => {
+    const error = new ServiceError('SAFETY', 'blocked');
+    expect(toServiceError(error)).toBe(error);
+  });
+
+  it('classifies a rejected API key', () => {
+    const error = toServiceError(apiError(400, { error: { code: 400, message: 'API key not valid. Please pass a valid API key.', status: 'INVALID_ARGUMENT' } }));
+    expect(error.code).toBe('INVALID_KEY');
+    expect(error.message).toBe('API key not valid. Please pass a valid API key.');
+    expect(error.retryable).toBe(false);
+  });
+
+  it('classifies 401 and 403 responses as key errors', () => {
+    expect(toServiceError({ status: 401, message: 'Unauthorized' }).code).toBe('INVALID_KEY');
+    expect(toServiceError({ status: 403, message: 'Forbidden' }).code).toBe('INVALID_KEY');
+  });
+
+  it('reads the retry delay of a per-minute quota error and keeps it retryable', () => {
+    const error = toServiceError(apiError(429, {
+      error: {
+        code: 429,
+        message: 'You exceeded your current quota. Quota: GenerateRequestsPerMinutePerProjectPerModel',
+        status: 'RESOURCE_EXHAUSTED',
+        details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '12.5s' }],
+      },
+    }));
+    expect(error.code).toBe('QUOTA_EXHAUSTED');
+    expect(error.retryable).toBe(true);
+    expect(error.details.retryAfterMs).toBe(12500);
+    expect(error.details.status).toBe(429);
+  });
+
+  it('marks daily and zero-limit quotas as not retryable', () => {
+    expect(toServiceError({ status: 429, message: 'Quota: GenerateRequestsPerDayPerProjectPerModel' }).retryable).toBe(false);
+    expect(toServiceError({ status: 429, message: 'RESOURCE_EXHAUSTED, limit: 0' }).retryable).toBe(false);
+  });
+
+  it('reads a retry-after header passed along in the message', () => {
+    const error = toServiceError({ status: 429, message: 'HTTP 429 Too Many Requests:  (retry-after: 30)' });
+    expect(error.code).toBe('QUOTA_EXHAUSTED');
+    expect(error.details.retryAfterMs).toBe(30000);
+  });
+
+  it('classifies fetch failures as retryable network errors', () => {
+    const error = toServiceError(new TypeError('Failed to fetch'));
+    expect(error.code).toBe('NETWORK');
+    expect(error.retryable).toBe(true);
+    expect(toServiceError(new Error('connect ECONNREFUSED 127.0.0.1:8787')).code).toBe('NETWORK');
+  });
+
+  it('retries server errors but not other unknown failures', () => {
+    const serverError = toServiceError({ status: 503, message: 'Service Unavailable' });
+    expect(serverError.code).toBe('UNKNOWN');
+    expect(serverError.retryable).toBe(true);
+
+    const clientError = toServiceError({ status: 400, message: 'Bad request' });
+    expect(clientError.code).toBe('UNKNOWN');
+    expect(clientError.retryable).toBe(false);
+  });
+
+  it('reads the status only from explicit markers in the message', () => {
+    expect(toServiceError(new Error('HTTP 503 Service Unavailable: ')).details.status).toBe(503);
+    expect(toServiceError(new Error('got status: 500 Internal Server Error. {}')).retryable).toBe(true);
+    expect(toServiceError(new Error('{"error":{"code":502,"message":"Bad gateway"}}')).details.status).toBe(502);
+
+    const sizeError = toServiceError(new Error('Input image 4096x502 is larger than 429 megapixels'));
+    expect(sizeError.details.status).toBeUndefined();
+    expect(sizeError.code).toBe('UNKNOWN');
+    expect(sizeError.retryable).toBe(false);
+  });
+
+  it('handles values that are not errors', () => {
+    const error = toServiceError('something odd');
+    expect(error.code).toBe('UNKNOWN');
+    expect(error.message).toBe('something odd');
+  });
+});
+
+describe('hasErrorCode', () => {
+  it('only matches ServiceErrors with that code', () => {
+    expect(hasErrorCode(new ServiceError('CANCELLED'), 'CANCELLED')).toBe(true);
+    expect(hasErrorCode(new ServiceError('TIMEOUT'), 'CANCELLED')).toBe(false);
+    expect(hasErrorCode(new Error('CANCELLED'), 'CANCELLED')).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+export type ServiceErrorCode =
+  | 'INVALID_KEY'
+  | 'NO_API_KEY'
+  | 'NO_PROVIDER_URL'
+  | 'QUOTA_EXHAUSTED'
+  | 'SAFETY'
+  | 'REFUSAL'
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+export interface ServiceErrorDetails {
+  // HTTP status when the failure came from a response.
+  status?: number;
+  // Harm category or block reason reported for a safety block.
+  safetyCategory?: string;
+  // What the model answered instead of an image.
+  modelText?: string;
+  // Server hint for when to try again.
+  retryAfterMs?: number;
+  // The original error or response body, for logs and bug reports.
+  raw?: unknown;
+}
+
+// Retryable by default; quota errors decide per case (per-minute vs daily limits).
+const RETRYABLE_CODES: ServiceErrorCode[] = ['QUOTA_EXHAUSTED', 'NETWORK', 'TIMEOUT'];
+
+/**
+ * Failure from a provider or the service layer, with a stable code the UI maps to a message.
+ */
+export class ServiceError extends Error {
+  readonly code: ServiceErrorCode;
+  readonly retryable: boolean;
+  readonly details: ServiceErrorDetails;
+
+  constructor(code: ServiceErrorCode, message?: string, details: ServiceErrorDetails = {}, retryable?: boolean) {
+    super(message || code);
+    this.name = 'ServiceError';
+    this.code = code;
+    this.details = details;
+    this.retryable = retryable ?? RETRYABLE_CODES.includes(code);
+  }
+}
+
+// Finish reasons Gemini uses when it withholds output for policy reasons.
+export const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const rawMessage = (error: unknown): string => {
+  const message = (error as { message?: unknown })?.message;
+  return typeof message === 'string' ? message : String(error);
+};
+
+const readRetryAfterMs = (message: string): number | undefined => {
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) return Math.ceil(parseFloat(retryDelay[1]) * 1000);
+  const retryAfter = message.match(/retry-after:\s*(\d+(?:\.\d+)?)/i);
+  if (retryAfter) return Math.ceil(parseFloat(retryAfter[1]) * 1000);
+  return undefined;
+};
+
+// API errors embed a JSON body like {"error":{"message":"..."}}; its message is the readable part.
+const readServerMessage = (message: string): string | undefined => {
+  const jsonStart = message.indexOf('{');
+  if (jsonStart === -1) return undefined;
+  try {
+    return JSON.parse(message.substring(jsonStart))?.error?.message;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// Only explicit markers count: a bare number in a message may be an image size or a count.
+const STATUS_PATTERNS = [/\bstatus:?\s+([45]\d\d)\b/i, /\bHTTP\s+([45]\d\d)\b/, /"code"\s*:\s*([45]\d\d)\b/];
+
+const readStatus = (error: unknown, message: string): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status;
+  for (const pattern of STATUS_PATTERNS) {
+    const match = message.match(pattern);
+    if (match) return Number(match[1]);
+  }
+  return undefined;
+};
+
+/**
+ * Classifies anything thrown by the SDK, fetch or a provider. Message matching for
+ * third-party errors lives here only; everything above works with codes.
+ */
+export const toServiceError = (error: unknown): ServiceError => {
+  if (error instanceof ServiceError) return error;
+
+  const message = rawMessage(error);
+  const status = readStatus(error, message);
+  const details: ServiceErrorDetails = { status, raw: error };
+
+  if (message.includes('API key not valid') || message.includes('API_KEY_INVALID') || message.includes('PERMISSION_DENIED') || status === 401 || status === 403) {
+    return new ServiceError('INVALID_KEY', readServerMessage(message) ?? message, details);
+  }
+  if (message.includes('RESOURCE_EXHAUSTED') || status === 429) {
+    // Daily or zero-limit quotas will not recover by waiting a few seconds.
+    const isHardLimit = /PerDay/i.test(message) || /limit:\s*0\b/.test(message);
+    return new ServiceError('QUOTA_EXHAUSTED', readServerMessage(message) ?? message, { ...details, retryAfterMs: readRetryAfterMs(message) }, !isHardLimit);
+  }
+  if (/Failed to fetch|fetch failed|NetworkError|ECONNREFUSED|ENOTFOUND|ECONNRESET/i.test(message)) {
+    return new ServiceError('NETWORK', message, details);
+  }
+  const isServerError = (status !== undefined && status >= 500) || message.includes('UNAVAILABLE') || message.includes('INTERNAL');
+  return new ServiceError('UNKNOWN', readServerMessage(message) ?? message, details, isServerError);
+};
+
+export const hasErrorCode = (error: unknown, code: ServiceErrorCode): boolean =>
+  error instanceof ServiceError && error.code === code;
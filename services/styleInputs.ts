@@ -0,0 +1,51 @@
+import { Style, StyleInputSlot } from '../types';
+import { t } from './i18n';
+
+// Used for custom prompts and styles that do not declare their inputs.
+export const DEFAULT_INPUT_SLOT: StyleInputSlot = { role: 'reference photo', get label() { return t('styles.defaultSlotLabel'); }, required: true };
+
+export const getStyleInputs = (style?: Style | null): StyleInputSlot[] => {
+  return style?.inputs && style.inputs.length > 0 ? style.inputs : [DEFAULT_INPUT_SLOT];
+};
+
+export const emptySlots = (slots: StyleInputSlot[]): (File | null)[] => slots.map(() => null);
+
+// Keeps already uploaded files in order while matching the new slot count.
+export const fitToSlots = (files: (File | null)[], slots: StyleInputSlot[]): (File | null)[] => {
+  return slots.map((_, index) => files[index] ?? null);
+};
+
+// Re-chunks every uploaded file into sets of the new size, so switching styles keeps the uploads.
+export const regroupSets = (sets: (File | null)[][], slots: StyleInputSlot[]): (File | null)[][] => {
+  const uploaded = sets.flat().filter((file): file is File => file !== null);
+  if (uploaded.length === 0) return [emptySlots(slots)];
+  const result: (File | null)[][] = [];
+  for (let i = 0; i < uploaded.length; i += slots.length) {
+    result.push(fitToSlots(uploaded.slice(i, i + slots.length), slots));
+  }
+  return result;
+};
+
+export const getMissingRequiredSlots = (files: (File | null)[], slots: StyleInputSlot[]): StyleInputSlot[] => {
+  return slots.filter((slot, index) => slot.required && !files[index]);
+};
+
+// Returns the filled images with their roles, skipping empty optional slots.
+export const collectSlotFiles = (files: (File | null)[], slots: StyleInputSlot[]): { images: File[]; roles: string[] } => {
+  const images: File[] = [];
+  const roles: string[] = [];
+  slots.forEach((slot, index) => {
+    const file = files[index];
+    if (file) {
+      images.push(file);
+      roles.push(slot.role);
+    }
+  });
+  return { images, roles };
+};
+
+// Plain-text version of the roles for providers that only take a single prompt string.
+export const describeImageRoles = (roles: string[]): string => {
+  if (roles.length === 0) return '';
+  return `The input images are, in order: ${roles.map((role, index) => `image ${index + 1} is the ${role}`).join('; ')}.`;
+};
@@ -0,0 +1,258 @@
+import { Style, StyleInputSlot, StyleVariable, StyleVariableOption } from '../types';
+import { createId } from './db';
+import { extractPlaceholders } from './promptTemplate';
+import { t } from './i18n';
+
+const STORAGE_KEY = 'customStyles';
+export const STYLE_PACK_FORMAT = 'tao-anh-trend/style-pack';
+export const STYLE_PACK_VERSION = 1;
+
+const MAX_NAME_LENGTH = 80;
+const MAX_PROMPT_LENGTH = 8000;
+const MAX_MASK_INSTRUCTION_LENGTH = 1000;
+const MAX_INPUT_SLOTS = 6;
+const MAX_SLOT_TEXT_LENGTH = 60;
+const MAX_VARIABLES = 10;
+const MAX_VARIABLE_OPTIONS = 20;
+const VARIABLE_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+export interface StylePack {
+  format: typeof STYLE_PACK_FORMAT;
+  version: number;
+  exportedAt: string;
+  styles: Style[];
+}
+
+export class StylePackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StylePackError';
+  }
+}
+
+export const createStyleId = (): string => `custom-${createId()}`;
+
+const parseInputSlots = (value: unknown, label: string): StyleInputSlot[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new StylePackError(t('stylePack.invalidInputs', { label }));
+  }
+  if (value.length > MAX_INPUT_SLOTS) {
+    throw new StylePackError(t('stylePack.tooManyInputs', { label, max: MAX_INPUT_SLOTS }));
+  }
+  return value.map((slot, index) => {
+    const slotLabel = t('stylePack.slotN', { label, n: index + 1 });
+    if (!slot || typeof slot !== 'object') {
+      throw new StylePackError(t('stylePack.invalidItem', { label: slotLabel }));
+    }
+    const { role, label: uploaderLabel, required } = slot as Record<string, unknown>;
+    if (typeof role !== 'string' || role.trim() === '' || role.length > MAX_SLOT_TEXT_LENGTH) {
+      throw new StylePackError(t('stylePack.slotRole', { label: slotLabel }));
+    }
+    if (typeof uploaderLabel !== 'string' || uploaderLabel.trim() === '' || uploaderLabel.length > MAX_SLOT_TEXT_LENGTH) {
+      throw new StylePackError(t('stylePack.slotLabel', { label: slotLabel }));
+    }
+    if (required !== undefined && typeof required !== 'boolean') {
+      throw new StylePackError(t('stylePack.slotRequired', { label: slotLabel }));
+    }
+    return { role: role.trim(), label: uploaderLabel.trim(), required: (required as boolean | undefined) ?? true };
+  });
+};
+
+const parseVariableOptions = (value: unknown, label: string): StyleVariableOption[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new StylePackError(t('stylePack.noOptions', { label }));
+  }
+  if (value.length > MAX_VARIABLE_OPTIONS) {
+    throw new StylePackError(t('stylePack.tooManyOptions', { label, max: MAX_VARIABLE_OPTIONS }));
+  }
+  return value.map((option): StyleVariableOption => {
+    // A bare string is accepted as shorthand for { value }.
+    if (typeof option === 'string' && option.trim() !== '') {
+      return { value: option };
+    }
+    const { value: optionValue, label: optionLabel } = (option ?? {}) as Record<string, unknown>;
+    if (typeof optionValue !== 'string' || optionValue.trim() === '') {
+      throw new StylePackError(t('stylePack.invalidOption', { label }));
+    }
+    if (optionLabel !== undefined && typeof optionLabel !== 'string') {
+      throw new StylePackError(t('stylePack.invalidOptionLabel', { label, value: optionValue }));
+    }
+    return typeof optionLabel === 'string' && optionLabel !== '' ? { value: optionValue, label: optionLabel } : { value: optionValue };
+  });
+};
+
+const parseVariables = (value: unknown, label: string): StyleVariable[] => {
+  if (!Array.isArray(value)) {
+    throw new StylePackError(t('stylePack.invalidVariables', { label }));
+  }
+  if (value.length > MAX_VARIABLES) {
+    throw new StylePackError(t('stylePack.tooManyVariables', { label, max: MAX_VARIABLES }));
+  }
+  const variables = value.map((variable, index) => {
+    const variableLabel = t('stylePack.variableN', { label, n: index + 1 });
+    if (!variable || typeof variable !== 'object') {
+      throw new StylePackError(t('stylePack.invalidItem', { label: variableLabel }));
+    }
+    const { name, label: formLabel, type, default: defaultValue, options } = variable as Record<string, unknown>;
+    if (typeof name !== 'string' || !VARIABLE_NAME_PATTERN.test(name)) {
+      throw new StylePackError(t('stylePack.variableName', { label: variableLabel }));
+    }
+    if (typeof formLabel !== 'string' || formLabel.trim() === '') {
+      throw new StylePackError(t('stylePack.variableLabel', { label: variableLabel }));
+    }
+    if (type !== 'choice' && type !== 'text') {
+      throw new StylePackError(t('stylePack.variableType', { label: variableLabel }));
+    }
+    if (typeof defaultValue !== 'string') {
+      throw new StylePackError(t('stylePack.variableDefault', { label: variableLabel }));
+    }
+    const parsed: StyleVariable = { name, label: formLabel.trim(), type, default: defaultValue };
+    if (type === 'choice') {
+      parsed.options = parseVariableOptions(options, variableLabel);
+      if (!parsed.options.some(option => option.value === defaultValue)) {
+        throw new StylePackError(t('stylePack.variableDefaultChoice', { label: variableLabel }));
+      }
+    }
+    return parsed;
+  });
+
+  const names = variables.map(variable => variable.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new StylePackError(t('stylePack.duplicateVariable', { label, name: duplicate }));
+  }
+  return variables;
+};
+
+/**
+ * Checks a single style object coming from storage or an imported file.
+ * Throws a StylePackError with a user-facing message when it is invalid.
+ */
+export const parseStyle = (value: unknown, label: string = t('stylePack.style')): Style => {
+  if (!value || typeof value !== 'object') {
+    throw new StylePackError(t('stylePack.notObject', { label }));
+  }
+  const { id, name, prompt, inputs, variables, maskInstruction } = value as Record<string, unknown>;
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new StylePackError(t('stylePack.noName', { label }));
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new StylePackError(t('stylePack.nameTooLong', { label, max: MAX_NAME_LENGTH }));
+  }
+  if (typeof prompt !== 'string' || prompt.trim() === '') {
+    throw new StylePackError(t('stylePack.noPrompt', { label }));
+  }
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw new StylePackError(t('stylePack.promptTooLong', { label, max: MAX_PROMPT_LENGTH }));
+  }
+  if (id !== undefined && (typeof id !== 'string' || id.trim() === '')) {
+    throw new StylePackError(t('stylePack.invalidId', { label }));
+  }
+
+  const style: Style = {
+    id: typeof id === 'string' ? id : createStyleId(),
+    name: name.trim(),
+    prompt,
+  };
+  if (inputs !== undefined) {
+    style.inputs = parseInputSlots(inputs, label);
+  }
+  if (variables !== undefined) {
+    style.variables = parseVariables(variables, label);
+  }
+  if (maskInstruction !== undefined) {
+    if (typeof maskInstruction !== 'string' || maskInstruction.length > MAX_MASK_INSTRUCTION_LENGTH) {
+      throw new StylePackError(t('stylePack.maskInstruction', { label, max: MAX_MASK_INSTRUCTION_LENGTH }));
+    }
+    // An empty instruction just means the style does not use masks.
+    if (maskInstruction.trim() !== '') {
+      style.maskInstruction = maskInstruction.trim();
+    }
+  }
+
+  const declared = new Set((style.variables ?? []).map(variable => variable.name));
+  const undeclared = extractPlaceholders(prompt).find(placeholder => !declared.has(placeholder));
+  if (undeclared) {
+    throw new StylePackError(t('stylePack.undeclaredVariable', { label, name: undeclared }));
+  }
+  return style;
+};
+
+export const loadCustomStyles = (): Style[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return [];
+    // Skip anything that no longer validates instead of losing the whole library.
+    return parsed.flatMap((item, index) => {
+      try {
+        return [parseStyle(item, t('stylePack.styleN', { n: index + 1 }))];
+      } catch (e) {
+        console.warn('Dropping invalid saved style:', e);
+        return [];
+      }
+    });
+  } catch (e) {
+    console.error('Failed to load custom styles:', e);
+    return [];
+  }
+};
+
+export const saveCustomStyles = (styles: Style[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(styles));
+};
+
+export const exportStylePack = (styles: Style[]): string => {
+  const pack: StylePack = {
+    format: STYLE_PACK_FORMAT,
+    version: STYLE_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    styles,
+  };
+  return JSON.stringify(pack, null, 2);
+};
+
+export const parseStylePack = (json: string): Style[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new StylePackError(t('stylePack.invalidJson'));
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new StylePackError(t('stylePack.invalidFormat'));
+  }
+  const pack = data as Partial<StylePack>;
+  if (pack.format !== STYLE_PACK_FORMAT) {
+    throw new StylePackError(t('stylePack.invalidFormat'));
+  }
+  if (typeof pack.version !== 'number' || pack.version > STYLE_PACK_VERSION) {
+    throw new StylePackError(t('stylePack.unsupportedVersion'));
+  }
+  if (!Array.isArray(pack.styles) || pack.styles.length === 0) {
+    throw new StylePackError(t('stylePack.empty'));
+  }
+
+  return pack.styles.map((style, index) => parseStyle(style, t('stylePack.styleN', { n: index + 1 })));
+};
+
+/**
+ * Merges imported styles into the library. Styles with the id of an existing custom
+ * style replace it; ids that clash with built-in styles get a fresh id.
+ */
+export const mergeImportedStyles = (existing: Style[], imported: Style[], builtInIds: string[]): Style[] => {
+  const result = [...existing];
+  imported.forEach(style => {
+    const incoming = builtInIds.includes(style.id) ? { ...style, id: createStyleId() } : style;
+    const index = result.findIndex(s => s.id === incoming.id);
+    if (index >= 0) {
+      result[index] = incoming;
+    } else {
+      result.push(incoming);
+    }
+  });
+  return result;
+};
@@ -0,0 +1,170 @@
+import { ModelPrice, UsageOperation, UsageRecord } from '../types';
+import { STORES, createId, withStore } from './db';
+import { toServiceError } from './serviceError';
+import { isCancelledError } from './requestSignal';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export type UsagePeriod = 'day' | 'week';
+export type UsageGrouping = 'style' | 'key';
+
+export interface UsageSummaryRow {
+  // Local midnight of the day, or of the Monday that starts the week.
+  periodStart: number;
+  // Style id or key label; null for custom prompts, enhancements or the default key.
+  group: string | null;
+  calls: number;
+  failures: number;
+  cacheHits: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Published list prices in USD; editable in the dashboard since they change.
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-flash-image-preview': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+};
+
+const PRICES_STORAGE_KEY = 'usagePrices';
+
+export const loadPriceTable = (): PriceTable => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(PRICES_STORAGE_KEY) : null;
+    return saved ? { ...DEFAULT_PRICES, ...JSON.parse(saved) } : DEFAULT_PRICES;
+  } catch (e) {
+    console.error('Failed to load price table:', e);
+    return DEFAULT_PRICES;
+  }
+};
+
+export const savePriceTable = (prices: PriceTable) => {
+  localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+};
+
+export const estimateCost = (record: Pick<UsageRecord, 'model' | 'inputTokens' | 'outputTokens'>, prices: PriceTable): number => {
+  const price = prices[record.model];
+  if (!price) return 0;
+  return (record.inputTokens * price.inputPerMillion + record.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const recordUsage = async (record: Omit<UsageRecord, 'id' | 'createdAt'>): Promise<void> => {
+  // Nothing to record into outside the browser (e.g. the CLI).
+  if (typeof indexedDB === 'undefined') return;
+  const entry: UsageRecord = { ...record, id: createId(), createdAt: Date.now() };
+  await withStore(STORES.usage, 'readwrite', store => store.put(entry));
+};
+
+export const recordCacheHit = (model: string, styleId: string | null) => {
+  recordUsage({
+    operation: 'generate',
+    model,
+    styleId,
+    keyLabel: null,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    latencyMs: 0,
+    outcome: 'cached',
+    errorCode: null,
+  }).catch(err => console.error('Failed to record usage:', err));
+};
+
+/**
+ * Times a call and records it once it settles. `run` fills in the token counts
+ * it gets back; failures are recorded with their error code and rethrown.
+ */
+export const trackUsage = async <T>(
+  call: { operation: UsageOperation; model: string; styleId?: string | null; keyLabel: string | null },
+  run: (usage: TokenUsage) => Promise<T>,
+): Promise<T> => {
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  const startedAt = Date.now();
+  const save = (outcome: UsageRecord['outcome'], errorCode: string | null) => {
+    recordUsage({ ...call, styleId: call.styleId ?? null, ...usage, latencyMs: Date.now() - startedAt, outcome, errorCode })
+      .catch(err => console.error('Failed to record usage:', err));
+  };
+  try {
+    const result = await run(usage);
+    save('success', null);
+    return result;
+  } catch (error) {
+    save(isCancelledError(error) ? 'cancelled' : 'error', toServiceError(error).code);
+    throw error;
+  }
+};
+
+export const listUsageRecords = async (since: number = 0): Promise<UsageRecord[]> => {
+  const records = await withStore<UsageRecord[]>(STORES.usage, 'readonly', store => (
+    store.index('createdAt').getAll(IDBKeyRange.lowerBound(since))
+  ));
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const clearUsageRecords = async (): Promise<void> => {
+  await withStore(STORES.usage, 'readwrite', store => store.clear());
+};
+
+export const periodStart = (timestamp: number, period: UsagePeriod): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'week') {
+    // getDay() is 0 on Sunday; weeks start on Monday.
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  }
+  return date.getTime();
+};
+
+// Totals per period and group, newest period first and biggest spender first within it.
+export const summarizeUsage = (records: UsageRecord[], period: UsagePeriod, grouping: UsageGrouping, prices: PriceTable): UsageSummaryRow[] => {
+  const rows = new Map<string, UsageSummaryRow>();
+  for (const record of records) {
+    const start = periodStart(record.createdAt, period);
+    const group = grouping === 'style' ? record.styleId : record.keyLabel;
+    const id = `${start}:${group ?? ''}`;
+    const row = rows.get(id) ?? { periodStart: start, group, calls: 0, failures: 0, cacheHits: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, cost: 0 };
+    row.calls++;
+    if (record.outcome === 'error') row.failures++;
+    if (record.outcome === 'cached') row.cacheHits++;
+    row.inputTokens += record.inputTokens;
+    row.outputTokens += record.outputTokens;
+    row.latencyMs += record.latencyMs;
+    row.cost += estimateCost(record, prices);
+    rows.set(id, row);
+  }
+  return [...rows.values()].sort((a, b) => b.periodStart - a.periodStart || b.cost - a.cost || b.calls - a.calls);
+};
+
+const CSV_COLUMNS = ['time', 'operation', 'model', 'style', 'key', 'input_tokens', 'output_tokens', 'total_tokens', 'latency_ms', 'outcome', 'error_code', 'cost_usd'];
+
+const csvCell = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const usageToCsv = (records: UsageRecord[], prices: PriceTable): string => {
+  const lines = records.map(record => [
+    new Date(record.createdAt).toISOString(),
+    record.operation,
+    record.model,
+    record.styleId,
+    record.keyLabel,
+    record.inputTokens,
+    record.outputTokens,
+    record.totalTokens,
+    record.latencyMs,
+    record.outcome,
+    record.errorCode,
+    estimateCost(record, prices).toFixed(6),
+  ].map(csvCell).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\n');
+};
@@ -0,0 +1,57 @@
+import { GenerateOptions, ImageProvider } from '../types';
+import { isCancelledError, throwIfCancelled } from './requestSignal';
+
+export const MAX_VARIATIONS = 4;
+
+export interface GeneratedCandidate {
+  imageUrl: string;
+  // Pooled API key that served this candidate, when the provider uses the pool.
+  keyLabel: string | null;
+}
+
+const STORAGE_KEY = 'variationCount';
+
+export const loadVariationCount = (): number => {
+  const saved = Number(localStorage.getItem(STORAGE_KEY));
+  return saved >= 1 && saved <= MAX_VARIATIONS ? saved : 1;
+};
+
+export const saveVariationCount = (count: number) => {
+  localStorage.setItem(STORAGE_KEY, String(count));
+};
+
+/**
+ * Fires `count` requests for the same inputs in parallel and returns every image
+ * that came back. Only the first request reports progress. Fails only when no
+ * candidate succeeded, with the first error so callers can classify it as usual.
+ */
+export const generateVariations = async (
+  provider: ImageProvider,
+  count: number,
+  images: File[],
+  prompt: string,
+  options: GenerateOptions = {},
+): Promise<GeneratedCandidate[]> => {
+  const { onProgress, onKeyUsed, ...rest } = options;
+  const settled = await Promise.allSettled(
+    Array.from({ length: Math.max(1, count) }, async (_, variation): Promise<GeneratedCandidate> => {
+      let keyLabel: string | null = null;
+      const imageUrl = await provider.generate(images, prompt, {
+        ...rest,
+        variation,
+        onProgress: variation === 0 ? onProgress : undefined,
+        onKeyUsed: label => {
+          keyLabel = label;
+          onKeyUsed?.(label);
+        },
+      });
+      return { imageUrl, keyLabel };
+    }),
+  );
+  throwIfCancelled(options.signal);
+
+  const candidates = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  if (candidates.length > 0) return candidates;
+  const errors = settled.map(result => (result as PromiseRejectedResult).reason);
+  throw errors.find(error => !isCancelledError(error)) ?? errors[0];
+};
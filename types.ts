@@ -1,6 +1,234 @@
 
+export interface StyleInputSlot {
+  // English role sent to the model so it knows which photo is which, e.g. "man".
+  role: string;
+  // Label shown on the uploader.
+  label: string;
+  required: boolean;
+}
+
+export type StyleVariableType = 'choice' | 'text';
+
+export interface StyleVariableOption {
+  value: string;
+  // Shown in the form instead of the raw value when present.
+  label?: string;
+}
+
+export interface StyleVariable {
+  // Placeholder name, used as {{name}} in the prompt.
+  name: string;
+  label: string;
+  type: StyleVariableType;
+  default: string;
+  // Allowed values for 'choice' variables.
+  options?: StyleVariableOption[];
+}
+
+export type StyleVariableValues = Record<string, string>;
+
 export interface Style {
   id: string;
   name: string;
   prompt: string;
+  // Input photos the style expects, in order. Styles without it take one photo.
+  inputs?: StyleInputSlot[];
+  // Placeholders the prompt may reference as {{name}}.
+  variables?: StyleVariable[];
+  // Tells the model how to read a painted mask. Styles with it let users paint one on the first photo.
+  maskInstruction?: string;
+}
+
+export type EnhanceQuality = 'HD' | '2K' | '4K';
+
+export type ProviderId = 'gemini' | 'http' | 'demo';
+
+export interface ProviderCapabilities {
+  // Accepts input photos as a reference (not just text-to-image).
+  imageToImage: boolean;
+  // Accepts more than one input photo in a single request.
+  multipleInputImages: boolean;
+  // Supports the enhanceImage / upscaling flow.
+  upscaling: boolean;
+  // Accepts a mask marking the regions of the first photo to change.
+  inpainting: boolean;
+  // Refinements see the whole conversation, not just the latest image.
+  conversation: boolean;
+}
+
+export type ProgressStage = 'encoding' | 'requesting' | 'streaming' | 'decoding' | 'done';
+
+export interface ProgressEvent {
+  stage: ProgressStage;
+  // Date.now() when the stage started.
+  at: number;
+  // Set for multi-pass enhancements, 1-based.
+  pass?: number;
+  totalPasses?: number;
+  // Response chunks received so far while streaming.
+  chunks?: number;
+}
+
+export interface RequestOptions {
+  // Aborts the request when the user cancels.
+  signal?: AbortSignal;
+  // Per-request timeout; the provider's default is used when omitted.
+  timeoutMs?: number;
+  onProgress?: (event: ProgressEvent) => void;
+  // Label of the pooled API key that served the request, for providers that use the key pool.
+  onKeyUsed?: (keyLabel: string) => void;
+}
+
+// What a model accepts as input photos; uploads are preprocessed to fit.
+export interface InputLimits {
+  // Longest side in pixels; larger photos are downscaled before upload.
+  maxLongEdge: number;
+  // Formats the model accepts, in order of preference.
+  mimeTypes: string[];
+}
+
+export interface InpaintMask {
+  // Same size as the first input photo: white marks areas to change, black areas to keep.
+  image: Blob;
+  // The style's maskInstruction.
+  instruction: string;
+}
+
+export interface GenerateOptions extends RequestOptions {
+  // Style the prompt came from, when it is not a custom prompt.
+  styleId?: string | null;
+  // Role of each input image, in the same order as the images.
+  imageRoles?: string[];
+  mask?: InpaintMask;
+  // Index among parallel candidates for the same inputs; deterministic providers mix it into their seed.
+  variation?: number;
+}
+
+// One finished turn of a refinement conversation: what was asked and the image that came back.
+export interface ConversationTurn {
+  prompt: string;
+  imageUrl: string;
+}
+
+export interface RefineRequest {
+  // Photos and options of the original generation, sent again as the first turn.
+  images: File[];
+  imageRoles?: string[];
+  mask?: InpaintMask;
+  styleId?: string | null;
+  // From the original generation up to the version being refined.
+  turns: ConversationTurn[];
+  instruction: string;
+}
+
+export interface ImageProvider {
+  id: ProviderId;
+  name: string;
+  // Model identifier recorded alongside results.
+  model: string;
+  // Self-hosted server the requests go to; the same model name there may be a different checkpoint.
+  endpoint?: string;
+  capabilities: ProviderCapabilities;
+  inputLimits: InputLimits;
+  generate: (images: File[], prompt: string, options?: GenerateOptions) => Promise<string>;
+  enhance: (imageDataUrl: string, quality: EnhanceQuality, options?: RequestOptions) => Promise<string>;
+  refine: (request: RefineRequest, options?: RequestOptions) => Promise<string>;
+  validate: () => Promise<{ success: boolean; error?: string }>;
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  geminiModel: string;
+  // When set, Gemini calls go through this proxy and no key is needed in the browser.
+  geminiProxyUrl: string;
+  httpBaseUrl: string;
+  // Error the demo provider should simulate on every request.
+  demoFailure: DemoFailure;
+}
+
+export type DemoFailure = 'none' | 'SAFETY' | 'RESOURCE_EXHAUSTED' | 'MODEL_ERROR';
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  // Latest version of the output, replaced on every enhancement pass.
+  imageDataUrl: string;
+  inputThumbnails: string[];
+  styleId: string | null;
+  customPrompt: string | null;
+  model: string;
+  enhanceCount: number;
+}
+
+export type BatchTaskStatus = 'queued' | 'loading' | 'retrying' | 'success' | 'error';
+
+export interface BatchJobTask {
+  taskId: number;
+  images: File[];
+  roles: string[];
+  // Fully resolved prompt, so the job can resume even if the style was edited since.
+  prompt: string;
+  // Optional mask painted on the first image.
+  mask?: File | null;
+  status: BatchTaskStatus;
+  // The chosen candidate; exported and shown on the tile.
+  imageUrl?: string;
+  // Every image generated for this task when more than one variation was requested.
+  candidates?: string[];
+  error?: string;
+  // ServiceErrorCode of the failure, so resuming can skip the ones that would fail again.
+  errorCode?: string;
+}
+
+export interface BatchJob {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  styleId: string;
+  tasks: BatchJobTask[];
+}
+
+export type ExportFormat = 'original' | 'image/png' | 'image/jpeg' | 'image/webp';
+export type ExportAspect = 'original' | '9:16' | '1:1' | '4:5';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 0–1, used for JPEG and WebP.
+  quality: number;
+  aspect: ExportAspect;
+  // Crop to the aspect ratio, or pad with padColor to keep the whole image.
+  fit: 'crop' | 'pad';
+  padColor: string;
+  // Exact output size in pixels; with only one side set the other follows the aspect ratio.
+  width: number | null;
+  height: number | null;
+}
+
+export type UsageOperation = 'generate' | 'enhance' | 'refine' | 'validate';
+// cached: served from the local result cache, without an API call.
+export type UsageOutcome = 'success' | 'error' | 'cancelled' | 'cached';
+
+// One API call, recorded locally for the usage dashboard.
+export interface UsageRecord {
+  id: string;
+  createdAt: number;
+  operation: UsageOperation;
+  model: string;
+  styleId: string | null;
+  // Label of the pooled key; null for the default key or a key not in the pool.
+  keyLabel: string | null;
+  // Token counts from the response's usage metadata; 0 when none came back.
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  outcome: UsageOutcome;
+  // ServiceErrorCode of a failed call.
+  errorCode: string | null;
+}
+
+// USD per million tokens.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
 }
@@ -4,11 +4,14 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a proxy the key stays on the server (scripts/gemini-proxy-server.mjs) and is not bundled.
+    const bundledKey = env.GEMINI_PROXY_URL ? '' : env.GEMINI_API_KEY;
     return {
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL || '')
       },
       resolve: {
         alias: {